@@ -0,0 +1,106 @@
+// api/_lib/account.ts
+// Data-subject rights: export everything held about one account, and erase it.
+//
+// Erasing deletes the user_account row; the FKs do the rest. Tokens, queued
+// emails, profile history and access codes cascade away. Faucet claims and
+// frozen leaderboard standings keep their row with user_id NULL, and the
+// standings lose the masked name and referral code. referral_event rows where
+// the user was the *referee* survive with referee_id NULL (and the IP hash
+// scrubbed), so the people who referred them keep their points; events where
+// they were the referrer go with them.
+import { sql } from "drizzle-orm";
+import type { SqlExecutor } from "../../db/types.js";
+import type { AccountExport, ISODateString } from "../../types/api.js";
+import { getRows } from "./http.js";
+
+const iso = (v: string | Date | null) => (v ? (new Date(v).toISOString() as ISODateString) : null);
+
+/** Everything about one user as plain JSON (null if there is no such user) */
+export async function exportAccount(db: SqlExecutor, userId: string): Promise<AccountExport | null> {
+  const q = sql<{ doc: AccountExport | null }>`
+    SELECT json_build_object(
+      'account', (
+        SELECT json_build_object(
+          'id', u.id::text, 'email', u.email, 'emailVerified', u.email_verified,
+          'role', u.role, 'experience', u.experience, 'discord', u.discord, 'github', u.github,
+          'country', u.country, 'locale', u.locale, 'referralCode', u.referral_code,
+          'referredBy', (SELECT r.referral_code FROM user_account r WHERE r.id = u.referred_by),
+          'queuePosition', u.queue_position, 'admittedAt', u.admitted_at,
+          'cohort', (SELECT c.name FROM cohort c WHERE c.id = u.cohort_id),
+          'utm', u.utm, 'createdAt', u.created_at
+        )
+      ),
+      'referralsMade', COALESCE((
+        SELECT json_agg(json_build_object(
+                 'kind', e.kind, 'createdAt', e.created_at, 'review', e.review,
+                 'refereeDeleted', e.kind <> 'CLICK' AND e.referee_id IS NULL
+               ) ORDER BY e.id)
+          FROM referral_event e WHERE e.referrer_id = u.id
+      ), '[]'),
+      'referredBy', COALESCE((
+        SELECT json_agg(json_build_object(
+                 'kind', e.kind, 'createdAt', e.created_at,
+                 'referrerCode', (SELECT r.referral_code FROM user_account r WHERE r.id = e.referrer_id)
+               ) ORDER BY e.id)
+          FROM referral_event e WHERE e.referee_id = u.id
+      ), '[]'),
+      'faucetClaims', COALESCE((
+        SELECT json_agg(json_build_object(
+                 'address', f.ss58_address, 'amount', f.amount_qtr, 'status', f.status,
+                 'reason', f.reason, 'txHash', f.tx_hash, 'createdAt', f.created_at,
+                 'processedAt', f.processed_at
+               ) ORDER BY f.id)
+          FROM faucet_claim f WHERE f.user_id = u.id
+      ), '[]'),
+      'profileChanges', COALESCE((
+        SELECT json_agg(json_build_object(
+                 'field', p.field, 'oldValue', p.old_value, 'newValue', p.new_value,
+                 'source', p.source, 'changedAt', p.created_at
+               ) ORDER BY p.id)
+          FROM profile_change p WHERE p.user_id = u.id
+      ), '[]'),
+      'marketing', json_build_object(
+        'subscribed', u.marketing_confirmed_at IS NOT NULL AND u.marketing_unsubscribed_at IS NULL,
+        'consentedAt', u.marketing_consent_at, 'source', u.marketing_consent_source,
+        'confirmedAt', u.marketing_confirmed_at, 'unsubscribedAt', u.marketing_unsubscribed_at
+      ),
+      'emails', COALESCE((
+        SELECT json_agg(json_build_object(
+                 'kind', o.kind, 'to', o.to_email, 'status', o.status,
+                 'createdAt', o.created_at, 'sentAt', o.sent_at
+               ) ORDER BY o.id)
+          FROM email_outbox o WHERE o.user_id = u.id
+      ), '[]')
+    ) AS doc
+      FROM user_account u
+     WHERE u.id = ${userId}
+  `;
+  const doc = getRows<{ doc: AccountExport | null }>(await db.execute(q))[0]?.doc ?? null;
+  return doc ? { ...doc, exportedAt: iso(new Date())! } : null;
+}
+
+/**
+ * Erase the account in one statement (see the header for what survives).
+ * Returns false if there was nothing to erase.
+ */
+export async function eraseAccount(db: SqlExecutor, userId: string): Promise<boolean> {
+  const q = sql<{ erased: number }>`
+    WITH scrub AS (
+      UPDATE referral_event SET ip_hash = NULL
+       WHERE referee_id = ${userId} AND ip_hash IS NOT NULL
+      RETURNING 1
+    ), standings AS (
+      UPDATE leaderboard_standing
+         SET name = '[deleted]', referral_code = 'deleted-' || rank
+       WHERE user_id = ${userId}
+      RETURNING 1
+    ), del AS (
+      DELETE FROM user_account WHERE id = ${userId}
+      RETURNING 1
+    )
+    SELECT (SELECT COUNT(*) FROM del)::int AS erased,
+           (SELECT COUNT(*) FROM scrub)::int AS scrubbed,
+           (SELECT COUNT(*) FROM standings)::int AS standings
+  `;
+  return (getRows<{ erased: number }>(await db.execute(q))[0]?.erased ?? 0) > 0;
+}
@@ -0,0 +1,284 @@
+// api/_lib/admin-users.ts
+// Member support for the waitlist team (api/admin/users.ts): search, a detail
+// view with referral and faucet history, and the operator actions. Each
+// action writes its admin_audit row in the same statement as the change.
+import { randomBytes } from "node:crypto";
+import { sql, type SQL } from "drizzle-orm";
+import type { SqlExecutor } from "../../db/types.js";
+import type {
+  AdminRole,
+  AdminUserDetail,
+  AdminUserSearchField,
+  AdminUserSummary,
+  ISODateString,
+} from "../../types/api.js";
+import { auditEntry, type AdminPrincipal } from "./admin.js";
+import { getRows } from "./http.js";
+import { revokeTokens } from "./tokens.js";
+
+export const SEARCH_FIELDS: readonly AdminUserSearchField[] = ["email", "code", "github", "discord"];
+
+const iso = (v: string | Date | null) => (v ? (new Date(v).toISOString() as ISODateString) : null);
+
+type SummaryRow = {
+  id: string;
+  email: string;
+  referral_code: string | null;
+  role: string | null;
+  github: string | null;
+  discord: string | null;
+  email_verified: boolean;
+  queue_position: number | null;
+  admitted_at: string | Date | null;
+  blocked_at: string | Date | null;
+  admin_role: AdminRole | null;
+  created_at: string | Date;
+};
+
+const SUMMARY_COLUMNS = sql`
+  u.id::text AS id, u.email, u.referral_code, u.role, u.github, u.discord, u.email_verified,
+  u.queue_position, u.admitted_at, u.blocked_at, u.admin_role, u.created_at
+`;
+
+function summary(r: SummaryRow): AdminUserSummary {
+  return {
+    id: r.id,
+    email: r.email,
+    referralCode: r.referral_code,
+    role: r.role,
+    github: r.github,
+    discord: r.discord,
+    emailVerified: Boolean(r.email_verified),
+    queuePosition: r.queue_position,
+    admittedAt: iso(r.admitted_at),
+    blockedAt: iso(r.blocked_at),
+    adminRole: r.admin_role,
+    createdAt: iso(r.created_at)!,
+  };
+}
+
+/**
+ * Case-insensitive substring search on one field, or on all of them when
+ * `by` is omitted. Referral codes also match exactly (ranked first).
+ */
+export async function searchUsers(
+  db: SqlExecutor,
+  opts: { q: string; by?: AdminUserSearchField; limit: number }
+): Promise<AdminUserSummary[]> {
+  const pattern = `%${opts.q.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+  const columns: Record<AdminUserSearchField, SQL> = {
+    email: sql`u.email ILIKE ${pattern}`,
+    code: sql`u.referral_code ILIKE ${pattern}`,
+    github: sql`u.github ILIKE ${pattern}`,
+    discord: sql`u.discord ILIKE ${pattern}`,
+  };
+  const match = opts.by ? columns[opts.by] : sql`(${sql.join(Object.values(columns), sql` OR `)})`;
+  const q = sql<SummaryRow>`
+    SELECT ${SUMMARY_COLUMNS}
+      FROM user_account u
+     WHERE ${match}
+     ORDER BY (upper(u.referral_code) = upper(${opts.q})) DESC NULLS LAST, (lower(u.email) = lower(${opts.q})) DESC, u.id
+     LIMIT ${opts.limit}
+  `;
+  return getRows<SummaryRow>(await db.execute(q)).map(summary);
+}
+
+type DetailRow = SummaryRow & {
+  experience: string | null;
+  country: string | null;
+  locale: string;
+  blocked_reason: string | null;
+  cohort: string | null;
+  referred_by: string | null;
+  referred_by_code: string | null;
+  clicks: number;
+  signups: number;
+  verified: number;
+  referrals_made: {
+    eventId: string;
+    kind: AdminUserDetail["referralsMade"][number]["kind"];
+    refereeId: string | null;
+    refereeEmail: string | null;
+    review: AdminUserDetail["referralsMade"][number]["review"];
+    createdAt: ISODateString;
+  }[];
+  faucet_claims: AdminUserDetail["faucetClaims"];
+  audit: Parameters<typeof auditEntry>[0][];
+};
+
+/** Everything the team needs to answer a support request about one user */
+export async function getUserDetail(db: SqlExecutor, userId: string): Promise<AdminUserDetail | null> {
+  const q = sql<DetailRow>`
+    SELECT ${SUMMARY_COLUMNS},
+           u.experience, u.country, u.locale, u.blocked_reason,
+           (SELECT c.slug FROM cohort c WHERE c.id = u.cohort_id) AS cohort,
+           u.referred_by::text AS referred_by,
+           (SELECT r.referral_code FROM user_account r WHERE r.id = u.referred_by) AS referred_by_code,
+           (SELECT COUNT(*) FROM referral_event e WHERE e.referrer_id = u.id AND e.kind = 'CLICK')::int AS clicks,
+           (SELECT COUNT(*) FROM referral_event e WHERE e.referrer_id = u.id AND e.kind = 'SIGNUP')::int AS signups,
+           (SELECT COUNT(*) FROM referral_event e WHERE e.referrer_id = u.id AND e.kind = 'VERIFIED')::int AS verified,
+           COALESCE((
+             SELECT json_agg(json_build_object(
+                      'eventId', e.id::text, 'kind', e.kind, 'refereeId', e.referee_id::text,
+                      'refereeEmail', r.email, 'review', e.review, 'createdAt', e.created_at
+                    ) ORDER BY e.id DESC)
+               FROM (SELECT * FROM referral_event
+                      WHERE referrer_id = u.id AND kind <> 'CLICK'
+                      ORDER BY id DESC LIMIT 100) e
+               LEFT JOIN user_account r ON r.id = e.referee_id
+           ), '[]') AS referrals_made,
+           COALESCE((
+             SELECT json_agg(json_build_object(
+                      'id', f.id::text, 'address', f.ss58_address, 'amount', f.amount_qtr, 'status', f.status,
+                      'reason', f.reason, 'txHash', f.tx_hash, 'createdAt', f.created_at
+                    ) ORDER BY f.id DESC)
+               FROM faucet_claim f WHERE f.user_id = u.id
+           ), '[]') AS faucet_claims,
+           COALESCE((
+             SELECT json_agg(a ORDER BY a.id DESC)
+               FROM (SELECT id::text AS id, actor, actor_role, action, target_user_id::text AS target_user_id,
+                            detail, created_at
+                       FROM admin_audit WHERE target_user_id = u.id
+                      ORDER BY id DESC LIMIT 20) a
+           ), '[]') AS audit
+      FROM user_account u
+     WHERE u.id = ${userId}
+  `;
+  const r = getRows<DetailRow>(await db.execute(q))[0];
+  if (!r) return null;
+  return {
+    ...summary(r),
+    experience: r.experience,
+    country: r.country,
+    locale: r.locale,
+    blockedReason: r.blocked_reason,
+    cohort: r.cohort,
+    referredBy: r.referred_by ? { id: r.referred_by, referralCode: r.referred_by_code } : null,
+    referrals: { clicks: r.clicks, signups: r.signups, verified: r.verified },
+    referralsMade: r.referrals_made.map((e) => ({ ...e, createdAt: iso(e.createdAt)! })),
+    faucetClaims: r.faucet_claims.map((f) => ({ ...f, createdAt: iso(f.createdAt)! })),
+    audit: r.audit.map(auditEntry),
+  };
+}
+
+/** null: no such user; changed: false when it was already in that state */
+export type ActionResult = { changed: boolean } | null;
+
+async function userExists(db: SqlExecutor, userId: string) {
+  return getRows(await db.execute(sql`SELECT 1 FROM user_account WHERE id = ${userId}`)).length > 0;
+}
+
+/**
+ * Mark the email verified without the link (e.g. the user can't receive it),
+ * with the same side effects as api/verify-email.ts: the referrer gets the
+ * VERIFIED referral, and outstanding verify links are voided.
+ */
+export async function verifyUser(db: SqlExecutor, admin: AdminPrincipal, userId: string): Promise<ActionResult> {
+  const q = sql<{ id: string }>`
+    WITH upd AS (
+      UPDATE user_account SET email_verified = true
+       WHERE id = ${userId} AND NOT email_verified
+   RETURNING id
+    ), ref AS (
+      INSERT INTO referral_event (referrer_id, referee_id, kind, review)
+      SELECT s.referrer_id, upd.id, 'VERIFIED', s.review
+        FROM upd
+        JOIN LATERAL (
+          SELECT referrer_id, review FROM referral_event
+           WHERE referee_id = upd.id AND kind = 'SIGNUP'
+           ORDER BY created_at DESC LIMIT 1
+        ) s ON true
+      ON CONFLICT DO NOTHING
+    ), audit AS (
+      INSERT INTO admin_audit (actor, actor_role, action, target_user_id)
+      SELECT ${admin.actor}, ${admin.role}::admin_role, 'user.verify', upd.id FROM upd
+    )
+    SELECT id::text AS id FROM upd
+  `;
+  if (getRows(await db.execute(q)).length) {
+    await revokeTokens(db, { userId, purpose: "email-verify" });
+    return { changed: true };
+  }
+  return (await userExists(db, userId)) ? { changed: false } : null;
+}
+
+/**
+ * Block (or unblock, with reason null) a user. Blocking signs them out
+ * everywhere by revoking their tokens; see auth.ts for what it prevents.
+ */
+export async function setBlocked(
+  db: SqlExecutor,
+  admin: AdminPrincipal,
+  userId: string,
+  reason: string | null
+): Promise<ActionResult> {
+  const blocking = reason !== null;
+  const q = sql<{ id: string }>`
+    WITH upd AS (
+      UPDATE user_account
+         SET blocked_at = ${blocking ? sql`now()` : null}, blocked_reason = ${reason}
+       WHERE id = ${userId} AND (blocked_at IS NULL) = ${blocking}
+   RETURNING id
+    ), audit AS (
+      INSERT INTO admin_audit (actor, actor_role, action, target_user_id, detail)
+      SELECT ${admin.actor}, ${admin.role}::admin_role, ${blocking ? "user.block" : "user.unblock"}, upd.id,
+             ${JSON.stringify(blocking ? { reason } : {})}::jsonb
+        FROM upd
+    )
+    SELECT id::text AS id FROM upd
+  `;
+  if (getRows(await db.execute(q)).length) {
+    if (blocking) await revokeTokens(db, { userId });
+    return { changed: true };
+  }
+  return (await userExists(db, userId)) ? { changed: false } : null;
+}
+
+export function generateReferralCode(): string {
+  return randomBytes(5).toString("hex").toUpperCase();
+}
+
+export type ReassignResult =
+  | { ok: true; oldCode: string | null; newCode: string }
+  | { ok: false; code: "NOT_FOUND" | "CODE_TAKEN" };
+
+/**
+ * Give the user a new referral code (e.g. the old one is offensive or was
+ * leaked). Old share links stop resolving; points stay, since referral
+ * events point at the user, not the code.
+ */
+export async function reassignReferralCode(
+  db: SqlExecutor,
+  admin: AdminPrincipal,
+  userId: string,
+  code?: string
+): Promise<ReassignResult> {
+  type Row = { old_code: string | null; new_code: string };
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const newCode = code ?? generateReferralCode();
+    const q = sql<Row>`
+      WITH old AS (
+        SELECT id, referral_code FROM user_account WHERE id = ${userId} FOR UPDATE
+      ), upd AS (
+        UPDATE user_account u SET referral_code = ${newCode} FROM old WHERE u.id = old.id
+        RETURNING u.id, u.referral_code
+      ), audit AS (
+        INSERT INTO admin_audit (actor, actor_role, action, target_user_id, detail)
+        SELECT ${admin.actor}, ${admin.role}::admin_role, 'user.reassign-code', upd.id,
+               jsonb_build_object('from', old.referral_code, 'to', upd.referral_code)
+          FROM old JOIN upd ON upd.id = old.id
+      )
+      SELECT old.referral_code AS old_code, upd.referral_code AS new_code FROM old JOIN upd ON upd.id = old.id
+    `;
+    try {
+      const row = getRows<Row>(await db.execute(q))[0];
+      if (!row) return { ok: false, code: "NOT_FOUND" };
+      return { ok: true, oldCode: row.old_code, newCode: row.new_code };
+    } catch (e: any) {
+      const msg = String(e?.message || e);
+      if (!(/\bunique\b/i.test(msg) && /referral_code/i.test(msg))) throw e;
+      if (code) return { ok: false, code: "CODE_TAKEN" }; // chosen code: don't retry
+    }
+  }
+  throw new Error("Failed to generate a unique referral code");
+}
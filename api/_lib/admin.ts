@@ -0,0 +1,258 @@
+// api/_lib/admin.ts
+// Who may call api/admin/*, and the audit log of what they did.
+//
+// Three ways in:
+//   - an admin API key (`Authorization: Bearer qak_…`, admin_api_key row) for
+//     scripts and tools; the role is fixed per key
+//   - a team member's own sign-in (session cookie or dashboard token, see
+//     auth.ts) when their user_account.admin_role is set
+//   - ADMIN_API_TOKEN, the original shared secret, acting as owner. Keep it
+//     for bootstrapping (scripts/admin.ts) and unset it once keys exist.
+//
+// Roles are ordered viewer < operator < owner: viewers read, operators change
+// users, cohorts and referral reviews, owners manage keys and roles. Every
+// change, and every lookup of a specific person, writes an admin_audit row.
+import { createHash, randomBytes } from "node:crypto";
+import type { VercelRequest } from "@vercel/node";
+import { sql, type SQL } from "drizzle-orm";
+import type { SqlExecutor } from "../../db/types.js";
+import type { AdminApiKeyInfo, AdminAuditEntry, AdminRole, AdminTeamMember, ISODateString } from "../../types/api.js";
+import { authenticate } from "./auth.js";
+import { bearerToken, getRows, isAdminAuthorized } from "./http.js";
+
+export const ADMIN_ROLES: readonly AdminRole[] = ["viewer", "operator", "owner"];
+
+const KEY_PREFIX = "qak_";
+
+/** The caller, as written to admin_audit.actor */
+export type AdminPrincipal = { actor: string; role: AdminRole };
+
+export type AdminAuthResult =
+  | { ok: true; admin: AdminPrincipal }
+  | { ok: false; status: 401 | 403; code: string; message: string };
+
+/** Scripts run with shell access to production, so they act as owner */
+export const SCRIPT_ADMIN: AdminPrincipal = { actor: "script", role: "owner" };
+
+const iso = (v: string | Date | null) => (v ? (new Date(v).toISOString() as ISODateString) : null);
+const hashKey = (key: string) => createHash("sha256").update(key).digest("hex");
+
+export function hasRole(admin: AdminPrincipal, minRole: AdminRole): boolean {
+  return ADMIN_ROLES.indexOf(admin.role) >= ADMIN_ROLES.indexOf(minRole);
+}
+
+async function resolveAdmin(req: VercelRequest, db: SqlExecutor): Promise<AdminAuthResult> {
+  const bearer = bearerToken(req);
+
+  if (bearer?.startsWith(KEY_PREFIX)) {
+    const q = sql<{ id: string; name: string; role: AdminRole }>`
+      UPDATE admin_api_key SET last_used_at = now()
+       WHERE key_hash = ${hashKey(bearer)} AND revoked_at IS NULL
+   RETURNING id::text AS id, name, role
+    `;
+    const key = getRows<{ id: string; name: string; role: AdminRole }>(await db.execute(q))[0];
+    if (!key) return { ok: false, status: 401, code: "UNAUTHORIZED", message: "Unknown or revoked API key" };
+    return { ok: true, admin: { actor: `key:${key.id} ${key.name}`, role: key.role } };
+  }
+
+  if (bearer && isAdminAuthorized(req)) return { ok: true, admin: { actor: "token", role: "owner" } };
+
+  const auth = await authenticate(req, db);
+  if (!auth.ok) {
+    return { ok: false, status: auth.code === "FORBIDDEN_ORIGIN" ? 403 : 401, code: auth.code, message: auth.message };
+  }
+  const q = sql<{ email: string; admin_role: AdminRole | null }>`
+    SELECT email, admin_role FROM user_account WHERE id = ${auth.userId}
+  `;
+  const user = getRows<{ email: string; admin_role: AdminRole | null }>(await db.execute(q))[0];
+  if (!user?.admin_role) return { ok: false, status: 403, code: "FORBIDDEN", message: "Not a team member" };
+  return { ok: true, admin: { actor: `user:${auth.userId} ${user.email}`, role: user.admin_role } };
+}
+
+/** Authenticate the caller and require at least `minRole` */
+export async function authorizeAdmin(req: VercelRequest, db: SqlExecutor, minRole: AdminRole): Promise<AdminAuthResult> {
+  const result = await resolveAdmin(req, db);
+  if (result.ok && !hasRole(result.admin, minRole)) {
+    return { ok: false, status: 403, code: "FORBIDDEN", message: `Requires the ${minRole} role` };
+  }
+  return result;
+}
+
+/**
+ * SQL for one audit row, for use inside a CTE so the change and its log
+ * entry commit together. `target` may be a column expression (e.g. upd.id).
+ */
+export function auditInsert(
+  admin: AdminPrincipal,
+  action: string,
+  target: SQL | string | null,
+  detail: Record<string, unknown> = {}
+) {
+  return sql`
+    INSERT INTO admin_audit (actor, actor_role, action, target_user_id, detail)
+    VALUES (${admin.actor}, ${admin.role}::admin_role, ${action}, ${target}, ${JSON.stringify(detail)}::jsonb)
+  `;
+}
+
+/** Log an action on its own (reads, and changes made by other modules) */
+export async function recordAudit(
+  db: SqlExecutor,
+  admin: AdminPrincipal,
+  action: string,
+  opts: { targetUserId?: string | null; detail?: Record<string, unknown> } = {}
+): Promise<void> {
+  await db.execute(auditInsert(admin, action, opts.targetUserId ?? null, opts.detail));
+}
+
+type AuditRow = {
+  id: string;
+  actor: string;
+  actor_role: AdminRole;
+  action: string;
+  target_user_id: string | null;
+  detail: Record<string, unknown>;
+  created_at: string | Date;
+};
+
+export function auditEntry(r: AuditRow): AdminAuditEntry {
+  return {
+    id: r.id,
+    actor: r.actor,
+    actorRole: r.actor_role,
+    action: r.action,
+    targetUserId: r.target_user_id,
+    detail: r.detail ?? {},
+    createdAt: iso(r.created_at)!,
+  };
+}
+
+/** Newest first; page with `before` (an audit id) */
+export async function listAudit(
+  db: SqlExecutor,
+  opts: { targetUserId?: string; action?: string; before?: string; limit: number }
+): Promise<{ items: AdminAuditEntry[]; nextBefore: string | null }> {
+  const filters = [
+    opts.targetUserId ? sql`target_user_id = ${opts.targetUserId}` : undefined,
+    opts.action ? sql`action = ${opts.action}` : undefined,
+    opts.before ? sql`id < ${opts.before}` : undefined,
+  ].filter((f) => f !== undefined);
+  const where = filters.length ? sql`WHERE ${sql.join(filters, sql` AND `)}` : sql``;
+  const q = sql<AuditRow>`
+    SELECT id::text AS id, actor, actor_role, action, target_user_id::text AS target_user_id, detail, created_at
+      FROM admin_audit
+      ${where}
+     ORDER BY id DESC
+     LIMIT ${opts.limit + 1}
+  `;
+  const rows = getRows<AuditRow>(await db.execute(q));
+  const items = rows.slice(0, opts.limit).map(auditEntry);
+  return { items, nextBefore: rows.length > opts.limit ? items[items.length - 1].id : null };
+}
+
+/* ---- Team: API keys and account roles (owner) ---------------------------- */
+
+type KeyRow = {
+  id: string;
+  name: string;
+  role: AdminRole;
+  created_by: string | null;
+  created_at: string | Date;
+  last_used_at: string | Date | null;
+  revoked_at: string | Date | null;
+};
+
+const KEY_COLUMNS = sql`id::text AS id, name, role, created_by, created_at, last_used_at, revoked_at`;
+
+function keyInfo(r: KeyRow): AdminApiKeyInfo {
+  return {
+    id: r.id,
+    name: r.name,
+    role: r.role,
+    createdBy: r.created_by,
+    createdAt: iso(r.created_at)!,
+    lastUsedAt: iso(r.last_used_at),
+    revokedAt: iso(r.revoked_at),
+  };
+}
+
+/** Create a key; the secret is returned once and only its hash is stored */
+export async function createApiKey(
+  db: SqlExecutor,
+  admin: AdminPrincipal,
+  input: { name: string; role: AdminRole }
+): Promise<{ key: string; apiKey: AdminApiKeyInfo }> {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  const q = sql<KeyRow>`
+    WITH ins AS (
+      INSERT INTO admin_api_key (name, role, key_hash, created_by)
+      VALUES (${input.name}, ${input.role}::admin_role, ${hashKey(key)}, ${admin.actor})
+      RETURNING *
+    ), audit AS (
+      ${auditInsert(admin, "key.create", null, { name: input.name, role: input.role })}
+    )
+    SELECT ${KEY_COLUMNS} FROM ins
+  `;
+  return { key, apiKey: keyInfo(getRows<KeyRow>(await db.execute(q))[0]) };
+}
+
+export async function listApiKeys(db: SqlExecutor): Promise<AdminApiKeyInfo[]> {
+  const q = sql<KeyRow>`SELECT ${KEY_COLUMNS} FROM admin_api_key ORDER BY id`;
+  return getRows<KeyRow>(await db.execute(q)).map(keyInfo);
+}
+
+/** Returns false if the key doesn't exist or was already revoked */
+export async function revokeApiKey(db: SqlExecutor, admin: AdminPrincipal, id: string): Promise<boolean> {
+  const q = sql<{ id: string }>`
+    WITH upd AS (
+      UPDATE admin_api_key SET revoked_at = now()
+       WHERE id = ${id} AND revoked_at IS NULL
+   RETURNING id, name
+    ), audit AS (
+      INSERT INTO admin_audit (actor, actor_role, action, detail)
+      SELECT ${admin.actor}, ${admin.role}::admin_role, 'key.revoke', jsonb_build_object('id', upd.id::text, 'name', upd.name)
+        FROM upd
+    )
+    SELECT id::text AS id FROM upd
+  `;
+  return getRows(await db.execute(q)).length > 0;
+}
+
+export async function listTeam(db: SqlExecutor): Promise<AdminTeamMember[]> {
+  type Row = { id: string; email: string; admin_role: AdminRole };
+  const q = sql<Row>`
+    SELECT id::text AS id, email, admin_role FROM user_account
+     WHERE admin_role IS NOT NULL
+     ORDER BY id
+  `;
+  return getRows<Row>(await db.execute(q)).map((r) => ({ userId: r.id, email: r.email, role: r.admin_role }));
+}
+
+/**
+ * Grant (or with role null, remove) team access for an existing account.
+ * Returns undefined if no account has that email.
+ */
+export async function setAdminRole(
+  db: SqlExecutor,
+  admin: AdminPrincipal,
+  email: string,
+  role: AdminRole | null
+): Promise<AdminTeamMember | null | undefined> {
+  type Row = { id: string; email: string; admin_role: AdminRole | null };
+  const q = sql<Row>`
+    WITH old AS (
+      SELECT id, admin_role FROM user_account WHERE lower(email) = ${email.trim().toLowerCase()} FOR UPDATE
+    ), upd AS (
+      UPDATE user_account u SET admin_role = ${role}::admin_role FROM old WHERE u.id = old.id
+      RETURNING u.id, u.email, u.admin_role
+    ), audit AS (
+      INSERT INTO admin_audit (actor, actor_role, action, target_user_id, detail)
+      SELECT ${admin.actor}, ${admin.role}::admin_role, 'team.set-role', upd.id,
+             jsonb_build_object('from', old.admin_role, 'to', upd.admin_role)
+        FROM old JOIN upd ON upd.id = old.id
+    )
+    SELECT id::text AS id, email, admin_role FROM upd
+  `;
+  const row = getRows<Row>(await db.execute(q))[0];
+  if (!row) return undefined;
+  return row.admin_role ? { userId: row.id, email: row.email, role: row.admin_role } : null;
+}
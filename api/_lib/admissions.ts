@@ -0,0 +1,328 @@
+// api/_lib/admissions.ts
+// Letting people off the waitlist. A cohort is a batch of `size` seats with
+// optional filters (roles, queue cutoff, verified-only). admitCohort fills the
+// free seats from the front of the queue (queue_position, then id, so the
+// same data always picks the same people), issues each admitted user a
+// single-use access code and queues a cohort-invite email.
+//
+// Every step is idempotent, so re-running admit after a crash (or after the
+// queue moved) only tops up seats and fills in missing codes / invites.
+// Codes are redeemed once via /api/redeem-access-code.
+//
+// revokeAccessCode kills a member's unredeemed code (they keep the seat, and
+// admit won't hand them a new one); reissueAccessCode replaces it with a fresh
+// code and queues a new invite for it (lost or leaked codes).
+import { createHash, randomBytes } from "node:crypto";
+import { sql } from "drizzle-orm";
+import type { SqlExecutor } from "../../db/types.js";
+import type {
+  AdmitSummary,
+  CohortCandidate,
+  CohortInfo,
+  ISODateString,
+  Role,
+} from "../../types/api.js";
+import { appUrl, getRows } from "./http.js";
+import { enqueueEmail } from "./outbox.js";
+import { resolveLocale } from "./templates/index.js";
+
+/** Signup roles a cohort can filter on (see Role) */
+export const ROLES: readonly Role[] = [
+  "Enthusiast (No code)",
+  "Creator",
+  "Builder",
+  "Validator",
+  "Ambassador",
+  "Partner",
+  "Press",
+];
+
+export type Cohort = CohortInfo & { id: string };
+
+export type CohortInput = {
+  slug: string;
+  name: string;
+  size: number;
+  roles?: Role[] | null;
+  queueCutoff?: number | null;
+  verifiedOnly?: boolean;
+};
+
+export type ReissueResult =
+  | { ok: true; code: string; revoked: number; invited: boolean }
+  | { ok: false; code: "NOT_MEMBER" | "REDEEMED" };
+
+export type RedeemResult =
+  | { ok: true; userId: string; cohort: string; redeemedAt: Date }
+  | { ok: false; code: "INVALID" | "USED" };
+
+type CohortDbRow = {
+  id: string;
+  slug: string;
+  name: string;
+  size: number;
+  roles: string[] | null;
+  queue_cutoff: number | null;
+  verified_only: boolean;
+  created_at: string | Date;
+  admitted_at: string | Date | null;
+  admitted: number;
+  redeemed: number;
+};
+
+const COHORT_COLUMNS = sql`
+  c.id::text AS id, c.slug, c.name, c.size, c.roles, c.queue_cutoff, c.verified_only,
+  c.created_at, c.admitted_at,
+  (SELECT COUNT(*) FROM user_account u WHERE u.cohort_id = c.id)::int AS admitted,
+  (SELECT COUNT(*) FROM access_code a WHERE a.cohort_id = c.id AND a.redeemed_at IS NOT NULL)::int AS redeemed
+`;
+
+const iso = (v: string | Date) => new Date(v).toISOString() as ISODateString;
+
+function toCohort(r: CohortDbRow): Cohort {
+  return {
+    id: r.id,
+    slug: r.slug,
+    name: r.name,
+    size: r.size,
+    roles: r.roles as Role[] | null,
+    queueCutoff: r.queue_cutoff,
+    verifiedOnly: r.verified_only,
+    createdAt: iso(r.created_at),
+    admittedAt: r.admitted_at ? iso(r.admitted_at) : null,
+    admitted: r.admitted,
+    redeemed: r.redeemed,
+  };
+}
+
+/** Public shape (no internal id) */
+export function cohortInfo({ id: _id, ...info }: Cohort): CohortInfo {
+  return info;
+}
+
+export async function getCohort(db: SqlExecutor, slug: string): Promise<Cohort | null> {
+  const q = sql<CohortDbRow>`SELECT ${COHORT_COLUMNS} FROM cohort c WHERE c.slug = ${slug}`;
+  const row = getRows<CohortDbRow>(await db.execute(q))[0];
+  return row ? toCohort(row) : null;
+}
+
+export async function listCohorts(db: SqlExecutor): Promise<Cohort[]> {
+  const q = sql<CohortDbRow>`SELECT ${COHORT_COLUMNS} FROM cohort c ORDER BY c.created_at DESC, c.id DESC`;
+  return getRows<CohortDbRow>(await db.execute(q)).map(toCohort);
+}
+
+/** Returns null if the slug is taken */
+export async function createCohort(db: SqlExecutor, input: CohortInput): Promise<Cohort | null> {
+  const roles = input.roles?.length ? input.roles : null;
+  const q = sql<{ id: string }>`
+    INSERT INTO cohort (slug, name, size, roles, queue_cutoff, verified_only)
+    VALUES (${input.slug}, ${input.name}, ${input.size},
+            ${roles ? sql`ARRAY[${sql.join(roles.map((r) => sql`${r}`), sql`, `)}]::text[]` : null},
+            ${input.queueCutoff ?? null}, ${input.verifiedOnly ?? true})
+    ON CONFLICT (slug) DO NOTHING
+    RETURNING id::text AS id
+  `;
+  if (!getRows(await db.execute(q)).length) return null;
+  return getCohort(db, input.slug);
+}
+
+/** Not-yet-admitted users matching the cohort's filters, in admission order */
+function eligibleUsers(cohortId: string) {
+  return sql`
+    SELECT u.id, u.email, u.role, u.queue_position
+      FROM user_account u, cohort c
+     WHERE c.id = ${cohortId}
+       AND u.admitted_at IS NULL
+       AND u.blocked_at IS NULL
+       AND (c.roles IS NULL OR u.role = ANY (c.roles))
+       AND (c.queue_cutoff IS NULL OR u.queue_position <= c.queue_cutoff)
+       AND (NOT c.verified_only OR u.email_verified)
+     ORDER BY u.queue_position ASC NULLS LAST, u.id ASC
+     LIMIT GREATEST(0, (SELECT c2.size - COUNT(a.id) FROM cohort c2
+                          LEFT JOIN user_account a ON a.cohort_id = c2.id
+                         WHERE c2.id = ${cohortId} GROUP BY c2.size))
+  `;
+}
+
+/** Who admitCohort would admit right now (read-only) */
+export async function previewCohort(db: SqlExecutor, cohort: Cohort): Promise<CohortCandidate[]> {
+  type Row = { id: string; email: string; role: string | null; queue_position: number | null };
+  const q = sql<Row>`SELECT id::text AS id, email, role, queue_position FROM (${eligibleUsers(cohort.id)}) e`;
+  return getRows<Row>(await db.execute(q)).map((r) => ({
+    userId: r.id,
+    email: r.email,
+    role: r.role,
+    queuePosition: r.queue_position,
+  }));
+}
+
+/** "QTR-XXXX-XXXX" from a 32-letter alphabet without 0/O/1/I (40 bits) */
+export function generateAccessCode(): string {
+  const alphabet = "23456789ABCDEFGHJKLMNPQRSTUVWXYZ";
+  const chars = [...randomBytes(8)].map((b) => alphabet[b & 31]).join("");
+  return `QTR-${chars.slice(0, 4)}-${chars.slice(4)}`;
+}
+
+/** Uppercase, strip spaces, restore dashes ("qtr 7k2m x9pd" → "QTR-7K2M-X9PD") */
+export function normalizeAccessCode(raw: string): string | null {
+  const s = raw.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  const m = /^(?:QTR)?([2-9A-HJ-NP-Z]{4})([2-9A-HJ-NP-Z]{4})$/.exec(s);
+  return m ? `QTR-${m[1]}-${m[2]}` : null;
+}
+
+function redeemUrl(code: string): string {
+  const url = process.env.DEVNET_ACCESS_URL ? new URL(process.env.DEVNET_ACCESS_URL) : appUrl("/devnet/");
+  url.searchParams.set("code", code);
+  return url.toString();
+}
+
+/**
+ * Fill the cohort's free seats, then make sure every member has a live code
+ * and a queued invite. Safe to re-run.
+ */
+export async function admitCohort(db: SqlExecutor, cohort: Cohort): Promise<AdmitSummary> {
+  // 1) seats: the cohort row lock serializes concurrent runs on one cohort
+  const admitQ = sql<{ admitted: number }>`
+    WITH lock AS (
+      SELECT id FROM cohort WHERE id = ${cohort.id} FOR UPDATE
+    ), pick AS (${eligibleUsers(cohort.id)}),
+    upd AS (
+      UPDATE user_account u SET admitted_at = now(), cohort_id = lock.id
+        FROM pick, lock
+       WHERE u.id = pick.id AND u.admitted_at IS NULL
+      RETURNING 1
+    ), mark AS (
+      UPDATE cohort SET admitted_at = now() WHERE id IN (SELECT id FROM lock)
+      RETURNING 1
+    )
+    SELECT (SELECT COUNT(*) FROM upd)::int AS admitted, (SELECT COUNT(*) FROM mark)::int AS marked
+  `;
+  const admitted = getRows<{ admitted: number }>(await db.execute(admitQ))[0]?.admitted ?? 0;
+
+  // 2) codes for members without one (partial unique index keeps it to one live
+  //    code); a revoked code stays revoked until reissueAccessCode replaces it
+  const needQ = sql<{ id: string }>`
+    SELECT u.id::text AS id FROM user_account u
+     WHERE u.cohort_id = ${cohort.id}
+       AND NOT EXISTS (
+         SELECT 1 FROM access_code a
+          WHERE a.user_id = u.id AND (a.revoked_at IS NULL OR a.cohort_id = ${cohort.id})
+       )
+  `;
+  const need = getRows<{ id: string }>(await db.execute(needQ));
+  let codes = 0;
+  if (need.length) {
+    const values = sql.join(
+      need.map((u) => sql`(${generateAccessCode()}, ${u.id}::bigint, ${cohort.id}::bigint)`),
+      sql`, `
+    );
+    const insQ = sql`
+      INSERT INTO access_code (code, user_id, cohort_id) VALUES ${values}
+      ON CONFLICT DO NOTHING
+      RETURNING 1
+    `;
+    codes = getRows(await db.execute(insQ)).length;
+  }
+
+  // 3) one invite per live code (outbox idempotency key)
+  const invites = await queueInvites(db, cohort);
+
+  return { admitted, codes, invites };
+}
+
+/** Queue the cohort-invite for every live, unredeemed code (or one member's); returns how many were new */
+async function queueInvites(db: SqlExecutor, cohort: Cohort, userId?: string): Promise<number> {
+  type InviteRow = { user_id: string; email: string; locale: string; code: string };
+  const inviteQ = sql<InviteRow>`
+    SELECT u.id::text AS user_id, u.email, u.locale, a.code
+      FROM access_code a
+      JOIN user_account u ON u.id = a.user_id
+     WHERE a.cohort_id = ${cohort.id} AND u.cohort_id = ${cohort.id}
+       AND a.revoked_at IS NULL AND a.redeemed_at IS NULL
+       ${userId ? sql`AND u.id = ${userId}` : sql``}
+  `;
+  let invites = 0;
+  for (const r of getRows<InviteRow>(await db.execute(inviteQ))) {
+    // keyed by code, so a reissued code gets its own invite (hashed: keys aren't secret)
+    const codeKey = createHash("sha256").update(r.code).digest("hex").slice(0, 16);
+    const id = await enqueueEmail(db, {
+      userId: r.user_id,
+      kind: "cohort-invite",
+      to: r.email,
+      locale: resolveLocale(r.locale),
+      payload: { cohort: cohort.name, code: r.code, redeemUrl: redeemUrl(r.code) },
+      idempotencyKey: `cohort-invite:${cohort.id}:${r.user_id}:${codeKey}`,
+    });
+    if (id) invites++;
+  }
+  return invites;
+}
+
+/** Revoke a member's live, unredeemed code; returns how many were revoked (0 or 1). */
+export async function revokeAccessCode(db: SqlExecutor, cohort: Cohort, userId: string): Promise<number> {
+  const q = sql`
+    UPDATE access_code SET revoked_at = now()
+     WHERE user_id = ${userId} AND cohort_id = ${cohort.id}
+       AND revoked_at IS NULL AND redeemed_at IS NULL
+    RETURNING 1
+  `;
+  return getRows(await db.execute(q)).length;
+}
+
+/**
+ * Revoke a member's unredeemed code (if any), issue a fresh one and queue its
+ * invite, in one statement. Members who already redeemed are left alone.
+ */
+export async function reissueAccessCode(db: SqlExecutor, cohort: Cohort, userId: string): Promise<ReissueResult> {
+  type Row = { member: boolean; redeemed: boolean; revoked: number; code: string | null };
+  const q = sql<Row>`
+    WITH member AS (
+      SELECT id FROM user_account WHERE id = ${userId} AND cohort_id = ${cohort.id}
+    ), used AS (
+      SELECT 1 FROM access_code
+       WHERE user_id = ${userId} AND cohort_id = ${cohort.id}
+         AND redeemed_at IS NOT NULL AND revoked_at IS NULL
+    ), old AS (
+      UPDATE access_code SET revoked_at = now()
+       WHERE user_id = ${userId} AND revoked_at IS NULL AND redeemed_at IS NULL
+         AND EXISTS (SELECT 1 FROM member) AND NOT EXISTS (SELECT 1 FROM used)
+      RETURNING 1
+    ), fresh AS (
+      INSERT INTO access_code (code, user_id, cohort_id)
+      SELECT ${generateAccessCode()}, id, ${cohort.id} FROM member
+       WHERE NOT EXISTS (SELECT 1 FROM used)
+      RETURNING code
+    )
+    SELECT EXISTS (SELECT 1 FROM member) AS member,
+           EXISTS (SELECT 1 FROM used) AS redeemed,
+           (SELECT COUNT(*) FROM old)::int AS revoked,
+           (SELECT code FROM fresh) AS code
+  `;
+  const row = getRows<Row>(await db.execute(q))[0];
+  if (!row?.member) return { ok: false, code: "NOT_MEMBER" };
+  if (row.redeemed || !row.code) return { ok: false, code: "REDEEMED" };
+  const invited = (await queueInvites(db, cohort, userId)) > 0;
+  return { ok: true, code: row.code, revoked: row.revoked, invited };
+}
+
+/** Use a code once. Revoked codes are INVALID, already-used ones USED. */
+export async function redeemAccessCode(db: SqlExecutor, code: string): Promise<RedeemResult> {
+  type Row = { user_id: string; cohort: string; redeemed_at: string | Date; fresh: boolean };
+  const q = sql<Row>`
+    WITH hit AS (
+      UPDATE access_code SET redeemed_at = now()
+       WHERE code = ${code} AND revoked_at IS NULL AND redeemed_at IS NULL
+      RETURNING code
+    )
+    SELECT a.user_id::text AS user_id, c.slug AS cohort,
+           COALESCE(a.redeemed_at, now()) AS redeemed_at,
+           EXISTS (SELECT 1 FROM hit) AS fresh
+      FROM access_code a
+      JOIN cohort c ON c.id = a.cohort_id
+     WHERE a.code = ${code} AND a.revoked_at IS NULL
+  `;
+  const row = getRows<Row>(await db.execute(q))[0];
+  if (!row) return { ok: false, code: "INVALID" };
+  if (!row.fresh) return { ok: false, code: "USED" };
+  return { ok: true, userId: row.user_id, cohort: row.cohort, redeemedAt: new Date(row.redeemed_at) };
+}
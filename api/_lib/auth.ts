@@ -0,0 +1,61 @@
+// api/_lib/auth.ts
+// Who is calling? Resolves the user behind an `Authorization: Bearer <token>`
+// dashboard token (issued on email verification, see api/verify-email.ts) or,
+// failing that, the magic-link session cookie (see session.ts). Accounts
+// blocked by an operator (api/admin/users.ts) are refused with ACCOUNT_BLOCKED;
+// waitlist re-submits and faucet claims check blocked_at themselves, since
+// they take anonymous requests.
+import type { VercelRequest } from "@vercel/node";
+import { sql } from "drizzle-orm";
+import type { SqlExecutor } from "../../db/types.js";
+import { isAllowedOrigin } from "./cors.js";
+import { bearerToken, getRows } from "./http.js";
+import { readSessionCookie } from "./session.js";
+import { authenticateToken, TokenError } from "./tokens.js";
+
+export type AuthResult =
+  | { ok: true; userId: string; via: "dashboard-token" | "session"; jti: string }
+  | { ok: false; code: string; message: string };
+
+/** Dashboard tokens are reusable bearer credentials; revoke via scripts/revoke-tokens.ts */
+export const DASHBOARD_TTL_S = 30 * 24 * 60 * 60;
+
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+/** Same-origin, or a credentialed CORS origin */
+function trustedOrigin(req: VercelRequest, origin: string): boolean {
+  try {
+    if (new URL(origin).host === req.headers.host) return true;
+  } catch {
+    return false;
+  }
+  return isAllowedOrigin(origin, true);
+}
+
+export async function authenticate(req: VercelRequest, db: SqlExecutor): Promise<AuthResult> {
+  const bearer = bearerToken(req);
+  const cookie = bearer ? undefined : readSessionCookie(req);
+  if (!bearer && !cookie) return { ok: false, code: "UNAUTHORIZED", message: "Sign in to see your dashboard" };
+
+  // Browsers attach cookies to cross-site requests too: writes must come from a listed origin
+  const origin = req.headers.origin as string | undefined;
+  if (cookie && !SAFE_METHODS.has(req.method ?? "GET") && origin && !trustedOrigin(req, origin)) {
+    return { ok: false, code: "FORBIDDEN_ORIGIN", message: "Cross-site request refused" };
+  }
+
+  let claims;
+  try {
+    claims = bearer
+      ? await authenticateToken(db, bearer, "dashboard")
+      : await authenticateToken(db, cookie!, "session");
+  } catch (e) {
+    if (e instanceof TokenError) return { ok: false, code: e.code, message: e.message };
+    throw e;
+  }
+
+  const blockedQ = sql<{ blocked: boolean }>`SELECT blocked_at IS NOT NULL AS blocked FROM user_account WHERE id = ${claims.sub}`;
+  if (getRows<{ blocked: boolean }>(await db.execute(blockedQ))[0]?.blocked) {
+    return { ok: false, code: "ACCOUNT_BLOCKED", message: "This account has been blocked" };
+  }
+  return { ok: true, userId: claims.sub, via: bearer ? "dashboard-token" : "session", jti: claims.jti };
+}
@@ -0,0 +1,24 @@
+// api/_lib/cache.ts
+// Small read-through cache on the optional Upstash client (api/_lib/ratelimit.ts).
+// Without Redis, or if Redis errors, the loader just runs every time.
+import { redis } from "./ratelimit.js";
+
+/** Return the cached value for `key`, or run `load` and keep its result for `ttlSeconds`. */
+export async function cached<T>(key: string, ttlSeconds: number, load: () => Promise<T>): Promise<T> {
+  if (!redis || ttlSeconds <= 0) return load();
+
+  try {
+    const hit = await redis.get<T>(`cache:${key}`);
+    if (hit !== null && hit !== undefined) return hit;
+  } catch (err) {
+    console.warn("[cache] read failed:", err);
+  }
+
+  const value = await load();
+  try {
+    await redis.set(`cache:${key}`, value, { ex: ttlSeconds });
+  } catch (err) {
+    console.warn("[cache] write failed:", err);
+  }
+  return value;
+}
@@ -0,0 +1,157 @@
+// api/_lib/consent.ts
+// Marketing email consent. Ticking the box at signup records when, where and
+// from which IP (hashed) consent was given; nothing is sent until the user
+// also clicks the double opt-in link. Unsubscribing (one click, from any
+// email's List-Unsubscribe header or footer link) wins over both. The outbox
+// enforces this for MARKETING_TEMPLATES at send time (outbox.ts).
+//
+// The signup form is unauthenticated, so ticking the box again after an
+// unsubscribe only records a new, unconfirmed consent; the unsubscribe stands
+// until the opt-in link (proof of inbox ownership) is clicked.
+import { createHash } from "node:crypto";
+import { sql } from "drizzle-orm";
+import type { SqlExecutor } from "../../db/types.js";
+import type { MarketingConsent } from "../../types/api.js";
+import { appUrl, getRows } from "./http.js";
+import { enqueueEmail } from "./outbox.js";
+import { resolveLocale } from "./templates/index.js";
+import { consumeToken, issueToken, revokeTokens } from "./tokens.js";
+
+export type ConsentSource = "waitlist" | "import";
+
+const CONFIRM_TTL_S = 7 * 24 * 60 * 60;
+/** At most one opt-in email a day, so the signup form can't be used to spam an inbox */
+const CONFIRM_RESEND_COOLDOWN_S = 24 * 60 * 60;
+
+/**
+ * Record consent. A user who already consented keeps their original record;
+ * one who had unsubscribed starts over (new record, needs confirming again,
+ * and stays unsubscribed until then). Returns whether the double opt-in is
+ * still outstanding.
+ */
+export async function recordConsent(
+  db: SqlExecutor,
+  userId: string,
+  input: { source: ConsentSource; ipHash: string | null }
+): Promise<{ needsConfirmation: boolean }> {
+  const q = sql<{ confirmed: boolean }>`
+    UPDATE user_account
+       SET marketing_consent_at = CASE WHEN fresh THEN now() ELSE marketing_consent_at END,
+           marketing_consent_source = CASE WHEN fresh THEN ${input.source} ELSE marketing_consent_source END,
+           marketing_consent_ip_hash = CASE WHEN fresh THEN ${input.ipHash} ELSE marketing_consent_ip_hash END,
+           marketing_confirmed_at = CASE WHEN fresh THEN NULL ELSE marketing_confirmed_at END
+      FROM (
+        SELECT marketing_consent_at IS NULL OR marketing_unsubscribed_at IS NOT NULL AS fresh
+          FROM user_account WHERE id = ${userId} FOR UPDATE
+      ) prev
+     WHERE id = ${userId}
+ RETURNING marketing_confirmed_at IS NOT NULL AS confirmed
+  `;
+  const row = getRows<{ confirmed: boolean }>(await db.execute(q))[0];
+  return { needsConfirmation: row ? !row.confirmed : false };
+}
+
+/**
+ * Queue the double opt-in email; a new one revokes the previous link. Returns
+ * the outbox id, or null (and keeps the old link) if one is still unsent or
+ * went out within the cooldown.
+ */
+export async function queueConsentConfirmEmail(
+  db: SqlExecutor,
+  user: { id: string; email: string; locale?: string | null }
+): Promise<string | null> {
+  const recentQ = sql<{ recent: boolean }>`
+    SELECT EXISTS (
+      SELECT 1 FROM email_outbox
+       WHERE user_id = ${user.id}
+         AND kind = 'marketing-confirm'
+         AND (status IN ('PENDING', 'SENDING')
+              OR created_at > now() - make_interval(secs => ${CONFIRM_RESEND_COOLDOWN_S}))
+    ) AS recent
+  `;
+  if (getRows<{ recent: boolean }>(await db.execute(recentQ))[0]?.recent) return null;
+
+  const { token } = await issueToken(db, {
+    userId: user.id,
+    email: user.email,
+    purpose: "marketing-confirm",
+    ttlSeconds: CONFIRM_TTL_S,
+    revokePrevious: true,
+  });
+  const link = appUrl("/api/consent/confirm");
+  link.searchParams.set("token", token);
+
+  const tokenHash = createHash("sha256").update(token).digest("hex").slice(0, 32);
+  return enqueueEmail(db, {
+    userId: user.id,
+    kind: "marketing-confirm",
+    to: user.email,
+    locale: resolveLocale(user.locale),
+    payload: { link: link.toString() },
+    idempotencyKey: `marketing-confirm:${user.id}:${tokenHash}`,
+  });
+}
+
+/**
+ * Consume the opt-in link (throws TokenError) and mark consent confirmed. A
+ * consent given after an unsubscribe lifts it here; NOT_FOUND if the account
+ * is gone or has unsubscribed since consenting.
+ */
+export async function confirmConsent(
+  db: SqlExecutor,
+  token: string
+): Promise<{ ok: true; userId: string } | { ok: false; code: "NOT_FOUND" }> {
+  const claims = await consumeToken(db, token, "marketing-confirm");
+  const q = sql<{ id: string }>`
+    UPDATE user_account
+       SET marketing_confirmed_at = COALESCE(marketing_confirmed_at, now()),
+           marketing_unsubscribed_at = NULL
+     WHERE id = ${claims.sub}
+       AND marketing_consent_at IS NOT NULL
+       AND (marketing_unsubscribed_at IS NULL OR marketing_unsubscribed_at < marketing_consent_at)
+ RETURNING id::text AS id
+  `;
+  const row = getRows<{ id: string }>(await db.execute(q))[0];
+  return row ? { ok: true, userId: row.id } : { ok: false, code: "NOT_FOUND" };
+}
+
+/**
+ * Stop marketing mail (idempotent; the first unsubscribe time is kept) and
+ * void any outstanding opt-in link. Returns false if there is no such user.
+ */
+export async function unsubscribe(db: SqlExecutor, userId: string): Promise<boolean> {
+  const q = sql<{ id: string }>`
+    UPDATE user_account
+       SET marketing_unsubscribed_at = COALESCE(marketing_unsubscribed_at, now())
+     WHERE id = ${userId}
+ RETURNING id::text AS id
+  `;
+  if (!getRows(await db.execute(q)).length) return false;
+  await revokeTokens(db, { userId, purpose: "marketing-confirm" });
+  return true;
+}
+
+type ConsentRow = {
+  consent_at: string | Date | null;
+  source: ConsentSource | null;
+  confirmed_at: string | Date | null;
+  unsubscribed_at: string | Date | null;
+};
+
+export async function getConsent(db: SqlExecutor, userId: string): Promise<MarketingConsent | null> {
+  const q = sql<ConsentRow>`
+    SELECT marketing_consent_at AS consent_at, marketing_consent_source AS source,
+           marketing_confirmed_at AS confirmed_at, marketing_unsubscribed_at AS unsubscribed_at
+      FROM user_account WHERE id = ${userId}
+  `;
+  const r = getRows<ConsentRow>(await db.execute(q))[0];
+  if (!r) return null;
+  const iso = (v: string | Date | null) => (v ? (new Date(v).toISOString() as MarketingConsent["consentedAt"]) : null);
+  return {
+    subscribed: Boolean(r.confirmed_at) && !r.unsubscribed_at,
+    consentedAt: iso(r.consent_at),
+    source: r.source,
+    confirmedAt: iso(r.confirmed_at),
+    unsubscribedAt: iso(r.unsubscribed_at),
+  };
+}
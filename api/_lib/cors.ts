@@ -8,8 +8,22 @@ const raw =
 
 export const ALLOWLIST = raw.split(',').map(s => s.trim()).filter(Boolean);
 
+/**
+ * Is this origin explicitly allowed? With `credentials`, a '*' entry doesn't
+ * count: cookies are only ever shared with origins listed by name.
+ */
+export function isAllowedOrigin(origin: string | undefined, credentials = false): boolean {
+  if (!origin) return false;
+  if (ALLOWLIST.includes(origin)) return true;
+  return !credentials && (!ALLOWLIST.length || ALLOWLIST.includes('*'));
+}
+
 /** Decide which origin to return */
-function resolveAllowOrigin(requestOrigin?: string): string | undefined {
+function resolveAllowOrigin(requestOrigin?: string, credentials = false): string | undefined {
+  if (credentials) {
+    if (isAllowedOrigin(requestOrigin, true)) return requestOrigin;
+    return ALLOWLIST.find((o) => o !== '*');
+  }
   if (!ALLOWLIST.length) return '*';
   if (ALLOWLIST.includes('*')) return requestOrigin || '*';
   if (requestOrigin && ALLOWLIST.includes(requestOrigin)) return requestOrigin;
@@ -22,6 +36,10 @@ type CorsOpts = {
   credentials?: boolean;
   /** Seconds to cache the preflight response */
   maxAgeSeconds?: number;
+  /** Methods to advertise (default GET,POST,OPTIONS) */
+  methods?: string[];
+  /** Request headers to advertise (default Content-Type,Authorization) */
+  allowHeaders?: string[];
 };
 
 /** Mutates headers with CORS fields */
@@ -30,13 +48,18 @@ export function withCorsHeaders(
   origin?: string,
   opts: CorsOpts = {}
 ) {
-  const { credentials = false, maxAgeSeconds = 600 } = opts;
+  const {
+    credentials = false,
+    maxAgeSeconds = 600,
+    methods = ['GET', 'POST', 'OPTIONS'],
+    allowHeaders = ['Content-Type', 'Authorization'],
+  } = opts;
 
-  const allowOrigin = resolveAllowOrigin(origin);
+  const allowOrigin = resolveAllowOrigin(origin, credentials);
 
   headers.set('Vary', 'Origin');
-  headers.set('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
-  headers.set('Access-Control-Allow-Headers', 'Content-Type,Authorization');
+  headers.set('Access-Control-Allow-Methods', methods.join(','));
+  headers.set('Access-Control-Allow-Headers', allowHeaders.join(','));
   headers.set('Access-Control-Max-Age', String(maxAgeSeconds));
 
   if (credentials) {
@@ -57,3 +80,14 @@ export function preflight(origin?: string, opts?: CorsOpts) {
   withCorsHeaders(h, origin, opts);
   return new Response(null, { status: 204, headers: h });
 }
+
+/** Node-style (VercelResponse / ServerResponse) variant of withCorsHeaders */
+export function setCorsHeaders(
+  res: { setHeader(name: string, value: string): unknown },
+  origin?: string,
+  opts?: CorsOpts
+) {
+  const h = new Headers();
+  withCorsHeaders(h, origin, opts);
+  h.forEach((value, name) => res.setHeader(name, value));
+}
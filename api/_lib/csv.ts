@@ -0,0 +1,66 @@
+// api/_lib/csv.ts
+// RFC 4180 CSV for the admin export / import (user-export.ts, user-import.ts).
+// Output is meant for spreadsheets, so cells that would start a formula
+// (= + - @, tab, CR) are prefixed with a quote mark; parseCsv drops that mark
+// again, so an export imports back unchanged.
+
+const FORMULA_START = /^[=+\-@\t\r]/;
+const GUARDED = /^'[=+\-@\t\r]/;
+
+export function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  let s = value instanceof Date ? value.toISOString() : String(value);
+  if (FORMULA_START.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function csvLine(values: readonly unknown[]): string {
+  return values.map(csvCell).join(",") + "\r\n";
+}
+
+/**
+ * Parse CSV with a header row into one object per record, keyed by the
+ * (trimmed) header. Quoted fields may contain commas, quotes and newlines,
+ * and csvCell's formula guard is removed ("'=x" → "=x"). Throws on an
+ * unterminated quote.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0; // Excel's BOM
+
+  for (; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c !== '"') field += c;
+      else if (text[i + 1] === '"') field += text[++i];
+      else quoted = false;
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      record.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (quoted) throw new Error("Unterminated quoted field");
+  if (field || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header, ...rows] = records.filter((r) => r.some((v) => v.trim()));
+  if (!header) return [];
+  const keys = header.map((h) => h.trim());
+  const cell = (v = "") => (GUARDED.test(v) ? v.slice(1) : v);
+  return rows.map((r) => Object.fromEntries(keys.map((k, j) => [k, cell(r[j])])));
+}
@@ -0,0 +1,171 @@
+// api/_lib/email-address.ts
+// Email address normalization and signup policy.
+//
+//   normalizeEmail  trim, lowercase, IDN domain → punycode; null if unusable
+//   canonicalEmail  the inbox an address delivers to, using per-provider rules
+//                   ("J.Doe+promo@GoogleMail.com" → "jdoe@gmail.com"); stored
+//                   in user_account.email_canonical (unique) so aliases of one
+//                   inbox map to one account
+//   emailPolicy     rejects disposable providers and role addresses unless the
+//                   domain/address is in EMAIL_ALLOWLIST
+import { domainToASCII } from "node:url";
+import type { EmailRejectionCode } from "../../types/api.js";
+
+/** Well-known throwaway inbox providers (subdomains match too) */
+const DISPOSABLE_DOMAINS = new Set([
+  "10minutemail.com",
+  "20minutemail.com",
+  "33mail.com",
+  "anonaddy.me",
+  "burnermail.io",
+  "discard.email",
+  "dispostable.com",
+  "dropmail.me",
+  "emailondeck.com",
+  "fakeinbox.com",
+  "getairmail.com",
+  "getnada.com",
+  "guerrillamail.biz",
+  "guerrillamail.com",
+  "guerrillamail.de",
+  "guerrillamail.net",
+  "guerrillamail.org",
+  "inboxkitten.com",
+  "mail.tm",
+  "maildrop.cc",
+  "mailinator.com",
+  "mailnesia.com",
+  "mailpoof.com",
+  "mintemail.com",
+  "mohmal.com",
+  "moakt.com",
+  "mytemp.email",
+  "sharklasers.com",
+  "spamgourmet.com",
+  "temp-mail.io",
+  "temp-mail.org",
+  "tempail.com",
+  "tempmail.dev",
+  "tempmailo.com",
+  "tempr.email",
+  "throwawaymail.com",
+  "trashmail.com",
+  "trashmail.de",
+  "yopmail.com",
+  "yopmail.fr",
+]);
+
+/** Shared/role mailboxes: not a person, so not a waitlist member */
+const ROLE_LOCAL_PARTS = new Set([
+  "abuse",
+  "admin",
+  "administrator",
+  "billing",
+  "contact",
+  "help",
+  "hostmaster",
+  "info",
+  "mailer-daemon",
+  "marketing",
+  "no-reply",
+  "noc",
+  "noreply",
+  "office",
+  "postmaster",
+  "root",
+  "sales",
+  "security",
+  "support",
+  "team",
+  "webmaster",
+]);
+
+type ProviderRule = { domain?: string; dropDots?: boolean; tagSeparator?: "+" | "-" };
+
+/** Per-provider aliasing rules; unknown domains keep the local part as-is */
+const PROVIDERS: Record<string, ProviderRule> = {
+  "gmail.com": { dropDots: true, tagSeparator: "+" },
+  "googlemail.com": { domain: "gmail.com", dropDots: true, tagSeparator: "+" },
+  "outlook.com": { tagSeparator: "+" },
+  "hotmail.com": { tagSeparator: "+" },
+  "live.com": { tagSeparator: "+" },
+  "msn.com": { tagSeparator: "+" },
+  "icloud.com": { tagSeparator: "+" },
+  "me.com": { tagSeparator: "+" },
+  "mac.com": { tagSeparator: "+" },
+  "fastmail.com": { tagSeparator: "+" },
+  "fastmail.fm": { tagSeparator: "+" },
+  "proton.me": { tagSeparator: "+" },
+  "protonmail.com": { tagSeparator: "+" },
+  "pm.me": { tagSeparator: "+" },
+  "yahoo.com": { tagSeparator: "-" },
+  "ymail.com": { tagSeparator: "-" },
+};
+
+const LOCAL_PART = /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/;
+const ASCII_DOMAIN = /^([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z0-9-]{2,63}$/;
+
+export type NormalizedEmail = { address: string; local: string; domain: string };
+
+export function emailDomain(email: string): string {
+  return email.slice(email.lastIndexOf("@") + 1).trim().toLowerCase();
+}
+
+/**
+ * Trim and lowercase; IDN domains become punycode ("josé@bücher.de" is
+ * rejected for its non-ASCII local part, "jo@bücher.de" → "jo@xn--bcher-kva.de").
+ */
+export function normalizeEmail(raw: string): NormalizedEmail | null {
+  const trimmed = raw.trim();
+  const at = trimmed.lastIndexOf("@");
+  if (at < 1 || trimmed.length > 254) return null;
+
+  const local = trimmed.slice(0, at).toLowerCase();
+  const domain = domainToASCII(trimmed.slice(at + 1).toLowerCase().replace(/\.$/, ""));
+  if (local.length > 64 || !LOCAL_PART.test(local) || !domain || !ASCII_DOMAIN.test(domain)) return null;
+
+  return { address: `${local}@${domain}`, local, domain };
+}
+
+/** Canonical inbox for an address (normalized first; falls back to lowercase) */
+export function canonicalEmail(email: string | NormalizedEmail): string {
+  const n = typeof email === "string" ? normalizeEmail(email) : email;
+  if (!n) return email.toString().trim().toLowerCase();
+
+  const rule = PROVIDERS[n.domain] ?? {};
+  let local = n.local;
+  if (rule.tagSeparator) local = local.split(rule.tagSeparator)[0] || local;
+  if (rule.dropDots) local = local.replace(/\./g, "");
+  return `${local}@${rule.domain ?? n.domain}`;
+}
+
+export function isDisposableDomain(domain: string): boolean {
+  const parts = domain.toLowerCase().split(".");
+  for (let i = 0; i < parts.length - 1; i++) {
+    if (DISPOSABLE_DOMAINS.has(parts.slice(i).join("."))) return true;
+  }
+  return false;
+}
+
+/** EMAIL_ALLOWLIST: comma-separated domains and/or full addresses */
+function isAllowlisted(n: NormalizedEmail): boolean {
+  const list = (process.env.EMAIL_ALLOWLIST ?? "")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+  return list.includes(n.domain) || list.includes(n.address);
+}
+
+/** Why this address can't sign up, or null if it can */
+export function emailPolicy(n: NormalizedEmail): EmailRejectionCode | null {
+  if (isAllowlisted(n)) return null;
+  if (isDisposableDomain(n.domain)) return "EMAIL_DISPOSABLE";
+  if (ROLE_LOCAL_PARTS.has(n.local.split("+")[0])) return "EMAIL_ROLE_ADDRESS";
+  return null;
+}
+
+export const EMAIL_REJECTION_MESSAGES: Record<EmailRejectionCode, string> = {
+  EMAIL_INVALID: "Please enter a valid email address.",
+  EMAIL_DISPOSABLE: "Disposable email addresses can't join the waitlist. Please use your own inbox.",
+  EMAIL_ROLE_ADDRESS: "Shared addresses like info@ or admin@ can't join the waitlist. Please use a personal address.",
+};
@@ -1,4 +1,57 @@
 // api/_lib/email.ts
+import { getTransport, type EmailMessage, type SendResult } from "./email-transport.js";
+import { renderEmail, type Locale } from "./templates/index.js";
+import { signJwt, verifyJwt } from "./keyring.js";
+import { appUrl } from "./http.js";
+
+export type { EmailMessage, SendResult } from "./email-transport.js";
+
+// Unsubscribe links are stateless (no auth_token row per email) and long-lived,
+// since people unsubscribe from old mail. They only ever opt the user out.
+const UNSUBSCRIBE_JWT = { issuer: "quantara", audience: "unsubscribe" } as const;
+const UNSUBSCRIBE_TTL_S = 365 * 24 * 60 * 60;
+
+/** Signed one-click unsubscribe URL for a user (see api/consent/unsubscribe.ts) */
+export async function unsubscribeUrl(userId: string): Promise<string> {
+  const token = await signJwt({ typ: "unsubscribe" }, {
+    ...UNSUBSCRIBE_JWT,
+    subject: userId,
+    expiresInSeconds: UNSUBSCRIBE_TTL_S,
+  });
+  const url = appUrl("/api/consent/unsubscribe");
+  url.searchParams.set("token", token);
+  return url.toString();
+}
+
+/** User id from an unsubscribe token, or null if it doesn't verify */
+export async function verifyUnsubscribeToken(token: string): Promise<string | null> {
+  try {
+    const payload = await verifyJwt(token, UNSUBSCRIBE_JWT);
+    return payload.typ === "unsubscribe" && payload.sub ? String(payload.sub) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Send through the configured transport (see email-transport.ts). With
+ * `unsubscribeUrl`, adds RFC 8058 one-click List-Unsubscribe headers.
+ */
+export async function sendEmail(
+  msg: Omit<EmailMessage, "from"> & { from?: string; unsubscribeUrl?: string }
+): Promise<SendResult> {
+  const { unsubscribeUrl: unsubscribe, ...rest } = msg;
+  const from = rest.from || process.env.EMAIL_FROM || "Quantara <no-reply@yourdomain.tld>";
+  const headers = unsubscribe
+    ? {
+        ...rest.headers,
+        "List-Unsubscribe": `<${unsubscribe}>`,
+        "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+      }
+    : rest.headers;
+  return getTransport().send({ ...rest, from, headers });
+}
+
 export async function sendVerifyEmail(
   to: string,
   link: string,
@@ -6,16 +59,9 @@ export async function sendVerifyEmail(
     name?: string;          // recipient display name
     replyTo?: string;       // optional reply-to address
     idempotencyKey?: string // set to dedupe retries (optional)
+    locale?: Locale;        // template language (default "en")
   }
 ) {
-  const key = process.env.RESEND_API_KEY;
-  const from = process.env.EMAIL_FROM || "Quantara <no-reply@yourdomain.tld>";
-
-  if (!key) {
-    console.warn("[email] RESEND_API_KEY missing; skipping send");
-    return;
-  }
-
   // normalize recipient
   const rcpt = opts?.name ? `${opts.name} <${to}>` : to;
 
@@ -29,73 +75,26 @@ export async function sendVerifyEmail(
     // if invalid, keep original; Resend will reject if it's truly broken
   }
 
-  // very light HTML escaping for the link text
-  const esc = (s: string) =>
-    s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/"/g, "&quot;");
-
-  const subject = "Confirm your Quantara waitlist";
-  const text = `You're almost in!
-
-Tap the link below to confirm your email and lock in your spot:
-
-${url}
-
-If you didn’t request this, you can ignore this message.`;
-  const html = `
-  <div style="font-family:system-ui,-apple-system,Segoe UI,Roboto,Helvetica,Arial,sans-serif;max-width:560px;line-height:1.5;color:#0b0c0c">
-    <h2 style="margin:0 0 12px 0;font-weight:700;">Confirm your Quantara waitlist</h2>
-    <p style="margin:0 0 16px 0;">You're almost in! Click the button below to confirm your email and lock in your spot.</p>
-    <p style="margin:20px 0;">
-      <a href="${esc(url)}"
-         style="display:inline-block;background:#111827;color:#f9fafb;text-decoration:none;padding:10px 16px;border-radius:8px;font-weight:600"
-         target="_blank" rel="noopener">Confirm email</a>
-    </p>
-    <p style="margin:16px 0 0 0;font-size:14px;color:#4b5563;">Or paste this link into your browser:</p>
-    <p style="margin:4px 0 0 0;font-size:13px;"><a href="${esc(url)}" target="_blank" rel="noopener">${esc(url)}</a></p>
-    <hr style="border:none;border-top:1px solid #e5e7eb;margin:20px 0" />
-    <p style="font-size:12px;color:#6b7280;margin:0;">If you didn’t request this, you can safely ignore this email.</p>
-  </div>
-  `;
+  const { subject, text, html } = renderEmail("verify-email", opts?.locale, { link: url });
 
   // Basic tags for analytics in Resend; optional
   const tags = [{ name: "purpose", value: "verify-email" }];
 
-  const headers: Record<string, string> = {
-    Authorization: `Bearer ${key}`,
-    "Content-Type": "application/json",
-  };
-
-  // Idempotency header helps avoid duplicate sends on retries
+  // Idempotency key helps avoid duplicate sends on retries
   const idem =
     opts?.idempotencyKey ||
     // stable-ish hash from recipient+url (low-stakes)
     (await cryptoDigest(`verify:${rcpt}|${url}`));
-  if (idem) headers["Idempotency-Key"] = idem;
 
-  // Optional: Reply-To
-  const payload: any = {
-    from,
+  return sendEmail({
     to: rcpt,
     subject,
     text,
     html,
     tags,
-  };
-  if (opts?.replyTo) payload.reply_to = opts.replyTo;
-
-  const res = await fetch("https://api.resend.com/emails", {
-    method: "POST",
-    headers,
-    body: JSON.stringify(payload),
+    replyTo: opts?.replyTo,
+    idempotencyKey: idem,
   });
-
-  // Resend returns { id: "email_..." } on success
-  if (!res.ok) {
-    const body = await safeBody(res);
-    throw new Error(`[email_send_failed] ${res.status} ${res.statusText} :: ${body}`);
-  }
-
-  return (await res.json()) as { id: string };
 }
 
 // ---- helpers ----
@@ -111,12 +110,3 @@ async function cryptoDigest(s: string) {
     return `stamp_${Date.now()}`;
   }
 }
-
-async function safeBody(res: Response) {
-  try {
-    const t = await res.text();
-    return t.slice(0, 500);
-  } catch {
-    return "<no-body>";
-  }
-}
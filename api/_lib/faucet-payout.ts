@@ -0,0 +1,169 @@
+// api/_lib/faucet-payout.ts
+// Drains PENDING faucet_claim rows: lease a batch, submit the transfers as one
+// JSON-RPC batch, then record tx_hash (SENT) or a reason (REJECTED).
+//
+// Double-spend safety: the lease is a single UPDATE … FOR UPDATE SKIP LOCKED,
+// so concurrent workers never receive the same row, and a PROCESSING row is
+// never put back to PENDING unless the RPC request provably never left. A
+// claim is only REJECTED (which frees the address's daily cap) when the node
+// answered its call with an error; a missing or unreadable reply leaves it
+// PROCESSING and unconfirmed, since the transfer may have gone out.
+import { randomUUID } from "node:crypto";
+import { sql } from "drizzle-orm";
+import type { SqlExecutor } from "../../db/types.js";
+import { getRows } from "./http.js";
+import { qtrToPlanck } from "./faucet.js";
+import { decodeSs58, QUANTARA_SS58_PREFIX } from "./ss58.js";
+import { rpcBatch, rpcHttpUrl, RpcTransportError } from "./rpc.js";
+
+export type PayoutOptions = {
+  workerId?: string;
+  batchSize?: number;       // default FAUCET_PAYOUT_BATCH or 20
+  rpcUrl?: string;          // default FAUCET_RPC_URL / RPC_WS
+  rpcMethod?: string;       // default FAUCET_RPC_METHOD or "faucet_transfer"
+};
+
+export type PayoutSummary = {
+  workerId: string;
+  leased: number;
+  sent: number;
+  rejected: number;
+  requeued: number;
+  unconfirmed: number;
+};
+
+type LeasedClaim = { id: string; ss58_address: string; amount_qtr: string };
+
+const TX_HASH_RE = /^0x[0-9a-fA-F]{64}$/;
+
+function txHashOf(result: unknown): string | null {
+  const h = typeof result === "string" ? result : (result as any)?.hash;
+  return typeof h === "string" && TX_HASH_RE.test(h) ? h.toLowerCase() : null;
+}
+
+async function lease(db: SqlExecutor, workerId: string, batchSize: number) {
+  const q = sql<LeasedClaim>`
+    UPDATE faucet_claim
+       SET status = 'PROCESSING', claimed_by = ${workerId}, claimed_at = now()
+     WHERE id IN (
+       SELECT id FROM faucet_claim
+        WHERE status = 'PENDING'
+        ORDER BY id
+        LIMIT ${batchSize}
+        FOR UPDATE SKIP LOCKED
+     )
+ RETURNING id::text AS id, ss58_address, amount_qtr
+  `;
+  return getRows<LeasedClaim>(await db.execute(q));
+}
+
+async function markSent(db: SqlExecutor, id: string, workerId: string, txHash: string) {
+  await db.execute(sql`
+    UPDATE faucet_claim
+       SET status = 'SENT', tx_hash = ${txHash}, reason = NULL, processed_at = now()
+     WHERE id = ${id} AND status = 'PROCESSING' AND claimed_by = ${workerId}
+  `);
+}
+
+async function markRejected(db: SqlExecutor, id: string, workerId: string, reason: string) {
+  await db.execute(sql`
+    UPDATE faucet_claim
+       SET status = 'REJECTED', reason = ${reason.slice(0, 500)}, processed_at = now()
+     WHERE id = ${id} AND status = 'PROCESSING' AND claimed_by = ${workerId}
+  `);
+}
+
+/** Put rows back in the queue — only when the RPC never received them */
+async function requeue(db: SqlExecutor, ids: string[], workerId: string) {
+  if (!ids.length) return;
+  await db.execute(sql`
+    UPDATE faucet_claim
+       SET status = 'PENDING', claimed_by = NULL, claimed_at = NULL
+     WHERE id IN ${ids} AND status = 'PROCESSING' AND claimed_by = ${workerId}
+  `);
+}
+
+/** Leave rows PROCESSING with a note; an operator reconciles them against the chain */
+async function markUnconfirmed(db: SqlExecutor, ids: string[], workerId: string, reason: string) {
+  if (!ids.length) return;
+  await db.execute(sql`
+    UPDATE faucet_claim
+       SET reason = ${`unconfirmed: ${reason}`.slice(0, 500)}
+     WHERE id IN ${ids} AND status = 'PROCESSING' AND claimed_by = ${workerId}
+  `);
+}
+
+/** Run one payout pass. Safe to call from several workers at once. */
+export async function runFaucetPayout(db: SqlExecutor, opts: PayoutOptions = {}): Promise<PayoutSummary> {
+  const workerId = opts.workerId || `payout-${randomUUID().slice(0, 8)}`;
+  const batchSize = Math.max(1, Math.min(200, opts.batchSize ?? (Number(process.env.FAUCET_PAYOUT_BATCH) || 20)));
+  const rpcUrl = rpcHttpUrl(opts.rpcUrl);
+  const rpcMethod = opts.rpcMethod || process.env.FAUCET_RPC_METHOD || "faucet_transfer";
+
+  const summary: PayoutSummary = { workerId, leased: 0, sent: 0, rejected: 0, requeued: 0, unconfirmed: 0 };
+  if (!rpcUrl) {
+    console.warn("[faucet-payout] FAUCET_RPC_URL / RPC_WS not configured; nothing to do");
+    return summary;
+  }
+
+  const claims = await lease(db, workerId, batchSize);
+  summary.leased = claims.length;
+  if (!claims.length) return summary;
+
+  // Re-validate before paying; bad rows are rejected without touching the chain
+  const payable: LeasedClaim[] = [];
+  for (const c of claims) {
+    if (decodeSs58(c.ss58_address)?.prefix !== QUANTARA_SS58_PREFIX) {
+      await markRejected(db, c.id, workerId, "invalid-address");
+      summary.rejected++;
+      continue;
+    }
+    payable.push(c);
+  }
+  if (!payable.length) return summary;
+
+  const calls = payable.map((c) => ({
+    method: rpcMethod,
+    params: { dest: c.ss58_address, amount: qtrToPlanck(c.amount_qtr).toString(), ref: `faucet-claim:${c.id}` },
+  }));
+
+  let outcomes;
+  try {
+    outcomes = await rpcBatch(rpcUrl, calls);
+  } catch (err) {
+    const ids = payable.map((c) => c.id);
+    if (err instanceof RpcTransportError && !err.delivered) {
+      await requeue(db, ids, workerId);
+      summary.requeued += ids.length;
+    } else {
+      await markUnconfirmed(db, ids, workerId, String((err as Error)?.message || err));
+      summary.unconfirmed += ids.length;
+    }
+    console.error(`[faucet-payout] ${workerId} batch failed:`, err);
+    return summary;
+  }
+
+  for (let i = 0; i < payable.length; i++) {
+    const claim = payable[i];
+    const out = outcomes[i];
+    if (out.ok) {
+      const txHash = txHashOf(out.result);
+      if (txHash) {
+        await markSent(db, claim.id, workerId, txHash);
+        summary.sent++;
+      } else {
+        // The node accepted the call but gave us nothing we can verify
+        await markUnconfirmed(db, [claim.id], workerId, `unexpected result ${JSON.stringify(out.result)}`);
+        summary.unconfirmed++;
+      }
+    } else if (out.error) {
+      await markRejected(db, claim.id, workerId, `rpc ${out.error.code}: ${out.error.message}`);
+      summary.rejected++;
+    } else {
+      await markUnconfirmed(db, [claim.id], workerId, out.reason);
+      summary.unconfirmed++;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,35 @@
+// api/_lib/faucet.ts
+// Faucet amount helpers. QTR has 12 decimals; amounts travel as decimal
+// strings ("100.000000000000") so nothing is ever rounded through a float.
+
+export const QTR_DECIMALS = 12;
+
+const AMOUNT_RE = /^(\d+)(?:\.(\d+))?$/;
+
+/** Normalize a decimal QTR amount to exactly 12 fractional digits. */
+export function formatQtr(amount: string): string {
+  const m = AMOUNT_RE.exec(amount.trim());
+  if (!m) throw new Error(`[faucet] invalid QTR amount: ${amount}`);
+  const [, whole, frac = ""] = m;
+  if (frac.length > QTR_DECIMALS) {
+    throw new Error(`[faucet] QTR amount has more than ${QTR_DECIMALS} decimals: ${amount}`);
+  }
+  return `${BigInt(whole)}.${frac.padEnd(QTR_DECIMALS, "0")}`;
+}
+
+/** Convert a decimal QTR amount to its integer base unit (planck). */
+export function qtrToPlanck(amount: string): bigint {
+  const [whole, frac] = formatQtr(amount).split(".");
+  return BigInt(whole) * 10n ** BigInt(QTR_DECIMALS) + BigInt(frac);
+}
+
+/** Amount paid per claim (FAUCET_AMOUNT_QTR, default 100 QTR) */
+export function faucetAmount(): string {
+  return formatQtr(process.env.FAUCET_AMOUNT_QTR || "100");
+}
+
+/** Max claims per address / per IP hash in a rolling 24h (DB-enforced) */
+export function faucetDailyLimit(): number {
+  const n = Number(process.env.FAUCET_CLAIMS_PER_DAY ?? 1);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : 1;
+}
@@ -0,0 +1,289 @@
+// api/_lib/fraud.ts
+// Referral fraud checks. Each referrer's SIGNUP events are scored against a
+// few rules; hits are stored in referral_flag and the event (plus the matching
+// VERIFIED event) is marked review = FLAGGED, which takes it off the
+// leaderboard. An admin can then CLEAR (scores again, never re-flagged) or
+// CONFIRM it (stays excluded). See api/admin/referral-flags.ts.
+//
+// Rules (thresholds via env):
+//   SHARED_IP          more than FRAUD_MAX_SIGNUPS_PER_IP (3) referees from one IP hash
+//   DISPOSABLE_DOMAIN  referee uses a throwaway inbox provider
+//   ALIAS_INBOX        referee's canonical inbox matches the referrer's or an earlier referee's
+//   BURST              FRAUD_BURST_SIGNUPS (5) or more signups within FRAUD_BURST_MINUTES (10)
+//   LOW_VERIFY_RATIO   ≥ 10 signups older than 48h, under FRAUD_MIN_VERIFY_RATIO (0.2) verified
+import { sql } from "drizzle-orm";
+import type { SqlExecutor } from "../../db/types.js";
+import type {
+  AdminFlaggedReferral,
+  ISODateString,
+  ReferralFlagReason,
+  ReferralReview,
+} from "../../types/api.js";
+import { canonicalEmail, emailDomain, isDisposableDomain } from "./email-address.js";
+import { getRows } from "./http.js";
+
+export type FlagHit = { eventId: string; reason: ReferralFlagReason; detail: Record<string, unknown> };
+
+const RULES = {
+  maxPerIp: Number(process.env.FRAUD_MAX_SIGNUPS_PER_IP ?? 3),
+  burstSignups: Number(process.env.FRAUD_BURST_SIGNUPS ?? 5),
+  burstMinutes: Number(process.env.FRAUD_BURST_MINUTES ?? 10),
+  minVerifyRatio: Number(process.env.FRAUD_MIN_VERIFY_RATIO ?? 0.2),
+  ratioMinSignups: 10,
+  ratioGraceHours: 48,
+};
+
+type SignupRow = {
+  id: string;
+  ip_hash: string | null;
+  created_at: string | Date;
+  review: ReferralReview | null;
+  email: string;
+  email_verified: boolean;
+};
+
+/** Rule hits for one referrer's signups (pure; exported for scripts) */
+export function evaluateSignups(referrerEmail: string, signups: SignupRow[], now = Date.now()): FlagHit[] {
+  const hits: FlagHit[] = [];
+  const at = (s: SignupRow) => new Date(s.created_at).getTime();
+
+  const byIp = new Map<string, SignupRow[]>();
+  for (const s of signups) {
+    if (s.ip_hash) byIp.set(s.ip_hash, [...(byIp.get(s.ip_hash) ?? []), s]);
+  }
+  for (const group of byIp.values()) {
+    if (group.length <= RULES.maxPerIp) continue;
+    for (const s of group) hits.push({ eventId: s.id, reason: "SHARED_IP", detail: { signupsFromIp: group.length } });
+  }
+
+  const seen = new Map<string, string>([[canonicalEmail(referrerEmail), "referrer"]]);
+  for (const s of signups) {
+    const domain = emailDomain(s.email);
+    if (isDisposableDomain(domain)) hits.push({ eventId: s.id, reason: "DISPOSABLE_DOMAIN", detail: { domain } });
+
+    const inbox = canonicalEmail(s.email);
+    const first = seen.get(inbox);
+    if (first) hits.push({ eventId: s.id, reason: "ALIAS_INBOX", detail: { sameInboxAs: first } });
+    else seen.set(inbox, s.id);
+  }
+
+  // signups are sorted by time: slide a window and flag every event inside a dense one
+  const windowMs = RULES.burstMinutes * 60_000;
+  const inBurst = new Set<string>();
+  for (let lo = 0, hi = 0; hi < signups.length; hi++) {
+    while (at(signups[hi]) - at(signups[lo]) > windowMs) lo++;
+    if (hi - lo + 1 >= RULES.burstSignups) {
+      for (let i = lo; i <= hi; i++) inBurst.add(signups[i].id);
+    }
+  }
+  for (const id of inBurst) {
+    hits.push({ eventId: id, reason: "BURST", detail: { signups: RULES.burstSignups, minutes: RULES.burstMinutes } });
+  }
+
+  const settled = signups.filter((s) => now - at(s) > RULES.ratioGraceHours * 3_600_000);
+  const verified = settled.filter((s) => s.email_verified).length;
+  if (settled.length >= RULES.ratioMinSignups && verified / settled.length < RULES.minVerifyRatio) {
+    for (const s of settled) {
+      if (s.email_verified) continue;
+      hits.push({ eventId: s.id, reason: "LOW_VERIFY_RATIO", detail: { verified, signups: settled.length } });
+    }
+  }
+
+  return hits;
+}
+
+/** Referrers per rules query in a sweep, and the most one sweep will look at */
+const SWEEP_BATCH = 200;
+const SWEEP_MAX_REFERRERS = Number(process.env.FRAUD_SWEEP_MAX_REFERRERS ?? 2000);
+/** referral_flag rows per insert (3 parameters each) */
+const FLAG_BATCH = 1000;
+
+/**
+ * Re-run the rules for a set of referrers (one query for all their signups),
+ * record new hits and stamp user_account.fraud_assessed_at. Events an admin
+ * already decided on (CLEARED / CONFIRMED) are left alone. Returns how many
+ * events went from clean to FLAGGED.
+ */
+async function assessReferrers(db: SqlExecutor, referrerIds: string[]): Promise<number> {
+  if (!referrerIds.length) return 0;
+  type Row = SignupRow & { referrer_id: string; referrer_email: string };
+  const q = sql<Row>`
+    SELECT e.referrer_id::text AS referrer_id, e.id::text AS id, e.ip_hash, e.created_at, e.review,
+           u.email, u.email_verified, r.email AS referrer_email
+      FROM referral_event e
+      JOIN user_account u ON u.id = e.referee_id
+      JOIN user_account r ON r.id = e.referrer_id
+     WHERE e.referrer_id IN ${referrerIds}
+       AND e.kind = 'SIGNUP'
+     ORDER BY e.referrer_id, e.created_at, e.id
+  `;
+  const byReferrer = new Map<string, Row[]>();
+  for (const row of getRows<Row>(await db.execute(q))) {
+    const rows = byReferrer.get(row.referrer_id);
+    if (rows) rows.push(row);
+    else byReferrer.set(row.referrer_id, [row]);
+  }
+
+  const hits: FlagHit[] = [];
+  for (const rows of byReferrer.values()) {
+    const open = new Set(rows.filter((r) => r.review === null || r.review === "FLAGGED").map((r) => r.id));
+    hits.push(...evaluateSignups(rows[0].referrer_email, rows).filter((h) => open.has(h.eventId)));
+  }
+
+  let flagged = 0;
+  for (let i = 0; i < hits.length; i += FLAG_BATCH) flagged += await recordHits(db, hits.slice(i, i + FLAG_BATCH));
+  await db.execute(sql`UPDATE user_account SET fraud_assessed_at = now() WHERE id IN ${referrerIds}`);
+  return flagged;
+}
+
+async function recordHits(db: SqlExecutor, hits: FlagHit[]): Promise<number> {
+  const values = sql.join(
+    hits.map((h) => sql`(${h.eventId}::bigint, ${h.reason}, ${JSON.stringify(h.detail)}::jsonb)`),
+    sql`, `
+  );
+  const flagQ = sql<{ flagged: number }>`
+    WITH hits (event_id, reason, detail) AS (VALUES ${values}),
+    ins AS (
+      INSERT INTO referral_flag (event_id, reason, detail)
+      SELECT event_id, reason, detail FROM hits
+      ON CONFLICT (event_id, reason) DO NOTHING
+      RETURNING 1
+    ), flagged AS (
+      UPDATE referral_event SET review = 'FLAGGED'
+       WHERE id IN (SELECT event_id FROM hits) AND review IS NULL
+      RETURNING referrer_id, referee_id
+    ), verified AS (
+      UPDATE referral_event v SET review = 'FLAGGED'
+        FROM flagged f
+       WHERE v.referrer_id = f.referrer_id AND v.referee_id = f.referee_id
+         AND v.kind = 'VERIFIED' AND v.review IS NULL
+      RETURNING 1
+    )
+    SELECT (SELECT COUNT(*) FROM flagged)::int AS flagged
+  `;
+  return getRows<{ flagged: number }>(await db.execute(flagQ))[0]?.flagged ?? 0;
+}
+
+/** Re-run the rules for one referrer; returns how many events were newly FLAGGED. */
+export async function assessReferrer(db: SqlExecutor, referrerId: string): Promise<number> {
+  return assessReferrers(db, [referrerId]);
+}
+
+/** Same for many referrers (e.g. after a bulk import), SWEEP_BATCH per query. */
+export async function assessReferrerSet(db: SqlExecutor, referrerIds: Iterable<string>): Promise<number> {
+  const ids = [...new Set(referrerIds)];
+  let flagged = 0;
+  for (let i = 0; i < ids.length; i += SWEEP_BATCH) flagged += await assessReferrers(db, ids.slice(i, i + SWEEP_BATCH));
+  return flagged;
+}
+
+/**
+ * Cron sweep: re-assess everyone with signups in the last `days` (rates change
+ * over time), SWEEP_BATCH referrers per query. At most FRAUD_SWEEP_MAX_REFERRERS
+ * (2000) per run, least recently assessed first (never assessed before
+ * anyone else), so a backlog rotates: `remaining` counts the referrers this
+ * run skipped, and they are at the front of the next one.
+ */
+export async function assessRecent(
+  db: SqlExecutor,
+  opts: { days?: number; maxReferrers?: number } = {}
+): Promise<{ referrers: number; flagged: number; remaining: number }> {
+  const max = opts.maxReferrers ?? SWEEP_MAX_REFERRERS;
+  const q = sql<{ referrer_id: string; total: number }>`
+    SELECT e.referrer_id::text AS referrer_id, (COUNT(*) OVER ())::int AS total
+      FROM referral_event e
+      JOIN user_account r ON r.id = e.referrer_id
+     WHERE e.kind = 'SIGNUP'
+       AND e.created_at > now() - make_interval(days => ${opts.days ?? 14})
+     GROUP BY e.referrer_id, r.fraud_assessed_at
+     ORDER BY r.fraud_assessed_at NULLS FIRST, e.referrer_id
+     LIMIT ${max}
+  `;
+  const rows = getRows<{ referrer_id: string; total: number }>(await db.execute(q));
+  const flagged = await assessReferrerSet(db, rows.map((r) => r.referrer_id));
+  return { referrers: rows.length, flagged, remaining: (rows[0]?.total ?? 0) - rows.length };
+}
+
+/**
+ * Admin decision on SIGNUP events (and their VERIFIED follow-ups). Works on
+ * unflagged events too, so an admin can disqualify by hand. Returns the
+ * SIGNUP event ids that were updated.
+ */
+export async function reviewEvents(
+  db: SqlExecutor,
+  eventIds: string[],
+  decision: "CLEARED" | "CONFIRMED",
+  note: string | null
+): Promise<string[]> {
+  if (!eventIds.length) return [];
+  const q = sql<{ id: string; kind: string }>`
+    WITH target AS (
+      SELECT referrer_id, referee_id FROM referral_event
+       WHERE id IN ${eventIds} AND kind = 'SIGNUP'
+    )
+    UPDATE referral_event e
+       SET review = ${decision}, reviewed_at = now(), review_note = ${note}
+      FROM target t
+     WHERE e.referrer_id = t.referrer_id AND e.referee_id = t.referee_id
+       AND e.kind IN ('SIGNUP', 'VERIFIED')
+ RETURNING e.id::text AS id, e.kind
+  `;
+  return getRows<{ id: string; kind: string }>(await db.execute(q))
+    .filter((r) => r.kind === "SIGNUP")
+    .map((r) => r.id);
+}
+
+type QueueRow = {
+  id: string;
+  review: ReferralReview;
+  referrer_code: string | null;
+  referrer_email: string;
+  referee_email: string;
+  referee_verified: boolean;
+  created_at: string | Date;
+  reviewed_at: string | Date | null;
+  review_note: string | null;
+  flags: { reason: ReferralFlagReason; detail: Record<string, unknown>; at: string }[];
+};
+
+/** Review queue: SIGNUP events in one review state, newest first, with their flags */
+export async function listReviewQueue(
+  db: SqlExecutor,
+  opts: { status: ReferralReview; limit: number; before?: string | null }
+): Promise<{ items: AdminFlaggedReferral[]; nextBefore: string | null }> {
+  const q = sql<QueueRow>`
+    SELECT e.id::text AS id, e.review, e.created_at, e.reviewed_at, e.review_note,
+           r.referral_code AS referrer_code, r.email AS referrer_email,
+           u.email AS referee_email, u.email_verified AS referee_verified,
+           COALESCE(
+             json_agg(json_build_object('reason', f.reason, 'detail', f.detail, 'at', f.created_at) ORDER BY f.id)
+               FILTER (WHERE f.id IS NOT NULL),
+             '[]'
+           ) AS flags
+      FROM referral_event e
+      JOIN user_account r ON r.id = e.referrer_id
+      JOIN user_account u ON u.id = e.referee_id
+      LEFT JOIN referral_flag f ON f.event_id = e.id
+     WHERE e.kind = 'SIGNUP'
+       AND e.review = ${opts.status}
+       ${opts.before ? sql`AND e.id < ${opts.before}::bigint` : sql``}
+     GROUP BY e.id, r.id, u.id
+     ORDER BY e.id DESC
+     LIMIT ${opts.limit + 1}
+  `;
+  const rows = getRows<QueueRow>(await db.execute(q));
+  const iso = (v: string | Date) => new Date(v).toISOString() as ISODateString;
+  const items = rows.slice(0, opts.limit).map((r) => ({
+    eventId: r.id,
+    review: r.review,
+    referrerCode: r.referrer_code,
+    referrerEmail: r.referrer_email,
+    refereeEmail: r.referee_email,
+    refereeVerified: r.referee_verified,
+    createdAt: iso(r.created_at),
+    reviewedAt: r.reviewed_at ? iso(r.reviewed_at) : null,
+    reviewNote: r.review_note,
+    flags: r.flags.map((f) => ({ reason: f.reason, detail: f.detail, flaggedAt: iso(f.at) })),
+  }));
+  return { items, nextBefore: rows.length > opts.limit ? items[items.length - 1].eventId : null };
+}
@@ -0,0 +1,173 @@
+// api/_lib/handler.ts
+// defineHandler: the shared request pipeline for api/ routes. A route declares
+// its methods, CORS needs and zod schemas; the wrapper answers preflights and
+// HEAD, rejects other methods, validates query and body, and turns whatever
+// `handle` returns (or throws) into the ApiResponse / ApiError envelopes:
+//
+//   export default defineHandler({
+//     name: "example",
+//     methods: ["POST"],
+//     body: z.object({ email: z.string() }),
+//     async handle({ body }) {
+//       if (!ok) throw new HttpError(409, "EMAIL_TAKEN", "That email is taken");
+//       return { saved: true };              // 200 { ok: true, data: { saved: true } }
+//     },
+//   });
+//
+// Every response carries X-Request-Id (the caller's, if sane, else a new
+// UUID); error bodies repeat it as `requestId`, and 500s are logged with it.
+import { randomUUID } from "node:crypto";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { z } from "zod";
+import type { ApiError, ApiSuccess, JSONObject } from "../../types/api.js";
+import { setCorsHeaders } from "./cors.js";
+import { clientIp, readJsonBody } from "./http.js";
+
+export type HttpMethod = "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+
+/** Throw from `handle` to answer with an ApiError */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly details?: JSONObject
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/** Return from `handle` for a status other than 200, extra headers, or a redirect */
+export class Reply<T = unknown> {
+  constructor(
+    readonly status: number,
+    readonly data?: T,
+    readonly opts: { location?: string; headers?: Record<string, string> } = {}
+  ) {}
+}
+
+export function reply<T>(data: T, opts: { status?: number; headers?: Record<string, string> } = {}): Reply<T> {
+  return new Reply(opts.status ?? 200, data, { headers: opts.headers });
+}
+
+/** 302 to `url` (no body) */
+export function redirect(url: string | URL): Reply<never> {
+  return new Reply<never>(302, undefined, { location: String(url), headers: { "Cache-Control": "no-store" } });
+}
+
+export interface HandlerContext<Q, B> {
+  req: VercelRequest;
+  res: VercelResponse;
+  method: HttpMethod;
+  query: Q;
+  body: B;
+  requestId: string;
+  ip: string | undefined;
+}
+
+type Schema = z.ZodTypeAny;
+type Infer<S> = S extends Schema ? z.infer<S> : Record<string, never>;
+
+export interface HandlerOptions<QS extends Schema | undefined, BS extends Schema | undefined> {
+  /** Log prefix, e.g. "waitlist" */
+  name: string;
+  /** OPTIONS is always answered; GET routes also answer HEAD */
+  methods: readonly HttpMethod[];
+  /** CORS per api/_lib/cors.ts; false for server-to-server routes */
+  cors?: false | { credentials?: boolean; allowHeaders?: string[]; maxAgeSeconds?: number };
+  /** Cache-Control for successful replies (default no-store; errors are always no-store) */
+  cacheControl?: string;
+  /** Validates req.query (first value of each parameter, trimmed; blanks dropped) */
+  query?: QS;
+  /** Validates the JSON body ({} when there is none, e.g. on GET) */
+  body?: BS;
+  handle(ctx: HandlerContext<Infer<QS>, Infer<BS>>): unknown | Promise<unknown>;
+}
+
+const REQUEST_ID = /^[\w.:-]{8,128}$/;
+
+function requestIdOf(req: VercelRequest): string {
+  const given = req.headers["x-request-id"];
+  return typeof given === "string" && REQUEST_ID.test(given) ? given : randomUUID();
+}
+
+function flatQuery(req: VercelRequest): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(req.query ?? {})) {
+    const s = (Array.isArray(v) ? v[0] : v)?.trim();
+    if (s) out[k] = s;
+  }
+  return out;
+}
+
+function validate<S extends Schema>(schema: S, input: unknown, what: string): z.infer<S> {
+  const parsed = schema.safeParse(input);
+  if (!parsed.success) {
+    throw new HttpError(400, "BAD_REQUEST", `Invalid ${what}`, parsed.error.flatten() as unknown as JSONObject);
+  }
+  return parsed.data;
+}
+
+export function defineHandler<QS extends Schema | undefined = undefined, BS extends Schema | undefined = undefined>(
+  opts: HandlerOptions<QS, BS>
+) {
+  const allowed = new Set<string>(opts.methods);
+  if (allowed.has("GET")) allowed.add("HEAD");
+  const corsMethods = [...allowed, "OPTIONS"];
+
+  return async function handler(req: VercelRequest, res: VercelResponse) {
+    const requestId = requestIdOf(req);
+    res.setHeader("X-Request-Id", requestId);
+    if (opts.cors !== false) {
+      setCorsHeaders(res, req.headers.origin as string | undefined, { ...opts.cors, methods: corsMethods });
+    }
+
+    const sendError = (status: number, code: string, message: string, details?: JSONObject) => {
+      const body: ApiError = { ok: false, code, message, requestId, ...(details ? { details } : {}) };
+      res.setHeader("Cache-Control", "no-store");
+      res.setHeader("Content-Type", "application/json; charset=utf-8");
+      return res.status(status).json(body);
+    };
+
+    const method = req.method ?? "GET";
+    if (method === "OPTIONS") return res.status(204).end();
+    if (!allowed.has(method)) {
+      res.setHeader("Allow", [...allowed].join(", "));
+      return sendError(405, "METHOD_NOT_ALLOWED", "Method not allowed");
+    }
+    if (method === "HEAD") {
+      res.setHeader("Cache-Control", opts.cacheControl ?? "no-store");
+      return res.status(204).end();
+    }
+
+    try {
+      const query = opts.query ? validate(opts.query, flatQuery(req), "query") : {};
+      const body = opts.body ? validate(opts.body, readJsonBody(req), "payload") : {};
+      const result = await opts.handle({
+        req,
+        res,
+        method: method as HttpMethod,
+        query: query as Infer<QS>,
+        body: body as Infer<BS>,
+        requestId,
+        ip: clientIp(req),
+      });
+
+      const out = result instanceof Reply ? result : new Reply(200, result);
+      res.setHeader("Cache-Control", opts.cacheControl ?? "no-store");
+      for (const [name, value] of Object.entries(out.opts.headers ?? {})) res.setHeader(name, value);
+      if (out.opts.location) {
+        res.setHeader("Location", out.opts.location);
+        return res.status(out.status).send("");
+      }
+      const payload: ApiSuccess<unknown> = { ok: true, data: out.data };
+      res.setHeader("Content-Type", "application/json; charset=utf-8");
+      return res.status(out.status).json(payload);
+    } catch (err) {
+      if (err instanceof HttpError) return sendError(err.status, err.code, err.message, err.details);
+      console.error(`[${opts.name}] ${requestId} error:`, err);
+      return sendError(500, "INTERNAL", "Internal error");
+    }
+  };
+}
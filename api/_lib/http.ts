@@ -0,0 +1,84 @@
+// api/_lib/http.ts
+import type { VercelRequest } from "@vercel/node";
+import { createHash, timingSafeEqual } from "node:crypto";
+
+/** Normalize drizzle execute result (array for neon-http, { rows } for pg) */
+export function getRows<T = any>(execResult: any): T[] {
+  return (Array.isArray(execResult) ? execResult : execResult?.rows) ?? [];
+}
+
+/** Parse the request body; tolerates raw JSON strings and objects */
+export function readJsonBody(req: VercelRequest): Record<string, any> {
+  if (typeof req.body === "string") {
+    const t = req.body.trim();
+    if (t.startsWith("{")) {
+      try {
+        return JSON.parse(t);
+      } catch {
+        return {};
+      }
+    }
+    return {};
+  }
+  if (req.body && typeof req.body === "object" && !Array.isArray(req.body)) return req.body;
+  return {};
+}
+
+/** First hop from x-forwarded-for, then x-real-ip */
+export function clientIp(req: VercelRequest): string | undefined {
+  return (
+    (req.headers["x-forwarded-for"] as string)?.split(",")[0]?.trim() ||
+    (req.headers["x-real-ip"] as string) ||
+    undefined
+  );
+}
+
+/**
+ * Salted SHA-256 of an IP address. We never store raw IPs; the salt
+ * (IP_HASH_SALT) keeps the hash from being reversed by brute force.
+ */
+export function hashIp(ip: string | undefined): string {
+  const salt = process.env.IP_HASH_SALT || "";
+  if (!salt && process.env.NODE_ENV === "production") {
+    console.warn("[http] IP_HASH_SALT missing; ip hashes are unsalted");
+  }
+  return createHash("sha256").update(`${salt}:${ip || "unknown"}`).digest("hex");
+}
+
+/** Single query-string value (Vercel gives string | string[]) */
+export function queryParam(req: VercelRequest, name: string): string | undefined {
+  const v = req.query[name];
+  const s = Array.isArray(v) ? v[0] : v;
+  return s?.trim() || undefined;
+}
+
+/** Bearer token from the Authorization header */
+export function bearerToken(req: VercelRequest): string | undefined {
+  const h = req.headers.authorization;
+  return h?.startsWith("Bearer ") ? h.slice("Bearer ".length).trim() || undefined : undefined;
+}
+
+/** Vercel Cron sends `Authorization: Bearer $CRON_SECRET` */
+export function isCronAuthorized(req: VercelRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  return !!secret && bearerToken(req) === secret;
+}
+
+/**
+ * The shared `Authorization: Bearer $ADMIN_API_TOKEN`, accepted by api/admin/*
+ * as the owner role. Endpoints call authorizeAdmin (admin.ts), not this.
+ */
+export function isAdminAuthorized(req: VercelRequest): boolean {
+  const secret = process.env.ADMIN_API_TOKEN;
+  const token = bearerToken(req);
+  if (!secret || !token) return false;
+  // compare digests so the check takes the same time for any wrong token
+  const digest = (v: string) => createHash("sha256").update(v).digest();
+  return timingSafeEqual(digest(token), digest(secret));
+}
+
+/** Absolute URL on the public site (APP_URL, default production host) */
+export function appUrl(path: string): URL {
+  const base = (process.env.APP_URL || "https://www.quantara-waitlist.com").split(",")[0].trim();
+  return new URL(path, base);
+}
@@ -0,0 +1,136 @@
+// api/_lib/keyring.ts
+// JWT signing keys, shared by every token issuer/verifier in api/.
+//
+//   JWT_KEYS       JWK Set ({"keys":[...]}) or a bare JWK array. Each key needs
+//                  `kid` and `alg` (HS256 | ES256 | EdDSA). Asymmetric keys
+//                  without their private part ("d") are verify-only.
+//   JWT_ACTIVE_KID kid used for signing (default: the first key that can sign)
+//   JWT_SECRET     legacy HS256 secret; kept as kid "legacy" so links signed
+//                  before the keyring existed keep verifying during rotation.
+//
+// Tokens carry the signing kid in their header; verification only accepts
+// keys that are still in the ring, so retiring a key = removing it from JWT_KEYS.
+// scripts/jwt-keys.ts generates, lists and retires keys.
+import {
+  SignJWT,
+  importJWK,
+  jwtVerify,
+  type JWK,
+  type JWTHeaderParameters,
+  type JWTPayload,
+  type KeyLike,
+} from "jose";
+
+export type JwtAlg = "HS256" | "ES256" | "EdDSA";
+export const JWT_ALGS: readonly JwtAlg[] = ["HS256", "ES256", "EdDSA"];
+export const LEGACY_KID = "legacy";
+
+export type KeyEntry = {
+  kid: string;
+  alg: JwtAlg;
+  /** the JWK as configured (private parts included) */
+  jwk: JWK;
+  canSign: boolean;
+};
+
+type Ring = { keys: Map<string, KeyEntry>; activeKid: string };
+
+let cached: { source: string; ring: Ring } | undefined;
+const imported = new Map<string, Promise<KeyLike | Uint8Array>>();
+
+/** Parse a JWT_KEYS value (JWK Set or array) into entries; throws on bad input. */
+export function parseKeys(raw: string): KeyEntry[] {
+  const parsed = JSON.parse(raw) as { keys?: JWK[] } | JWK[];
+  const list = Array.isArray(parsed) ? parsed : parsed.keys ?? [];
+  return list.map((jwk) => {
+    if (!jwk.kid) throw new Error("[keyring] every key in JWT_KEYS needs a kid");
+    const alg = jwk.alg as JwtAlg;
+    if (!JWT_ALGS.includes(alg)) throw new Error(`[keyring] key ${jwk.kid}: unsupported alg ${jwk.alg}`);
+    const canSign = alg === "HS256" ? Boolean(jwk.k) : Boolean(jwk.d);
+    return { kid: jwk.kid, alg, jwk, canSign };
+  });
+}
+
+function loadRing(): Ring {
+  const source = `${process.env.JWT_KEYS ?? ""}|${process.env.JWT_ACTIVE_KID ?? ""}|${process.env.JWT_SECRET ?? ""}`;
+  if (cached?.source === source) return cached.ring;
+
+  const keys = new Map<string, KeyEntry>();
+  for (const entry of process.env.JWT_KEYS ? parseKeys(process.env.JWT_KEYS) : []) {
+    if (keys.has(entry.kid)) throw new Error(`[keyring] duplicate kid ${entry.kid}`);
+    keys.set(entry.kid, entry);
+  }
+  if (process.env.JWT_SECRET && !keys.has(LEGACY_KID)) {
+    const k = Buffer.from(process.env.JWT_SECRET, "utf8").toString("base64url");
+    keys.set(LEGACY_KID, { kid: LEGACY_KID, alg: "HS256", jwk: { kty: "oct", kid: LEGACY_KID, alg: "HS256", k }, canSign: true });
+  }
+
+  const activeKid =
+    process.env.JWT_ACTIVE_KID || [...keys.values()].find((k) => k.canSign && k.kid !== LEGACY_KID)?.kid || LEGACY_KID;
+  const active = keys.get(activeKid);
+  if (!active) throw new Error("Server misconfig: set JWT_KEYS or JWT_SECRET");
+  if (!active.canSign) throw new Error(`[keyring] active key ${activeKid} has no private part`);
+
+  imported.clear();
+  cached = { source, ring: { keys, activeKid } };
+  return cached.ring;
+}
+
+function keyFor(entry: KeyEntry, use: "sign" | "verify") {
+  const cacheKey = `${entry.kid}:${use}`;
+  let p = imported.get(cacheKey);
+  if (!p) {
+    // verification only needs the public half of asymmetric keys
+    const { d: _d, ...pub } = entry.jwk;
+    p = importJWK(use === "verify" && entry.alg !== "HS256" ? pub : entry.jwk, entry.alg);
+    imported.set(cacheKey, p);
+  }
+  return p;
+}
+
+/** The keys currently configured (for scripts/diagnostics; no secrets). */
+export function describeKeyring() {
+  const ring = loadRing();
+  return [...ring.keys.values()].map((k) => ({
+    kid: k.kid,
+    alg: k.alg,
+    active: k.kid === ring.activeKid,
+    canSign: k.canSign,
+  }));
+}
+
+/** Sign with the active key; the header carries its kid. */
+export async function signJwt(
+  payload: JWTPayload,
+  opts: { issuer: string; audience: string; expiresInSeconds: number; jti?: string; subject?: string }
+): Promise<string> {
+  const ring = loadRing();
+  const entry = ring.keys.get(ring.activeKid)!;
+  const jwt = new SignJWT(payload)
+    .setProtectedHeader({ alg: entry.alg, kid: entry.kid, typ: "JWT" })
+    .setIssuer(opts.issuer)
+    .setAudience(opts.audience)
+    .setIssuedAt()
+    .setExpirationTime(Math.floor(Date.now() / 1000) + opts.expiresInSeconds);
+  if (opts.jti) jwt.setJti(opts.jti);
+  if (opts.subject) jwt.setSubject(opts.subject);
+  return jwt.sign(await keyFor(entry, "sign"));
+}
+
+/**
+ * Verify against the key named by the token's kid (no kid → legacy secret).
+ * Rejects unknown kids and any alg other than the key's own. Throws jose errors.
+ */
+export async function verifyJwt(token: string, opts: { issuer: string; audience: string }): Promise<JWTPayload> {
+  const ring = loadRing();
+  const { payload } = await jwtVerify(
+    token,
+    async (header: JWTHeaderParameters) => {
+      const entry = ring.keys.get(header.kid ?? LEGACY_KID);
+      if (!entry || entry.alg !== header.alg) throw new Error(`unknown signing key ${header.kid ?? "<none>"}`);
+      return keyFor(entry, "verify");
+    },
+    { issuer: opts.issuer, audience: opts.audience, algorithms: [...JWT_ALGS] }
+  );
+  return payload;
+}
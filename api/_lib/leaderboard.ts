@@ -0,0 +1,191 @@
+// api/_lib/leaderboard.ts
+// Referral scoring shared by /api/leaderboard and /api/referral-dashboard.
+// One ranked query defines points and tie-breaks, so a user's rank on their
+// dashboard always matches their position on the public board.
+//
+// Ordering: points DESC, verified DESC, signups DESC, created_at ASC, id ASC.
+// Cursors are keyset positions in that order (not ranks), so paging stays
+// stable while scores change underneath.
+//
+// Rolling windows (week/month/all) start on UTC day boundaries, so they read
+// referral_tally (daily counts kept by a trigger on referral_event) rather
+// than every event. Seasons have arbitrary bounds and count raw events.
+// Either way, events under fraud review (FLAGGED/CONFIRMED, see fraud.ts) don't count.
+import { sql, type SQL } from "drizzle-orm";
+import type { SqlExecutor } from "../../db/types.js";
+import { getRows } from "./http.js";
+import type { LeaderboardWeights, LeaderboardWindow, ReferralKind } from "../../types/api.js";
+
+export const LEADERBOARD_WINDOWS: readonly LeaderboardWindow[] = ["week", "month", "all"];
+
+/** How points are computed. Rolling windows use LEADERBOARD_WEIGHTS; seasons carry their own. */
+export type Scoring = { weights: LeaderboardWeights; kinds: ReferralKind[] };
+
+/** Time range for a board; `until` is exclusive (null = open-ended) */
+export type ScoreRange = { since: SQL; until: SQL | null };
+
+export type ScoreRow = {
+  id: string;
+  referral_code: string;
+  name: string;
+  created_at: string | Date;
+  created_us: string;        // created_at in epoch microseconds (exact, for cursors)
+  signups: number;
+  verified: number;
+  clicks: number;
+  conversion: number | null;
+  points: number;
+  rank: number;
+  total: number;
+};
+
+export function parseWindow(v: unknown): LeaderboardWindow {
+  const w = String(v ?? "").toLowerCase();
+  return (LEADERBOARD_WINDOWS as string[]).includes(w) ? (w as LeaderboardWindow) : "week";
+}
+
+/** "1,2,0" → SIGNUP=1, VERIFIED=2, CLICK=0 (missing/invalid parts fall back to 1,2,0) */
+export function parseWeights(raw: unknown): LeaderboardWeights {
+  const parts = String(raw ?? "").split(",").map((n) => (n.trim() ? Number(n) : NaN));
+  const pick = (i: number, d: number) => (Number.isInteger(parts[i]) ? parts[i] : d);
+  return { signup: pick(0, 1), verified: pick(1, 2), click: pick(2, 0) };
+}
+
+/** Server-side scoring for the rolling week/month/all boards (clients can't change it) */
+export const DEFAULT_SCORING: Scoring = (() => {
+  const weights = parseWeights(process.env.LEADERBOARD_WEIGHTS);
+  const kinds: ReferralKind[] = ["SIGNUP", "VERIFIED"];
+  if (weights.click) kinds.push("CLICK");
+  return { weights, kinds };
+})();
+
+/** First UTC day counted by a rolling window (weeks start on Monday) */
+export function windowStartDay(window: LeaderboardWindow): SQL {
+  return window === "month"
+    ? sql`date_trunc('month', now() AT TIME ZONE 'UTC')::date`
+    : window === "all"
+      ? sql`'1970-01-01'::date` // epoch start = all-time
+      : sql`date_trunc('week', now() AT TIME ZONE 'UTC')::date`;
+}
+
+/** Public display name: first 3 chars of the email + *** */
+export function maskedName(column: SQL): SQL {
+  return sql`left(${column}, 3) || '***'`;
+}
+
+/**
+ * Every user with a referral code, scored over the range and ranked
+ * (points, then verified, then signups, then earliest signup, then id).
+ * Use as a CTE: sql`WITH s AS (${scoresQuery(...)}) SELECT ... FROM s`.
+ */
+export function scoresQuery(range: LeaderboardWindow | ScoreRange, scoring: Scoring = DEFAULT_SCORING): SQL {
+  let source: SQL;
+  let count: (kind: ReferralKind) => SQL;
+  if (typeof range === "string") {
+    source = sql`LEFT JOIN referral_tally t ON t.referrer_id = u.id AND t.day >= ${windowStartDay(range)}`;
+    count = (kind) => sql`COALESCE(SUM(t.n) FILTER (WHERE t.kind = ${kind}), 0)`;
+  } else {
+    const inRange = range.until
+      ? sql`r.created_at >= ${range.since} AND r.created_at < ${range.until}`
+      : sql`r.created_at >= ${range.since}`;
+    source = sql`LEFT JOIN referral_event r
+                    ON r.referrer_id = u.id AND ${inRange} AND COALESCE(r.review, 'CLEARED') = 'CLEARED'`;
+    count = (kind) => sql`COUNT(*) FILTER (WHERE r.kind = ${kind})`;
+  }
+
+  const weightOf: Record<ReferralKind, number> = {
+    SIGNUP: scoring.weights.signup,
+    VERIFIED: scoring.weights.verified,
+    CLICK: scoring.weights.click,
+  };
+  const points = scoring.kinds.length
+    ? sql.join(scoring.kinds.map((k) => sql`${count(k)} * ${weightOf[k]}::int`), sql` + `)
+    : sql`0`;
+
+  return sql`
+    SELECT c.*,
+           ROW_NUMBER() OVER (ORDER BY c.points DESC, c.verified DESC, c.signups DESC, c.created_at ASC, c.id::bigint ASC)::int AS rank,
+           COUNT(*) OVER ()::int AS total
+      FROM (
+        SELECT
+          u.id::text AS id,
+          u.referral_code,
+          ${maskedName(sql`u.email`)} AS name,
+          u.created_at,
+          (extract(epoch from u.created_at) * 1000000)::bigint::text AS created_us,
+          ${count("SIGNUP")}::int   AS signups,
+          ${count("VERIFIED")}::int AS verified,
+          ${count("CLICK")}::int    AS clicks,
+          round(${count("SIGNUP")}::numeric / NULLIF(${count("CLICK")}, 0), 4)::float8 AS conversion,
+          (${points})::int AS points
+        FROM user_account u
+        ${source}
+        WHERE u.referral_code IS NOT NULL AND u.blocked_at IS NULL
+        GROUP BY u.id
+      ) c
+  `;
+}
+
+/**
+ * Recompute referral_tally from referral_event. The trigger keeps it current;
+ * this repairs drift (e.g. after bulk loads with triggers disabled). Run it
+ * while writes are quiet: events landing mid-rebuild can be counted twice.
+ */
+export async function rebuildTally(db: SqlExecutor): Promise<{ updated: number; removed: number }> {
+  const q = sql<{ updated: number; removed: number }>`
+    WITH fresh AS (
+      SELECT referrer_id, (created_at AT TIME ZONE 'UTC')::date AS day, kind, COUNT(*)::int AS n
+        FROM referral_event
+       WHERE COALESCE(review, 'CLEARED') = 'CLEARED'
+       GROUP BY 1, 2, 3
+    ), up AS (
+      INSERT INTO referral_tally (referrer_id, day, kind, n)
+      SELECT referrer_id, day, kind, n FROM fresh
+      ON CONFLICT (referrer_id, day, kind) DO UPDATE SET n = EXCLUDED.n
+       WHERE referral_tally.n <> EXCLUDED.n
+      RETURNING 1
+    ), gone AS (
+      DELETE FROM referral_tally t
+       WHERE NOT EXISTS (
+         SELECT 1 FROM fresh f WHERE f.referrer_id = t.referrer_id AND f.day = t.day AND f.kind = t.kind
+       )
+      RETURNING 1
+    )
+    SELECT (SELECT COUNT(*) FROM up)::int AS updated, (SELECT COUNT(*) FROM gone)::int AS removed
+  `;
+  return getRows<{ updated: number; removed: number }>(await db.execute(q))[0] ?? { updated: 0, removed: 0 };
+}
+
+/* ---- keyset cursors -------------------------------------------------------- */
+
+export type CursorKey = [points: number, verified: number, signups: number, createdUs: string, id: string];
+
+/** Opaque cursor pointing just after `row` */
+export function encodeCursor(row: Pick<ScoreRow, "points" | "verified" | "signups" | "created_us" | "id">): string {
+  const key: CursorKey = [row.points, row.verified, row.signups, row.created_us, row.id];
+  return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+/** Parse a cursor; null if it is malformed */
+export function decodeCursor(cursor: string): CursorKey | null {
+  try {
+    const k = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    const ok =
+      Array.isArray(k) &&
+      k.length === 5 &&
+      k.slice(0, 3).every((n) => Number.isInteger(n)) &&
+      /^-?\d{1,19}$/.test(k[3]) &&
+      /^\d{1,19}$/.test(k[4]);
+    return ok ? (k as CursorKey) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** WHERE fragment (on CTE alias `s`) for rows strictly after the cursor */
+export function afterCursor(key: CursorKey): SQL {
+  const [points, verified, signups, createdUs, id] = key;
+  // mixed ASC/DESC ordering → negate the DESC columns so one row comparison works
+  return sql`(-s.points, -s.verified, -s.signups, s.created_us::bigint, s.id::bigint)
+           > (${-points}::int, ${-verified}::int, ${-signups}::int, ${createdUs}::bigint, ${id}::bigint)`;
+}
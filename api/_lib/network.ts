@@ -0,0 +1,56 @@
+// api/_lib/network.ts
+// Devnet-0 network/site config, shared by /api/config and any handler that
+// needs explorer links.
+import type { NetworkConfig, ISODateString, WsUrl, HttpUrl } from "../../types/api.js";
+
+const FALLBACK_RELEASE_ISO = "2025-11-30T17:00:00Z";
+
+export function buildNetworkConfig(): NetworkConfig {
+  // Release time (safe parse with fallback)
+  const envRelease = process.env.Q_RELEASE_AT ?? FALLBACK_RELEASE_ISO;
+  const parsed = new Date(envRelease);
+  const releaseIso: ISODateString = (
+    isNaN(parsed.getTime()) ? new Date(FALLBACK_RELEASE_ISO) : parsed
+  ).toISOString() as ISODateString;
+
+  // RPC is optional (no RPC yet is fine). Accept FAUCET_RPC_URL or RPC_WS.
+  const rpcEnv = (process.env.FAUCET_RPC_URL || process.env.RPC_WS || "").trim();
+  const rpcWS = (rpcEnv && /^wss?:\/\//i.test(rpcEnv) ? rpcEnv : "") as WsUrl;
+
+  // Optional absolute links if PUBLIC_BASE_URL is set
+  const base = (process.env.PUBLIC_BASE_URL || "").replace(/\/$/, "");
+  const abs = (p: string) => (base ? `${base}${p}` : p);
+
+  return {
+    chainName: "Devnet-0",
+    tokenSymbol: "QTR",
+    tokenDecimals: 12,
+    ss58Prefix: 73,
+    rpcWS, // '' when not configured; UI should handle gracefully
+    releaseAt: releaseIso,
+    explorer: {
+      // If your HttpUrl type requires absolute URLs, set PUBLIC_BASE_URL.
+      homepage: abs("/explorer/") as HttpUrl,
+      account: abs("/explorer/account/{address}"),
+      tx: abs("/explorer/tx/{hash}"),
+    },
+    links: {
+      wallet: abs("/wallet/"),
+      faucet: abs("/faucet/"),
+      status: abs("/status/"),
+      explorer: abs("/explorer/"),
+    },
+  };
+}
+
+/** Fill the `explorer.tx` pattern; null when no pattern or no hash */
+export function explorerTxUrl(cfg: NetworkConfig, hash: string | null | undefined): string | null {
+  if (!hash || !cfg.explorer.tx) return null;
+  return cfg.explorer.tx.replace("{hash}", encodeURIComponent(hash));
+}
+
+/** Fill the `explorer.account` pattern; null when no pattern */
+export function explorerAccountUrl(cfg: NetworkConfig, address: string): string | null {
+  if (!cfg.explorer.account) return null;
+  return cfg.explorer.account.replace("{address}", encodeURIComponent(address));
+}
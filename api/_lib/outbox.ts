@@ -0,0 +1,158 @@
+// api/_lib/outbox.ts
+// Durable email outbox. Handlers enqueue rows inside their normal request;
+// a dispatcher (cron route or scripts/email-dispatch.ts) sends them with
+// exponential backoff. Each row's idempotency key is passed to the provider,
+// so a retry after a crash mid-send never produces a second email.
+//
+// Marketing templates are checked against the user's consent at send time
+// (consent.ts), so an unsubscribe also stops mail that is already queued;
+// those rows end up SUPPRESSED. Mail to a known user carries List-Unsubscribe.
+import { randomUUID } from "node:crypto";
+import { sql } from "drizzle-orm";
+import type { SqlExecutor } from "../../db/types.js";
+import { getRows } from "./http.js";
+import { sendEmail, unsubscribeUrl } from "./email.js";
+import { MARKETING_TEMPLATES, renderEmail, type Locale, type TemplateName, type TemplateVars } from "./templates/index.js";
+
+/** Outbox rows are template renders; the payload holds the template vars */
+export type OutboxKind = TemplateName;
+
+export type EnqueueInput = {
+  userId?: string | null;
+  kind: OutboxKind;
+  to: string;
+  locale?: Locale;
+  payload: TemplateVars;
+  idempotencyKey: string;
+};
+
+export type DispatchOptions = {
+  batchSize?: number;
+  /** Only consider these outbox ids (used for the inline send after enqueue) */
+  ids?: string[];
+};
+
+export type DispatchSummary = { leased: number; sent: number; retried: number; failed: number; suppressed: number };
+
+type OutboxRow = {
+  id: string;
+  user_id: string | null;
+  kind: OutboxKind;
+  to_email: string;
+  locale: string;
+  payload: TemplateVars;
+  idempotency_key: string;
+  attempts: number;
+  /** marketing kind, and the user hasn't confirmed consent (or unsubscribed) */
+  suppressed: boolean;
+};
+
+const MAX_ATTEMPTS = Math.max(1, Number(process.env.EMAIL_MAX_ATTEMPTS) || 8);
+const BASE_DELAY_S = 30;
+const MAX_DELAY_S = 6 * 60 * 60;
+const LEASE_S = 120;
+
+/** 30s, 60s, 2m, 4m … capped at 6h, with ±20% jitter */
+export function backoffSeconds(attempts: number) {
+  const raw = Math.min(MAX_DELAY_S, BASE_DELAY_S * 2 ** Math.max(0, attempts - 1));
+  return Math.round(raw * (0.8 + Math.random() * 0.4));
+}
+
+/** Insert an outbox row; returns its id, or null if the key was already queued. */
+export async function enqueueEmail(db: SqlExecutor, input: EnqueueInput): Promise<string | null> {
+  // Render once up front so a missing template var fails the caller, not the dispatcher
+  renderEmail(input.kind, input.locale, input.payload);
+
+  const q = sql<{ id: string }>`
+    INSERT INTO email_outbox (user_id, kind, to_email, locale, payload, idempotency_key)
+    VALUES (${input.userId ?? null}, ${input.kind}, ${input.to}, ${input.locale ?? "en"},
+            ${JSON.stringify(input.payload)}::jsonb, ${input.idempotencyKey})
+    ON CONFLICT (idempotency_key) DO NOTHING
+    RETURNING id::text AS id
+  `;
+  return getRows<{ id: string }>(await db.execute(q))[0]?.id ?? null;
+}
+
+/** Send one row through the provider; returns the provider message id. */
+async function deliver(row: OutboxRow): Promise<string | null> {
+  const unsubscribe = row.user_id ? await unsubscribeUrl(row.user_id) : undefined;
+  const rendered = renderEmail(row.kind, row.locale, row.payload, { unsubscribeUrl: unsubscribe });
+  const sent = await sendEmail({
+    to: row.to_email,
+    ...rendered,
+    tags: [{ name: "purpose", value: row.kind }],
+    idempotencyKey: row.idempotency_key,
+    unsubscribeUrl: unsubscribe,
+  });
+  return sent.id ?? null;
+}
+
+/** Lease due rows (or rows whose lease expired) and send them. */
+export async function dispatchOutbox(db: SqlExecutor, opts: DispatchOptions = {}): Promise<DispatchSummary> {
+  const batchSize = Math.max(1, Math.min(100, opts.batchSize ?? 25));
+  const lockToken = randomUUID();
+  const onlyIds = opts.ids?.length ? sql`AND id IN ${opts.ids}` : sql``;
+
+  const leaseQ = sql<OutboxRow>`
+    UPDATE email_outbox
+       SET status = 'SENDING',
+           attempts = attempts + 1,
+           locked_by = ${lockToken},
+           locked_until = now() + make_interval(secs => ${LEASE_S})
+     WHERE id IN (
+       SELECT id FROM email_outbox
+        WHERE ((status = 'PENDING' AND next_attempt_at <= now())
+            OR (status = 'SENDING' AND locked_until < now()))
+          ${onlyIds}
+        ORDER BY next_attempt_at
+        LIMIT ${batchSize}
+        FOR UPDATE SKIP LOCKED
+     )
+ RETURNING id::text AS id, user_id::text AS user_id, kind, to_email, locale, payload, idempotency_key, attempts,
+           (kind IN ${[...MARKETING_TEMPLATES]} AND NOT EXISTS (
+              SELECT 1 FROM user_account u
+               WHERE u.id = email_outbox.user_id
+                 AND u.marketing_confirmed_at IS NOT NULL
+                 AND u.marketing_unsubscribed_at IS NULL
+           )) AS suppressed
+  `;
+  const rows = getRows<OutboxRow>(await db.execute(leaseQ));
+  const summary: DispatchSummary = { leased: rows.length, sent: 0, retried: 0, failed: 0, suppressed: 0 };
+
+  for (const row of rows) {
+    if (row.suppressed) {
+      await db.execute(sql`
+        UPDATE email_outbox
+           SET status = 'SUPPRESSED', last_error = 'no marketing consent', locked_by = NULL, locked_until = NULL
+         WHERE id = ${row.id} AND locked_by = ${lockToken}
+      `);
+      summary.suppressed++;
+      continue;
+    }
+    try {
+      const messageId = await deliver(row);
+      await db.execute(sql`
+        UPDATE email_outbox
+           SET status = 'SENT', sent_at = now(), provider_message_id = ${messageId},
+               last_error = NULL, locked_by = NULL, locked_until = NULL
+         WHERE id = ${row.id} AND locked_by = ${lockToken}
+      `);
+      summary.sent++;
+    } catch (err: any) {
+      const message = String(err?.message || err).slice(0, 1000);
+      const giveUp = row.attempts >= MAX_ATTEMPTS;
+      await db.execute(sql`
+        UPDATE email_outbox
+           SET status = ${giveUp ? "FAILED" : "PENDING"}::email_status,
+               next_attempt_at = now() + make_interval(secs => ${backoffSeconds(row.attempts)}),
+               last_error = ${message}, locked_by = NULL, locked_until = NULL
+         WHERE id = ${row.id} AND locked_by = ${lockToken}
+      `);
+      if (giveUp) summary.failed++;
+      else summary.retried++;
+      console.warn(`[outbox] ${row.kind} #${row.id} attempt ${row.attempts} failed: ${message}`);
+    }
+  }
+
+  return summary;
+}
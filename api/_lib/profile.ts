@@ -0,0 +1,240 @@
+// api/_lib/profile.ts
+// Member profile fields and their audited write path. The zod rules are
+// shared by the signup form (api/waitlist.ts) and PATCH /api/profile, and
+// every write goes through updateProfile, which records old → new per field
+// in profile_change. Email changes are separate: the new address has to be
+// verified first (requestEmailChange / confirmEmailChange).
+import { createHash } from "node:crypto";
+import { z } from "zod";
+import { sql } from "drizzle-orm";
+import type { SqlExecutor } from "../../db/types.js";
+import type { ISODateString, MemberProfile, ProfileChangeEntry, ProfileField } from "../../types/api.js";
+import { canonicalEmail, type NormalizedEmail } from "./email-address.js";
+import { appUrl, getRows } from "./http.js";
+import { enqueueEmail } from "./outbox.js";
+import { resolveLocale } from "./templates/index.js";
+import { consumeToken, issueToken } from "./tokens.js";
+
+export type ProfileSource = "profile" | "waitlist" | "email-change";
+
+/** Field rules (required-ness is up to each schema) */
+export const PROFILE_RULES = {
+  role: z.string().min(1).max(40),
+  experience: z.enum(["New", "Intermediate", "Advanced"]),
+  discord: z.string().max(80),
+  github: z.string().max(120),
+  country: z.string().max(80),
+  locale: z.string().max(35),               // "es", "es-MX"; stored resolved ("es")
+};
+
+export const PROFILE_FIELDS = Object.keys(PROFILE_RULES) as ProfileField[];
+
+/** PATCH body: any subset; null clears an optional field */
+export const ProfilePatchSchema = z
+  .object({
+    role: PROFILE_RULES.role,
+    experience: PROFILE_RULES.experience.nullable(),
+    discord: PROFILE_RULES.discord.nullable(),
+    github: PROFILE_RULES.github.nullable(),
+    country: PROFILE_RULES.country.nullable(),
+    locale: PROFILE_RULES.locale,
+  })
+  .partial()
+  .strict();
+
+export type ProfileChanges = Partial<Record<ProfileField, string | null>>;
+
+const EMAIL_CHANGE_TTL_S = 24 * 60 * 60;
+
+type ProfileRow = {
+  id: string;
+  email: string;
+  email_verified: boolean;
+  role: string | null;
+  experience: string | null;
+  discord: string | null;
+  github: string | null;
+  country: string | null;
+  locale: string;
+};
+
+export async function getProfile(db: SqlExecutor, userId: string): Promise<MemberProfile | null> {
+  const q = sql<ProfileRow>`
+    SELECT id::text AS id, email, email_verified, role, experience, discord, github, country, locale
+      FROM user_account WHERE id = ${userId}
+  `;
+  const r = getRows<ProfileRow>(await db.execute(q))[0];
+  if (!r) return null;
+  return {
+    email: r.email,
+    emailVerified: Boolean(r.email_verified),
+    role: r.role,
+    experience: r.experience as MemberProfile["experience"],
+    discord: r.discord,
+    github: r.github,
+    country: r.country,
+    locale: r.locale,
+  };
+}
+
+/**
+ * Apply the given fields (omitted ones are left alone) and log each field
+ * whose value actually changed, in one statement. Empty strings clear.
+ * Returns the logged changes.
+ */
+export async function updateProfile(
+  db: SqlExecutor,
+  userId: string,
+  changes: ProfileChanges,
+  source: ProfileSource
+): Promise<ProfileChangeEntry[]> {
+  const fields = PROFILE_FIELDS.filter((f) => changes[f] !== undefined);
+  if (!fields.length) return [];
+
+  const value = (f: ProfileField) => {
+    const v = changes[f];
+    if (f === "locale") return resolveLocale(v);
+    return typeof v === "string" && v.trim() ? v.trim() : null;
+  };
+  const sets = sql.join(fields.map((f) => sql`${sql.identifier(f)} = ${value(f)}`), sql`, `);
+  const diffs = sql.join(
+    fields.map((f) => sql`(${f}, old.${sql.identifier(f)}, upd.${sql.identifier(f)})`),
+    sql`, `
+  );
+
+  type Row = { field: ProfileField; old_value: string | null; new_value: string | null; created_at: string | Date };
+  const q = sql<Row>`
+    WITH old AS (
+      SELECT id, ${sql.join(fields.map((f) => sql.identifier(f)), sql`, `)}
+        FROM user_account WHERE id = ${userId} FOR UPDATE
+    ), upd AS (
+      UPDATE user_account u SET ${sets} FROM old WHERE u.id = old.id
+      RETURNING u.*
+    ), ins AS (
+      INSERT INTO profile_change (user_id, field, old_value, new_value, source)
+      SELECT upd.id, d.field, d.old_value, d.new_value, ${source}
+        FROM old, upd, LATERAL (VALUES ${diffs}) AS d (field, old_value, new_value)
+       WHERE d.old_value IS DISTINCT FROM d.new_value
+      RETURNING field, old_value, new_value, created_at
+    )
+    SELECT * FROM ins ORDER BY field
+  `;
+  return getRows<Row>(await db.execute(q)).map((r) => ({
+    field: r.field,
+    oldValue: r.old_value,
+    newValue: r.new_value,
+    source,
+    changedAt: new Date(r.created_at).toISOString() as ISODateString,
+  }));
+}
+
+/** Most recent changes first */
+export async function profileHistory(db: SqlExecutor, userId: string, limit = 20): Promise<ProfileChangeEntry[]> {
+  type Row = { field: ProfileField | "email"; old_value: string | null; new_value: string | null; source: ProfileSource; created_at: string | Date };
+  const q = sql<Row>`
+    SELECT field, old_value, new_value, source, created_at
+      FROM profile_change
+     WHERE user_id = ${userId}
+     ORDER BY created_at DESC, id DESC
+     LIMIT ${limit}
+  `;
+  return getRows<Row>(await db.execute(q)).map((r) => ({
+    field: r.field,
+    oldValue: r.old_value,
+    newValue: r.new_value,
+    source: r.source,
+    changedAt: new Date(r.created_at).toISOString() as ISODateString,
+  }));
+}
+
+/** Is this inbox free for `userId` (no other account has it, however spelled)? */
+export async function emailAvailable(db: SqlExecutor, userId: string, email: NormalizedEmail): Promise<boolean> {
+  const q = sql<{ taken: boolean }>`
+    SELECT EXISTS (
+      SELECT 1 FROM user_account
+       WHERE id <> ${userId}
+         AND (email_canonical = ${canonicalEmail(email)} OR lower(email) = ${email.address})
+    ) AS taken
+  `;
+  return !getRows<{ taken: boolean }>(await db.execute(q))[0]?.taken;
+}
+
+/**
+ * Email a confirmation link to the new address. The address rides in the
+ * signed token, so nothing changes until the link is clicked. A new request
+ * revokes the previous link.
+ */
+export async function requestEmailChange(
+  db: SqlExecutor,
+  user: { id: string; locale?: string | null },
+  email: NormalizedEmail
+): Promise<string | null> {
+  const { token } = await issueToken(db, {
+    userId: user.id,
+    email: email.address,
+    purpose: "email-change",
+    ttlSeconds: EMAIL_CHANGE_TTL_S,
+    revokePrevious: true,
+  });
+  const link = appUrl("/api/profile/confirm-email");
+  link.searchParams.set("token", token);
+
+  const tokenHash = createHash("sha256").update(token).digest("hex").slice(0, 32);
+  return enqueueEmail(db, {
+    userId: user.id,
+    kind: "email-change",
+    to: email.address,
+    locale: resolveLocale(user.locale),
+    payload: { link: link.toString(), email: email.address },
+    idempotencyKey: `email-change:${user.id}:${tokenHash}`,
+  });
+}
+
+export type EmailChangeResult =
+  | { ok: true; userId: string; email: string }
+  | { ok: false; code: "EMAIL_TAKEN" | "NOT_FOUND" };
+
+/**
+ * Consume the link (throws TokenError) and switch the address. The new inbox
+ * was just proven, so the account counts as verified. Logged as field "email".
+ */
+export async function confirmEmailChange(db: SqlExecutor, token: string): Promise<EmailChangeResult> {
+  const claims = await consumeToken(db, token, "email-change");
+  const email = claims.email;
+  const canonical = canonicalEmail(email);
+
+  type Row = { id: string; email: string };
+  const q = sql<Row>`
+    WITH old AS (
+      SELECT id, email FROM user_account WHERE id = ${claims.sub} FOR UPDATE
+    ), upd AS (
+      UPDATE user_account u
+         SET email = ${email}, email_canonical = ${canonical}, email_verified = true
+        FROM old
+       WHERE u.id = old.id
+         AND NOT EXISTS (
+           SELECT 1 FROM user_account o
+            WHERE o.id <> old.id AND (o.email_canonical = ${canonical} OR lower(o.email) = ${email})
+         )
+      RETURNING u.id, u.email
+    ), ins AS (
+      INSERT INTO profile_change (user_id, field, old_value, new_value, source)
+      SELECT upd.id, 'email', old.email, upd.email, 'email-change'
+        FROM old, upd
+       WHERE old.email IS DISTINCT FROM upd.email
+    )
+    SELECT id::text AS id, email FROM upd
+  `;
+  let row: Row | undefined;
+  try {
+    row = getRows<Row>(await db.execute(q))[0];
+  } catch (e: any) {
+    // lost a race with a signup for the same inbox
+    if (/\bunique\b/i.test(String(e?.message ?? e))) return { ok: false, code: "EMAIL_TAKEN" };
+    throw e;
+  }
+  if (row) return { ok: true, userId: row.id, email: row.email };
+
+  const exists = getRows(await db.execute(sql`SELECT 1 FROM user_account WHERE id = ${claims.sub}`)).length > 0;
+  return { ok: false, code: exists ? "EMAIL_TAKEN" : "NOT_FOUND" };
+}
@@ -0,0 +1,67 @@
+// api/_lib/queue.ts
+// Waitlist position. Everyone is ordered by signup time, moved up by:
+//   QUEUE_VERIFIED_BOOST_HOURS  (24)  for a verified email
+//   QUEUE_POINT_BOOST_HOURS     (12)  per all-time referral point (leaderboard scoring,
+//                                     so fraud-flagged referrals don't help)
+// capped at QUEUE_MAX_BOOST_DAYS (30), ties broken by id. Positions are stored
+// in user_account.queue_position by recomputeQueue (cron), which only writes
+// rows whose position changed. New signups are inserted with a NULL position
+// (so concurrent inserts can't collide) and are shown at the end of the line,
+// in id order, until the next run places them.
+import { sql } from "drizzle-orm";
+import type { SqlExecutor } from "../../db/types.js";
+import type { QueueStanding } from "../../types/api.js";
+import { getRows } from "./http.js";
+import { scoresQuery } from "./leaderboard.js";
+
+export const QUEUE_RULES = {
+  verifiedBoostHours: Number(process.env.QUEUE_VERIFIED_BOOST_HOURS ?? 24),
+  pointBoostHours: Number(process.env.QUEUE_POINT_BOOST_HOURS ?? 12),
+  maxBoostDays: Number(process.env.QUEUE_MAX_BOOST_DAYS ?? 30),
+};
+
+/** Recompute every position in one statement; returns how many changed. */
+export async function recomputeQueue(db: SqlExecutor): Promise<{ updated: number }> {
+  const { verifiedBoostHours, pointBoostHours, maxBoostDays } = QUEUE_RULES;
+  const q = sql<{ updated: number }>`
+    WITH pts AS (${scoresQuery("all")}),
+    ranked AS (
+      SELECT u.id,
+             ROW_NUMBER() OVER (
+               ORDER BY u.created_at - make_interval(secs => LEAST(
+                          ((CASE WHEN u.email_verified THEN ${verifiedBoostHours}::float8 ELSE 0 END)
+                            + COALESCE(pts.points, 0) * ${pointBoostHours}::float8) * 3600,
+                          ${maxBoostDays}::float8 * 86400
+                        )) ASC,
+                        u.id ASC
+             )::int AS pos
+        FROM user_account u
+        LEFT JOIN pts ON pts.id = u.id::text
+    ), upd AS (
+      UPDATE user_account u SET queue_position = r.pos
+        FROM ranked r
+       WHERE u.id = r.id AND u.queue_position IS DISTINCT FROM r.pos
+      RETURNING 1
+    )
+    SELECT COUNT(*)::int AS updated FROM upd
+  `;
+  return getRows<{ updated: number }>(await db.execute(q))[0] ?? { updated: 0 };
+}
+
+/** A user's current position (provisional if not placed yet) and the length of the line */
+export async function queueStanding(db: SqlExecutor, userId: string): Promise<QueueStanding> {
+  const q = sql<{ position: number | null; total: number }>`
+    WITH placed AS (SELECT COALESCE(MAX(queue_position), 0)::int AS n FROM user_account),
+    unplaced AS (
+      SELECT id, ROW_NUMBER() OVER (ORDER BY id)::int AS k FROM user_account WHERE queue_position IS NULL
+    )
+    SELECT COALESCE(
+             (SELECT queue_position FROM user_account WHERE id = ${userId}),
+             (SELECT placed.n + unplaced.k FROM placed, unplaced WHERE unplaced.id = ${userId})
+           ) AS position,
+           ((SELECT n FROM placed) + (SELECT COUNT(*) FROM unplaced))::int AS total
+  `;
+  const row = getRows<{ position: number | null; total: number }>(await db.execute(q))[0];
+  const position = row?.position ?? null;
+  return { position, total: Math.max(row?.total ?? 0, position ?? 0) };
+}
@@ -11,24 +11,54 @@ export const redis =
       })
     : undefined;
 
+type Window = Parameters<typeof Ratelimit.slidingWindow>[1];
+export type LimitResult = { success: boolean; limit: number; remaining: number; reset: number };
+export type Limiter = (key: string) => Promise<LimitResult>;
+
+/**
+ * Build a sliding-window limiter: `tokens` per `window` (e.g. "1 h", "10 m").
+ * Each limiter gets its own Redis prefix; no-op when Redis is not configured.
+ */
+export function createLimiter(prefix: string, tokens: number, window: Window): Limiter {
+  const rl = redis
+    ? new Ratelimit({ redis, prefix: `rl:${prefix}`, limiter: Ratelimit.slidingWindow(tokens, window) })
+    : undefined;
+  return async (key) => {
+    if (!rl) return { success: true, limit: 0, remaining: 0, reset: 0 };
+    return rl.limit(key);
+  };
+}
+
 /** Sliding window: FAUCET_CLAIMS_PER_HOUR per hour (default 1/hr) */
-export const rlPerHour = redis
-  ? new Ratelimit({
-      redis,
-      limiter: Ratelimit.slidingWindow(
-        +(process.env.FAUCET_CLAIMS_PER_HOUR ?? 1),
-        "1 h"
-      ),
-    })
-  : undefined;
+const faucetLimit = createLimiter("faucet", +(process.env.FAUCET_CLAIMS_PER_HOUR ?? 1), "1 h");
+
+/** Sliding window: VERIFY_RESENDS_PER_HOUR per hour (default 5/hr) */
+export const resendVerifyLimit = createLimiter(
+  "verify-resend",
+  +(process.env.VERIFY_RESENDS_PER_HOUR ?? 5),
+  "1 h"
+);
+
+/** Sliding window: LOGIN_LINKS_PER_HOUR per hour (default 5/hr) */
+export const loginLinkLimit = createLimiter(
+  "login-link",
+  +(process.env.LOGIN_LINKS_PER_HOUR ?? 5),
+  "1 h"
+);
+
+/** Sliding window: ACCESS_REDEEMS_PER_HOUR per IP (default 20/hr); codes are guessable only by brute force */
+export const redeemAccessLimit = createLimiter(
+  "access-redeem",
+  +(process.env.ACCESS_REDEEMS_PER_HOUR ?? 20),
+  "1 h"
+);
 
 /**
  * Call in your API route to rate-limit a given key (ip/email/etc).
  * Returns { success, limit, remaining, reset }.
  */
 export async function limit(key: string) {
-  if (!rlPerHour) return { success: true, limit: 0, remaining: 0, reset: 0 }; // no-op if not configured
-  return rlPerHour.limit(key);
+  return faucetLimit(key);
 }
 
 /**
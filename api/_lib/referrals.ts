@@ -0,0 +1,49 @@
+// api/_lib/referrals.ts
+// Referral link clicks. A click is a referral_event with kind CLICK and no
+// referee; (referrer_id, dedupe_key) is unique, so each visitor counts once
+// per referral code per UTC day however often they reload.
+import type { VercelRequest } from "@vercel/node";
+import { sql } from "drizzle-orm";
+import type { SqlExecutor } from "../../db/types.js";
+import { clientIp, getRows, hashIp } from "./http.js";
+
+/** Link unfurlers and crawlers fetch /r/<code> too; they aren't visitors */
+const BOT_UA = /bot|crawl|spider|slurp|preview|facebookexternalhit|embedly|whatsapp|telegram|discord|slack|curl|wget|python-requests|headless/i;
+
+export type ClickResult = { recorded: boolean; known: boolean };
+
+export function isBot(req: VercelRequest) {
+  const ua = String(req.headers["user-agent"] ?? "");
+  return !ua || BOT_UA.test(ua);
+}
+
+/** Visitor fingerprint: salted hash of IP + user agent (no raw values stored) */
+export function visitorFingerprint(req: VercelRequest) {
+  return hashIp(`${clientIp(req) ?? "unknown"}|${req.headers["user-agent"] ?? ""}`).slice(0, 32);
+}
+
+export function normalizeCode(code: string | undefined | null) {
+  const c = (code ?? "").trim();
+  return /^[A-Za-z0-9_-]{3,64}$/.test(c) ? c : null;
+}
+
+/**
+ * Record a CLICK for a referral code. `known` is false for unknown codes;
+ * `recorded` is false when this visitor already clicked today.
+ */
+export async function recordClick(db: SqlExecutor, code: string, fingerprint: string): Promise<ClickResult> {
+  const day = new Date().toISOString().slice(0, 10);
+  const q = sql<{ inserted: boolean; known: boolean }>`
+    WITH ref AS (
+      SELECT id FROM user_account WHERE referral_code = ${code} LIMIT 1
+    ), ins AS (
+      INSERT INTO referral_event (referrer_id, referee_id, kind, dedupe_key)
+      SELECT id, NULL, 'CLICK', ${`${day}:${fingerprint}`} FROM ref
+      ON CONFLICT (referrer_id, dedupe_key) WHERE dedupe_key IS NOT NULL DO NOTHING
+      RETURNING 1
+    )
+    SELECT EXISTS (SELECT 1 FROM ins) AS inserted, EXISTS (SELECT 1 FROM ref) AS known
+  `;
+  const row = getRows<{ inserted: boolean; known: boolean }>(await db.execute(q))[0];
+  return { recorded: Boolean(row?.inserted), known: Boolean(row?.known) };
+}
@@ -0,0 +1,93 @@
+// api/_lib/rpc.ts
+// Tiny JSON-RPC 2.0 client over HTTP (Substrate nodes serve HTTP and WS on
+// the same port, so a ws:// endpoint is simply rewritten to http://).
+
+export type RpcCall = { method: string; params?: unknown[] | Record<string, unknown> };
+
+/**
+ * Per call: a result, a JSON-RPC error the node returned for that id, or
+ * `error: null` when no usable reply came back for it (id missing, body not
+ * JSON); the call may still have run.
+ */
+export type RpcOutcome<T = unknown> =
+  | { ok: true; result: T }
+  | { ok: false; error: { code: number; message: string; data?: unknown } }
+  | { ok: false; error: null; reason: string };
+
+/** Transport-level failure; `delivered` is false only when the request surely never left. */
+export class RpcTransportError extends Error {
+  constructor(message: string, readonly delivered: boolean) {
+    super(message);
+    this.name = "RpcTransportError";
+  }
+}
+
+/** RPC endpoint as HTTP(S); defaults to FAUCET_RPC_URL or RPC_WS (same env as /api/config) */
+export function rpcHttpUrl(url?: string): string | null {
+  const raw = (url || process.env.FAUCET_RPC_URL || process.env.RPC_WS || "").trim();
+  if (!raw) return null;
+  return raw.replace(/^ws(s?):\/\//i, "http$1://");
+}
+
+// connect-time failures: the node never saw the request
+const NOT_SENT_CODES = new Set(["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN", "EHOSTUNREACH", "ENETUNREACH"]);
+
+/**
+ * Send calls as one JSON-RPC batch; outcomes come back in call order.
+ * Throws RpcTransportError when the batch as a whole fails.
+ */
+export async function rpcBatch<T = unknown>(
+  url: string,
+  calls: RpcCall[],
+  timeoutMs = 30_000
+): Promise<RpcOutcome<T>[]> {
+  if (!calls.length) return [];
+  const payload = calls.map((c, i) => ({ jsonrpc: "2.0", id: i + 1, method: c.method, params: c.params ?? [] }));
+
+  const ctl = new AbortController();
+  const timer = setTimeout(() => ctl.abort(), timeoutMs);
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify(payload),
+      signal: ctl.signal,
+    });
+  } catch (err: any) {
+    const code = err?.cause?.code as string | undefined;
+    throw new RpcTransportError(
+      `[rpc] ${code || err?.name || "fetch_failed"}: ${String(err?.message || err)}`,
+      !(code && NOT_SENT_CODES.has(code))
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!res.ok) throw new RpcTransportError(`[rpc] http ${res.status} ${res.statusText}`, true);
+
+  const json = (await res.json().catch(() => undefined)) as any;
+  const list: any[] = Array.isArray(json) ? json : json ? [json] : [];
+  const byId = new Map<number, any>(list.map((r) => [Number(r?.id), r]));
+
+  return payload.map(({ id }) => {
+    const r = byId.get(id);
+    if (!r) return { ok: false, error: null, reason: json === undefined ? "unparseable response" : "missing response" };
+    if (r.error) {
+      return {
+        ok: false,
+        error: { code: Number(r.error.code) || -32603, message: String(r.error.message || "error"), data: r.error.data },
+      };
+    }
+    return { ok: true, result: r.result as T };
+  });
+}
+
+/** Single call convenience; throws on RPC errors. */
+export async function rpcCall<T = unknown>(url: string, method: string, params?: RpcCall["params"]) {
+  const [out] = await rpcBatch<T>(url, [{ method, params }]);
+  if (!out.ok) {
+    throw new Error(`[rpc] ${method} failed: ${out.error ? `${out.error.code} ${out.error.message}` : out.reason}`);
+  }
+  return out.result;
+}
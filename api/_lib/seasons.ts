@@ -0,0 +1,180 @@
+// api/_lib/seasons.ts
+// Leaderboard seasons: named [starts_at, ends_at) ranges with their own
+// weights and eligible kinds, defined server-side (scripts/season.ts).
+// While open, a season is ranked live by scoresQuery; closeSeason snapshots
+// the final ranking into leaderboard_standing and the board is served from
+// that snapshot from then on, so later events can't move it.
+import { sql, type SQL } from "drizzle-orm";
+import type { SqlExecutor } from "../../db/types.js";
+import type {
+  ISODateString,
+  LeaderboardSeasonInfo,
+  LeaderboardSeasonStatus,
+  ReferralKind,
+} from "../../types/api.js";
+import { getRows } from "./http.js";
+import { scoresQuery, type Scoring } from "./leaderboard.js";
+
+export type Season = {
+  id: string;
+  slug: string;
+  name: string;
+  startsAt: Date;
+  endsAt: Date;
+  closedAt: Date | null;
+  status: LeaderboardSeasonStatus;
+  scoring: Scoring;
+};
+
+export type CloseResult =
+  | { ok: true; standings: number }
+  | { ok: false; code: "NOT_FOUND" | "ALREADY_CLOSED" | "NOT_ENDED" };
+
+type SeasonDbRow = {
+  id: string;
+  slug: string;
+  name: string;
+  starts_at: string | Date;
+  ends_at: string | Date;
+  closed_at: string | Date | null;
+  status: LeaderboardSeasonStatus;
+  kinds: string;
+  weight_signup: number;
+  weight_verified: number;
+  weight_click: number;
+};
+
+const SEASON_COLUMNS = sql`
+  id::text AS id, slug, name, starts_at, ends_at, closed_at,
+  CASE WHEN closed_at IS NOT NULL THEN 'closed'
+       WHEN now() < starts_at     THEN 'upcoming'
+       WHEN now() < ends_at       THEN 'live'
+       ELSE 'ended' END AS status,
+  array_to_string(eligible_kinds, ',') AS kinds,
+  weight_signup, weight_verified, weight_click
+`;
+
+function toSeason(r: SeasonDbRow): Season {
+  return {
+    id: r.id,
+    slug: r.slug,
+    name: r.name,
+    startsAt: new Date(r.starts_at),
+    endsAt: new Date(r.ends_at),
+    closedAt: r.closed_at ? new Date(r.closed_at) : null,
+    status: r.status,
+    scoring: {
+      weights: { signup: r.weight_signup, verified: r.weight_verified, click: r.weight_click },
+      kinds: r.kinds ? (r.kinds.split(",") as ReferralKind[]) : [],
+    },
+  };
+}
+
+export async function getSeason(db: SqlExecutor, slug: string): Promise<Season | null> {
+  const q = sql<SeasonDbRow>`SELECT ${SEASON_COLUMNS} FROM leaderboard_season WHERE slug = ${slug}`;
+  const row = getRows<SeasonDbRow>(await db.execute(q))[0];
+  return row ? toSeason(row) : null;
+}
+
+export async function listSeasons(db: SqlExecutor): Promise<Season[]> {
+  const q = sql<SeasonDbRow>`SELECT ${SEASON_COLUMNS} FROM leaderboard_season ORDER BY starts_at DESC, id DESC`;
+  return getRows<SeasonDbRow>(await db.execute(q)).map(toSeason);
+}
+
+export async function createSeason(
+  db: SqlExecutor,
+  input: { slug: string; name: string; startsAt: Date; endsAt: Date } & Scoring
+): Promise<Season> {
+  const kinds = `{${input.kinds.join(",")}}`;
+  const q = sql<SeasonDbRow>`
+    INSERT INTO leaderboard_season
+      (slug, name, starts_at, ends_at, eligible_kinds, weight_signup, weight_verified, weight_click)
+    VALUES (${input.slug}, ${input.name}, ${input.startsAt.toISOString()}, ${input.endsAt.toISOString()},
+            ${kinds}::referral_kind[], ${input.weights.signup}, ${input.weights.verified}, ${input.weights.click})
+    RETURNING ${SEASON_COLUMNS}
+  `;
+  return toSeason(getRows<SeasonDbRow>(await db.execute(q))[0]);
+}
+
+/** Public description for the leaderboard response */
+export function seasonInfo(season: Season): LeaderboardSeasonInfo {
+  return {
+    slug: season.slug,
+    name: season.name,
+    startsAt: season.startsAt.toISOString() as ISODateString,
+    endsAt: season.endsAt.toISOString() as ISODateString,
+    status: season.status,
+    closedAt: season.closedAt ? (season.closedAt.toISOString() as ISODateString) : null,
+    eligibleKinds: season.scoring.kinds,
+  };
+}
+
+/** Live ranking over the season's range (bounds read from the row, so no precision loss) */
+function liveScores(season: Season): SQL {
+  const bound = (col: SQL) => sql`(SELECT ${col} FROM leaderboard_season WHERE id = ${season.id})`;
+  return scoresQuery({ since: bound(sql`starts_at`), until: bound(sql`ends_at`) }, season.scoring);
+}
+
+/**
+ * Frozen ranking with the same columns as scoresQuery. `id` is the frozen
+ * rank: it orders exactly like the original tie-break, so cursors still work.
+ */
+function frozenScores(season: Season): SQL {
+  return sql`
+    SELECT rank::text AS id,
+           referral_code,
+           name,
+           to_timestamp(created_us / 1000000.0) AS created_at,
+           created_us::text AS created_us,
+           signups,
+           verified,
+           clicks,
+           round(signups::numeric / NULLIF(clicks, 0), 4)::float8 AS conversion,
+           points,
+           rank,
+           COUNT(*) OVER ()::int AS total
+      FROM leaderboard_standing
+     WHERE season_id = ${season.id}
+  `;
+}
+
+/** Ranked rows for a season: the snapshot once closed, live otherwise. Use as a CTE. */
+export function seasonScores(season: Season): SQL {
+  return season.closedAt ? frozenScores(season) : liveScores(season);
+}
+
+/**
+ * Snapshot the final standings and mark the season closed, in one statement.
+ * Refuses seasons that haven't ended unless `force` (closing early).
+ */
+export async function closeSeason(db: SqlExecutor, slug: string, opts: { force?: boolean } = {}): Promise<CloseResult> {
+  const season = await getSeason(db, slug);
+  if (!season) return { ok: false, code: "NOT_FOUND" };
+  if (season.closedAt) return { ok: false, code: "ALREADY_CLOSED" };
+  if (season.status !== "ended" && !opts.force) return { ok: false, code: "NOT_ENDED" };
+
+  // closed_at IS NULL under FOR UPDATE: a concurrent close snapshots nothing
+  const q = sql<{ closed: number; standings: number }>`
+    WITH season AS (
+      SELECT id FROM leaderboard_season
+       WHERE id = ${season.id} AND closed_at IS NULL
+       FOR UPDATE
+    ), s AS (${liveScores(season)}),
+    ins AS (
+      INSERT INTO leaderboard_standing
+        (season_id, rank, user_id, referral_code, name, signups, verified, clicks, points, created_us)
+      SELECT season.id, s.rank, s.id::bigint, s.referral_code, s.name,
+             s.signups, s.verified, s.clicks, s.points, s.created_us::bigint
+        FROM s, season
+      RETURNING 1
+    ), upd AS (
+      UPDATE leaderboard_season SET closed_at = now()
+       WHERE id IN (SELECT id FROM season)
+      RETURNING 1
+    )
+    SELECT (SELECT COUNT(*) FROM upd)::int AS closed, (SELECT COUNT(*) FROM ins)::int AS standings
+  `;
+  const row = getRows<{ closed: number; standings: number }>(await db.execute(q))[0];
+  if (!row?.closed) return { ok: false, code: "ALREADY_CLOSED" };
+  return { ok: true, standings: row.standings };
+}
@@ -0,0 +1,111 @@
+// api/_lib/session.ts
+// Passwordless login (api/auth/*). A login link carries a single-use "login"
+// token; exchanging it starts a session: a reusable "session" token in an
+// HttpOnly cookie. Both are auth_token rows (tokens.ts), so logout and
+// scripts/revoke-tokens.ts revoke them like any other token.
+//
+// The cookie is SameSite=Lax by default (same-site frontends). A frontend on
+// another site needs SESSION_COOKIE_SAMESITE=None and its origin listed in
+// CORS_ALLOWED_ORIGINS; see setCorsHeaders({ credentials: true }).
+import { createHash } from "node:crypto";
+import type { VercelRequest } from "@vercel/node";
+import type { SqlExecutor } from "../../db/types.js";
+import { appUrl } from "./http.js";
+import { enqueueEmail } from "./outbox.js";
+import { resolveLocale } from "./templates/index.js";
+import { issueToken } from "./tokens.js";
+
+export const SESSION_COOKIE = "qtr_session";
+export const SESSION_TTL_S = 30 * 24 * 60 * 60;
+export const LOGIN_TTL_S = 15 * 60;
+
+const SAME_SITE = ["Lax", "Strict", "None"].find(
+  (v) => v.toLowerCase() === (process.env.SESSION_COOKIE_SAMESITE ?? "").toLowerCase()
+) ?? "Lax";
+
+/**
+ * Same-origin path to land on after login or email verification; anything
+ * else falls back to null. URL parsing drops tabs and newlines, so "/\t/x"
+ * would become "//x": control characters are rejected too.
+ */
+export function safeNextPath(next: unknown): string | null {
+  if (typeof next !== "string" || !next.startsWith("/") || next.startsWith("//") || /[\\\x00-\x1f\x7f]/.test(next)) {
+    return null;
+  }
+  return next.length <= 512 ? next : null;
+}
+
+/**
+ * Revoke earlier login links and queue a fresh one (15 minute expiry) in the
+ * outbox. Returns the outbox id.
+ */
+export async function queueLoginEmail(
+  db: SqlExecutor,
+  user: { id: string; email: string; locale?: string | null },
+  opts: { next?: string | null } = {}
+): Promise<string | null> {
+  const { token } = await issueToken(db, {
+    userId: user.id,
+    email: user.email,
+    purpose: "login",
+    ttlSeconds: LOGIN_TTL_S,
+    revokePrevious: true,
+  });
+  const link = appUrl("/api/auth/callback");
+  link.searchParams.set("token", token);
+  if (opts.next) link.searchParams.set("next", opts.next);
+
+  const tokenHash = createHash("sha256").update(token).digest("hex").slice(0, 32);
+  return enqueueEmail(db, {
+    userId: user.id,
+    kind: "login-link",
+    to: user.email,
+    locale: resolveLocale(user.locale),
+    payload: { link: link.toString(), minutes: LOGIN_TTL_S / 60 },
+    idempotencyKey: `login-link:${user.id}:${tokenHash}`,
+  });
+}
+
+/** Sign a session token for a user who just proved they own the inbox */
+export async function startSession(db: SqlExecutor, user: { id: string; email: string }) {
+  return issueToken(db, {
+    userId: user.id,
+    email: user.email,
+    purpose: "session",
+    ttlSeconds: SESSION_TTL_S,
+  });
+}
+
+function cookie(value: string, maxAgeSeconds: number): string {
+  const parts = [
+    `${SESSION_COOKIE}=${value}`,
+    "Path=/",
+    `Max-Age=${maxAgeSeconds}`,
+    "HttpOnly",
+    "Secure",
+    `SameSite=${SAME_SITE}`,
+  ];
+  if (process.env.SESSION_COOKIE_DOMAIN) parts.push(`Domain=${process.env.SESSION_COOKIE_DOMAIN}`);
+  return parts.join("; ");
+}
+
+/** Set-Cookie value for a new session */
+export function sessionCookie(token: string, expiresAt: Date): string {
+  return cookie(token, Math.max(0, Math.floor((expiresAt.getTime() - Date.now()) / 1000)));
+}
+
+/** Set-Cookie value that deletes the session cookie */
+export function clearedSessionCookie(): string {
+  return cookie("", 0);
+}
+
+/** The session token from the Cookie header, if any */
+export function readSessionCookie(req: VercelRequest): string | undefined {
+  for (const part of (req.headers.cookie ?? "").split(";")) {
+    const eq = part.indexOf("=");
+    if (eq > 0 && part.slice(0, eq).trim() === SESSION_COOKIE) {
+      return part.slice(eq + 1).trim() || undefined;
+    }
+  }
+  return undefined;
+}
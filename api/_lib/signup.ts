@@ -0,0 +1,43 @@
+// api/_lib/signup.ts
+// The waitlist form's fields (api/waitlist.ts). The bulk import
+// (user-import.ts) validates each row with the same schema, so an imported
+// signup passes exactly the checks a form signup does, Turnstile aside.
+import { z } from "zod";
+import { PROFILE_RULES } from "./profile.js";
+
+export const SignupSchema = z.object({
+  email: z.string().min(3).max(254),       // format checked by normalizeEmail (handles IDN)
+  role: PROFILE_RULES.role,               // profile fields share PATCH /api/profile's rules
+  experience: PROFILE_RULES.experience.optional(),
+  discord: PROFILE_RULES.discord.optional(),
+  github: PROFILE_RULES.github.optional(),
+  country: PROFILE_RULES.country.optional(),
+  locale: PROFILE_RULES.locale.optional(), // else Accept-Language
+  referral: z.string().max(64).optional(),
+  referral_auto: z.string().max(64).optional(),
+  utm_source: z.string().max(64).optional(),
+  utm_medium: z.string().max(64).optional(),
+  utm_campaign: z.string().max(64).optional(),
+  utm_content: z.string().max(64).optional(),
+  utm_term: z.string().max(64).optional(),
+  consent_marketing: z.literal("yes").optional(),
+});
+
+export type SignupFields = z.infer<typeof SignupSchema>;
+
+/** user_account.utm for a signup, nulls included (strip them in SQL) */
+export function signupUtm(data: SignupFields) {
+  return {
+    source: data.utm_source ?? null,
+    medium: data.utm_medium ?? null,
+    campaign: data.utm_campaign ?? null,
+    content: data.utm_content ?? null,
+    term: data.utm_term ?? null,
+  };
+}
+
+export function makeReferralCode(email: string) {
+  const seed = email.split("@")[0].replace(/[^a-zA-Z0-9]/g, "").slice(0, 6).toUpperCase();
+  const rand = Math.random().toString(36).slice(2, 6).toUpperCase();
+  return `${seed}${rand}`;
+}
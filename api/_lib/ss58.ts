@@ -0,0 +1,110 @@
+// api/_lib/ss58.ts
+// Minimal SS58 codec (Substrate address format) — enough to validate and
+// build Devnet-0 addresses without pulling in @polkadot/util-crypto.
+import { createHash } from "node:crypto";
+
+/** Devnet-0 network prefix */
+export const QUANTARA_SS58_PREFIX = 73;
+
+const ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+const CHECKSUM_PREFIX = new TextEncoder().encode("SS58PRE");
+const CHECKSUM_LEN = 2;
+
+export type DecodedAddress = {
+  prefix: number;
+  publicKey: Uint8Array; // 32-byte AccountId (or 33-byte compressed ECDSA key)
+};
+
+/* ---- base58 ---------------------------------------------------------------- */
+
+function base58Decode(s: string): Uint8Array | null {
+  let n = 0n;
+  for (const ch of s) {
+    const i = ALPHABET.indexOf(ch);
+    if (i < 0) return null;
+    n = n * 58n + BigInt(i);
+  }
+  const bytes: number[] = [];
+  while (n > 0n) {
+    bytes.unshift(Number(n & 0xffn));
+    n >>= 8n;
+  }
+  // leading '1's are leading zero bytes
+  for (let i = 0; i < s.length && s[i] === "1"; i++) bytes.unshift(0);
+  return Uint8Array.from(bytes);
+}
+
+function base58Encode(bytes: Uint8Array): string {
+  let n = 0n;
+  for (const b of bytes) n = (n << 8n) | BigInt(b);
+  let out = "";
+  while (n > 0n) {
+    out = ALPHABET[Number(n % 58n)] + out;
+    n /= 58n;
+  }
+  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) out = "1" + out;
+  return out;
+}
+
+/* ---- prefix + checksum ----------------------------------------------------- */
+
+function checksum(payload: Uint8Array): Uint8Array {
+  const h = createHash("blake2b512");
+  h.update(CHECKSUM_PREFIX);
+  h.update(payload);
+  return new Uint8Array(h.digest()).subarray(0, CHECKSUM_LEN);
+}
+
+function encodePrefix(prefix: number): Uint8Array {
+  if (prefix < 64) return Uint8Array.of(prefix);
+  // two-byte "full" format for 64..16383
+  return Uint8Array.of(
+    ((prefix & 0b0000_0000_1111_1100) >> 2) | 0b0100_0000,
+    (prefix >> 8) | ((prefix & 0b0000_0000_0000_0011) << 6)
+  );
+}
+
+function decodePrefix(bytes: Uint8Array): { prefix: number; length: number } | null {
+  const b0 = bytes[0];
+  if (b0 === undefined) return null;
+  if (b0 < 64) return { prefix: b0, length: 1 };
+  if (b0 < 128 && bytes.length > 1) {
+    const b1 = bytes[1];
+    const lower = ((b0 << 2) | (b1 >> 6)) & 0xff;
+    const upper = b1 & 0b0011_1111;
+    return { prefix: lower | (upper << 8), length: 2 };
+  }
+  return null;
+}
+
+/* ---- public API ------------------------------------------------------------ */
+
+/** Decode and checksum-verify an SS58 address; null when malformed. */
+export function decodeSs58(address: string): DecodedAddress | null {
+  const raw = base58Decode(address.trim());
+  if (!raw) return null;
+
+  const p = decodePrefix(raw);
+  if (!p) return null;
+
+  const keyLen = raw.length - p.length - CHECKSUM_LEN;
+  if (keyLen !== 32 && keyLen !== 33) return null;
+
+  const payload = raw.subarray(0, raw.length - CHECKSUM_LEN);
+  const expected = checksum(payload);
+  const actual = raw.subarray(raw.length - CHECKSUM_LEN);
+  if (expected[0] !== actual[0] || expected[1] !== actual[1]) return null;
+
+  return { prefix: p.prefix, publicKey: raw.slice(p.length, p.length + keyLen) };
+}
+
+/** Encode a public key as an SS58 address (default: Devnet-0 prefix). */
+export function encodeSs58(publicKey: Uint8Array, prefix = QUANTARA_SS58_PREFIX): string {
+  const payload = new Uint8Array([...encodePrefix(prefix), ...publicKey]);
+  return base58Encode(new Uint8Array([...payload, ...checksum(payload)]));
+}
+
+/** True when `address` is a well-formed SS58 address for the given prefix. */
+export function isValidSs58(address: string, prefix = QUANTARA_SS58_PREFIX): boolean {
+  return decodeSs58(address)?.prefix === prefix;
+}
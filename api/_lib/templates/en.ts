@@ -0,0 +1,119 @@
+// api/_lib/templates/en.ts
+import type { LocaleStrings } from "./types.js";
+
+const ignore = "If you didn’t request this, you can safely ignore this email.";
+
+export const en: LocaleStrings = {
+  layout: {
+    brand: "Quantara Devnet-0",
+    signoff: "— The Quantara team",
+    unsubscribe: "Unsubscribe from Devnet-0 updates",
+  },
+  templates: {
+    "verify-email": {
+      subject: "Confirm your Quantara waitlist",
+      preheader: "One click to lock in your spot.",
+      heading: "Confirm your Quantara waitlist",
+      paragraphs: ["You're almost in! Click the button below to confirm your email and lock in your spot."],
+      cta: { label: "Confirm email", url: "{{link}}" },
+      secondary: { label: "Or paste this link into your browser:", url: "{{link}}" },
+      footer: ignore,
+    },
+    "verify-reminder": {
+      subject: "Your Quantara spot isn’t confirmed yet",
+      preheader: "Confirm your email to keep your place in line.",
+      heading: "Still want in?",
+      paragraphs: [
+        "You joined the Quantara Devnet-0 waitlist but haven’t confirmed your email yet.",
+        "Unconfirmed signups don’t move up the queue and can’t receive faucet access.",
+      ],
+      cta: { label: "Confirm email", url: "{{link}}" },
+      secondary: { label: "Or paste this link into your browser:", url: "{{link}}" },
+      footer: ignore,
+    },
+    "login-link": {
+      subject: "Your Quantara sign-in link",
+      preheader: "Valid for {{minutes}} minutes.",
+      heading: "Sign in to Quantara",
+      paragraphs: [
+        "Click the button below to sign in to your Quantara waitlist account.",
+        "The link works once and expires in {{minutes}} minutes.",
+      ],
+      cta: { label: "Sign in", url: "{{link}}" },
+      secondary: { label: "Or paste this link into your browser:", url: "{{link}}" },
+      footer: ignore,
+    },
+    "email-change": {
+      subject: "Confirm your new email for Quantara",
+      preheader: "One click to switch your waitlist email.",
+      heading: "Confirm your new email",
+      paragraphs: [
+        "Someone (hopefully you) asked to change the email on a Quantara waitlist account to {{email}}.",
+        "Click below to confirm. Your place in line, referral code and points stay the same.",
+      ],
+      cta: { label: "Confirm new email", url: "{{link}}" },
+      secondary: { label: "Or paste this link into your browser:", url: "{{link}}" },
+      footer: ignore,
+    },
+    "referral-milestone": {
+      subject: "{{count}} people joined with your link 🎉",
+      preheader: "Your referral code {{code}} is climbing the board.",
+      heading: "You hit {{count}} referrals",
+      paragraphs: [
+        "{{count}} people have joined the Quantara waitlist with your code {{code}}.",
+        "Keep sharing — every verified signup earns you more points on the leaderboard.",
+      ],
+      cta: { label: "View the leaderboard", url: "{{leaderboardUrl}}" },
+      secondary: { label: "Your share link:", url: "{{shareUrl}}" },
+      footer: "You’re receiving this because you joined the Quantara waitlist.",
+    },
+    "faucet-receipt": {
+      subject: "{{amount}} QTR sent to your Devnet-0 address",
+      preheader: "Faucet payout confirmed.",
+      heading: "Faucet payout sent",
+      paragraphs: [
+        "We sent {{amount}} QTR (testnet) to {{address}}.",
+        "Transaction: {{txHash}}",
+        "Testnet tokens have no monetary value.",
+      ],
+      cta: { label: "View in explorer", url: "{{explorerUrl}}" },
+      footer: "You’re receiving this because you claimed from the Quantara faucet.",
+    },
+    "launch-announcement": {
+      subject: "Quantara Devnet-0 is live",
+      preheader: "Wallet and faucet are open.",
+      heading: "Devnet-0 is live",
+      paragraphs: [
+        "Devnet-0 went live on {{releaseAt}}. The wallet and faucet are open to waitlist members.",
+        "Claim testnet QTR, try the wallet, and tell us what breaks.",
+      ],
+      cta: { label: "Open the faucet", url: "{{faucetUrl}}" },
+      secondary: { label: "Wallet:", url: "{{walletUrl}}" },
+      footer: "You’re receiving this because you joined the Quantara waitlist.",
+    },
+    "cohort-invite": {
+      subject: "You’re in: Quantara Devnet-0 access",
+      preheader: "Your access code for {{cohort}} is inside.",
+      heading: "You’re off the waitlist",
+      paragraphs: [
+        "You’ve been admitted to Quantara Devnet-0 as part of {{cohort}}.",
+        "Your access code is {{code}}. It works once and is tied to your account, so please don’t share it.",
+      ],
+      cta: { label: "Activate access", url: "{{redeemUrl}}" },
+      secondary: { label: "Or paste this link into your browser:", url: "{{redeemUrl}}" },
+      footer: "You’re receiving this because you joined the Quantara waitlist.",
+    },
+    "marketing-confirm": {
+      subject: "Confirm you want Quantara updates",
+      preheader: "One click to get Devnet-0 news by email.",
+      heading: "Keep me posted",
+      paragraphs: [
+        "You asked to receive Devnet-0 updates and early-access news from Quantara.",
+        "Confirm below and we’ll start sending them. You can unsubscribe from any update with one click.",
+      ],
+      cta: { label: "Yes, send me updates", url: "{{link}}" },
+      secondary: { label: "Or paste this link into your browser:", url: "{{link}}" },
+      footer: "If you didn’t ask for updates, ignore this email and you won’t get any.",
+    },
+  },
+};
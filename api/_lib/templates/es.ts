@@ -0,0 +1,119 @@
+// api/_lib/templates/es.ts
+import type { LocaleStrings } from "./types.js";
+
+const ignore = "Si no solicitaste esto, puedes ignorar este correo.";
+
+export const es: LocaleStrings = {
+  layout: {
+    brand: "Quantara Devnet-0",
+    signoff: "— El equipo de Quantara",
+    unsubscribe: "Darte de baja de las novedades de Devnet-0",
+  },
+  templates: {
+    "verify-email": {
+      subject: "Confirma tu lugar en la lista de Quantara",
+      preheader: "Un clic para asegurar tu lugar.",
+      heading: "Confirma tu lugar en la lista de Quantara",
+      paragraphs: ["¡Ya casi estás! Haz clic en el botón para confirmar tu correo y asegurar tu lugar."],
+      cta: { label: "Confirmar correo", url: "{{link}}" },
+      secondary: { label: "O pega este enlace en tu navegador:", url: "{{link}}" },
+      footer: ignore,
+    },
+    "verify-reminder": {
+      subject: "Tu lugar en Quantara aún no está confirmado",
+      preheader: "Confirma tu correo para conservar tu lugar en la fila.",
+      heading: "¿Sigues interesado?",
+      paragraphs: [
+        "Te uniste a la lista de espera de Quantara Devnet-0, pero aún no confirmaste tu correo.",
+        "Los registros sin confirmar no avanzan en la fila ni reciben acceso al faucet.",
+      ],
+      cta: { label: "Confirmar correo", url: "{{link}}" },
+      secondary: { label: "O pega este enlace en tu navegador:", url: "{{link}}" },
+      footer: ignore,
+    },
+    "login-link": {
+      subject: "Tu enlace para iniciar sesión en Quantara",
+      preheader: "Válido durante {{minutes}} minutos.",
+      heading: "Inicia sesión en Quantara",
+      paragraphs: [
+        "Haz clic en el botón para iniciar sesión en tu cuenta de la lista de espera de Quantara.",
+        "El enlace funciona una sola vez y caduca en {{minutes}} minutos.",
+      ],
+      cta: { label: "Iniciar sesión", url: "{{link}}" },
+      secondary: { label: "O pega este enlace en tu navegador:", url: "{{link}}" },
+      footer: ignore,
+    },
+    "email-change": {
+      subject: "Confirma tu nuevo correo para Quantara",
+      preheader: "Un clic para cambiar el correo de tu lista de espera.",
+      heading: "Confirma tu nuevo correo",
+      paragraphs: [
+        "Alguien (esperamos que tú) pidió cambiar el correo de una cuenta de la lista de espera de Quantara a {{email}}.",
+        "Haz clic abajo para confirmarlo. Tu lugar en la fila, tu código de referido y tus puntos no cambian.",
+      ],
+      cta: { label: "Confirmar nuevo correo", url: "{{link}}" },
+      secondary: { label: "O pega este enlace en tu navegador:", url: "{{link}}" },
+      footer: ignore,
+    },
+    "referral-milestone": {
+      subject: "{{count}} personas se unieron con tu enlace 🎉",
+      preheader: "Tu código {{code}} sube en la clasificación.",
+      heading: "Llegaste a {{count}} referidos",
+      paragraphs: [
+        "{{count}} personas se unieron a la lista de Quantara con tu código {{code}}.",
+        "Sigue compartiendo: cada registro verificado te da más puntos en la clasificación.",
+      ],
+      cta: { label: "Ver la clasificación", url: "{{leaderboardUrl}}" },
+      secondary: { label: "Tu enlace para compartir:", url: "{{shareUrl}}" },
+      footer: "Recibes este correo porque te uniste a la lista de espera de Quantara.",
+    },
+    "faucet-receipt": {
+      subject: "{{amount}} QTR enviados a tu dirección de Devnet-0",
+      preheader: "Pago del faucet confirmado.",
+      heading: "Pago del faucet enviado",
+      paragraphs: [
+        "Enviamos {{amount}} QTR (testnet) a {{address}}.",
+        "Transacción: {{txHash}}",
+        "Los tokens de testnet no tienen valor monetario.",
+      ],
+      cta: { label: "Ver en el explorador", url: "{{explorerUrl}}" },
+      footer: "Recibes este correo porque reclamaste del faucet de Quantara.",
+    },
+    "launch-announcement": {
+      subject: "Quantara Devnet-0 ya está en vivo",
+      preheader: "La billetera y el faucet están abiertos.",
+      heading: "Devnet-0 está en vivo",
+      paragraphs: [
+        "Devnet-0 se lanzó el {{releaseAt}}. La billetera y el faucet están abiertos para quienes están en la lista.",
+        "Reclama QTR de testnet, prueba la billetera y cuéntanos qué falla.",
+      ],
+      cta: { label: "Abrir el faucet", url: "{{faucetUrl}}" },
+      secondary: { label: "Billetera:", url: "{{walletUrl}}" },
+      footer: "Recibes este correo porque te uniste a la lista de espera de Quantara.",
+    },
+    "cohort-invite": {
+      subject: "Ya tienes acceso a Quantara Devnet-0",
+      preheader: "Dentro está tu código de acceso para {{cohort}}.",
+      heading: "Saliste de la lista de espera",
+      paragraphs: [
+        "Te admitimos en Quantara Devnet-0 como parte de {{cohort}}.",
+        "Tu código de acceso es {{code}}. Funciona una sola vez y está vinculado a tu cuenta, así que no lo compartas.",
+      ],
+      cta: { label: "Activar acceso", url: "{{redeemUrl}}" },
+      secondary: { label: "O pega este enlace en tu navegador:", url: "{{redeemUrl}}" },
+      footer: "Recibes este correo porque te uniste a la lista de espera de Quantara.",
+    },
+    "marketing-confirm": {
+      subject: "Confirma que quieres recibir novedades de Quantara",
+      preheader: "Un clic para recibir noticias de Devnet-0 por correo.",
+      heading: "Mantenme al tanto",
+      paragraphs: [
+        "Pediste recibir novedades de Devnet-0 y noticias de acceso anticipado de Quantara.",
+        "Confirma abajo y empezaremos a enviarlas. Puedes darte de baja desde cualquier correo con un clic.",
+      ],
+      cta: { label: "Sí, quiero novedades", url: "{{link}}" },
+      secondary: { label: "O pega este enlace en tu navegador:", url: "{{link}}" },
+      footer: "Si no pediste novedades, ignora este correo y no recibirás ninguna.",
+    },
+  },
+};
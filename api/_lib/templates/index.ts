@@ -0,0 +1,101 @@
+// api/_lib/templates/index.ts
+// Transactional email templates: renderEmail("verify-email", "es", { link })
+import { en } from "./en.js";
+import { es } from "./es.js";
+import { layoutHtml, layoutText } from "./layout.js";
+import type { Locale, LocaleStrings, RenderedEmail, TemplateName, TemplateStrings } from "./types.js";
+
+export type { Locale, RenderedEmail, TemplateName } from "./types.js";
+
+const LOCALES: Record<Locale, LocaleStrings> = { en, es };
+
+export const SUPPORTED_LOCALES = Object.keys(LOCALES) as Locale[];
+export const DEFAULT_LOCALE: Locale = "en";
+export const TEMPLATE_NAMES = Object.keys(en.templates) as TemplateName[];
+
+/**
+ * Sent only to users with confirmed marketing consent (the outbox suppresses
+ * the rest) and carrying a visible unsubscribe link. Everything else is
+ * transactional: a direct response to something the user did.
+ */
+export const MARKETING_TEMPLATES: readonly TemplateName[] = ["referral-milestone", "launch-announcement"];
+
+export type TemplateVars = Record<string, string | number>;
+
+export function isLocale(v: unknown): v is Locale {
+  return typeof v === "string" && (SUPPORTED_LOCALES as string[]).includes(v);
+}
+
+export function isTemplateName(v: unknown): v is TemplateName {
+  return typeof v === "string" && (TEMPLATE_NAMES as string[]).includes(v);
+}
+
+export function isMarketingTemplate(name: TemplateName): boolean {
+  return MARKETING_TEMPLATES.includes(name);
+}
+
+/**
+ * Pick a supported locale from an explicit value ("es", "es-MX") or an
+ * Accept-Language header, falling back to English.
+ */
+export function resolveLocale(...candidates: (string | null | undefined)[]): Locale {
+  for (const c of candidates) {
+    if (!c) continue;
+    // "es-MX,es;q=0.9,en;q=0.8" → ["es-MX", "es", "en"] in q order
+    const tags = c
+      .split(",")
+      .map((part) => {
+        const [tag, ...params] = part.trim().split(";");
+        const q = params.find((p) => p.trim().startsWith("q="));
+        return { tag: tag.trim().toLowerCase(), q: q ? Number(q.trim().slice(2)) || 0 : 1 };
+      })
+      .filter((t) => t.tag && t.q > 0)
+      .sort((a, b) => b.q - a.q);
+    for (const { tag } of tags) {
+      const base = tag.split("-")[0];
+      if (isLocale(base)) return base;
+    }
+  }
+  return DEFAULT_LOCALE;
+}
+
+function fill(s: string, vars: TemplateVars, name: TemplateName): string {
+  return s.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => {
+    const v = vars[key];
+    if (v === undefined || v === null) throw new Error(`[email] template ${name} needs {{${key}}}`);
+    return String(v);
+  });
+}
+
+function fillAll(t: TemplateStrings, vars: TemplateVars, name: TemplateName): TemplateStrings {
+  const f = (s: string) => fill(s, vars, name);
+  return {
+    subject: f(t.subject),
+    preheader: t.preheader && f(t.preheader),
+    heading: f(t.heading),
+    paragraphs: t.paragraphs.map(f),
+    cta: t.cta && { label: f(t.cta.label), url: f(t.cta.url) },
+    secondary: t.secondary && { label: f(t.secondary.label), url: f(t.secondary.url) },
+    footer: f(t.footer),
+  };
+}
+
+/**
+ * Render subject + text + HTML. Throws if a placeholder has no value.
+ * `unsubscribeUrl` adds the footer link (marketing templates only).
+ */
+export function renderEmail(
+  name: TemplateName,
+  locale: Locale | string | null | undefined,
+  vars: TemplateVars,
+  opts: { unsubscribeUrl?: string } = {}
+): RenderedEmail {
+  const strings = LOCALES[isLocale(locale) ? locale : DEFAULT_LOCALE];
+  const t = fillAll(strings.templates[name], vars, name);
+  const unsubscribe =
+    opts.unsubscribeUrl && isMarketingTemplate(name)
+      ? { label: strings.layout.unsubscribe, url: opts.unsubscribeUrl }
+      : undefined;
+  const input = { ...t, brand: strings.layout.brand, signoff: strings.layout.signoff, unsubscribe };
+  return { subject: t.subject, text: layoutText(input), html: layoutHtml(input) };
+}
@@ -0,0 +1,66 @@
+// api/_lib/templates/layout.ts
+// Shared email chrome. Callers pass strings that already had their {{vars}}
+// substituted; everything is escaped here, so locale files stay plain text.
+import type { TemplateStrings } from "./types.js";
+
+export type LayoutInput = TemplateStrings & {
+  brand: string;
+  signoff: string;
+  /** footer link on marketing mail */
+  unsubscribe?: { label: string; url: string };
+};
+
+export const esc = (s: string) =>
+  s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+export function layoutHtml(t: LayoutInput) {
+  const preheader = t.preheader
+    ? `<div style="display:none;max-height:0;overflow:hidden;opacity:0">${esc(t.preheader)}</div>`
+    : "";
+  const paragraphs = t.paragraphs
+    .map((p) => `<p style="margin:0 0 16px 0;">${esc(p)}</p>`)
+    .join("\n    ");
+  const cta = t.cta
+    ? `<p style="margin:20px 0;">
+      <a href="${esc(t.cta.url)}"
+         style="display:inline-block;background:#111827;color:#f9fafb;text-decoration:none;padding:10px 16px;border-radius:8px;font-weight:600"
+         target="_blank" rel="noopener">${esc(t.cta.label)}</a>
+    </p>`
+    : "";
+  const secondary = t.secondary
+    ? `<p style="margin:16px 0 0 0;font-size:14px;color:#4b5563;">${esc(t.secondary.label)}</p>
+    <p style="margin:4px 0 0 0;font-size:13px;"><a href="${esc(t.secondary.url)}" target="_blank" rel="noopener">${esc(t.secondary.url)}</a></p>`
+    : "";
+  const unsubscribe = t.unsubscribe
+    ? `<p style="font-size:12px;color:#6b7280;margin:0 0 8px 0;"><a href="${esc(t.unsubscribe.url)}" style="color:#6b7280" target="_blank" rel="noopener">${esc(t.unsubscribe.label)}</a></p>`
+    : "";
+
+  return `
+  ${preheader}
+  <div style="font-family:system-ui,-apple-system,Segoe UI,Roboto,Helvetica,Arial,sans-serif;max-width:560px;line-height:1.5;color:#0b0c0c">
+    <h2 style="margin:0 0 12px 0;font-weight:700;">${esc(t.heading)}</h2>
+    ${paragraphs}
+    ${cta}
+    ${secondary}
+    <hr style="border:none;border-top:1px solid #e5e7eb;margin:20px 0" />
+    <p style="font-size:12px;color:#6b7280;margin:0 0 8px 0;">${esc(t.footer)}</p>
+    ${unsubscribe}
+    <p style="font-size:12px;color:#6b7280;margin:0;">${esc(t.signoff)} · ${esc(t.brand)}</p>
+  </div>
+  `;
+}
+
+export function layoutText(t: LayoutInput) {
+  const parts = [t.heading, ...t.paragraphs];
+  if (t.cta) parts.push(`${t.cta.label}: ${t.cta.url}`);
+  if (t.secondary && t.secondary.url !== t.cta?.url) parts.push(`${t.secondary.label} ${t.secondary.url}`);
+  parts.push("--", t.footer);
+  if (t.unsubscribe) parts.push(`${t.unsubscribe.label}: ${t.unsubscribe.url}`);
+  parts.push(`${t.signoff} · ${t.brand}`);
+  return parts.join("\n\n") + "\n";
+}
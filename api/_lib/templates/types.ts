@@ -0,0 +1,38 @@
+// api/_lib/templates/types.ts
+
+export type TemplateName =
+  | "verify-email"
+  | "verify-reminder"
+  | "login-link"
+  | "email-change"
+  | "referral-milestone"
+  | "faucet-receipt"
+  | "launch-announcement"
+  | "cohort-invite"
+  | "marketing-confirm";
+
+export type Locale = "en" | "es";
+
+/**
+ * One template in one locale. Every string may use {{var}} placeholders;
+ * values are HTML-escaped in the HTML part and inserted as-is in the text part.
+ * Strings themselves are plain text — markup comes only from the layout.
+ */
+export type TemplateStrings = {
+  subject: string;
+  preheader?: string;        // inbox preview line (hidden in the body)
+  heading: string;
+  paragraphs: string[];
+  cta?: { label: string; url: string };
+  /** plain link under the CTA, e.g. a copy/paste fallback */
+  secondary?: { label: string; url: string };
+  footer: string;
+};
+
+export type LocaleStrings = {
+  /** shared layout bits */
+  layout: { brand: string; signoff: string; unsubscribe: string };
+  templates: Record<TemplateName, TemplateStrings>;
+};
+
+export type RenderedEmail = { subject: string; text: string; html: string };
@@ -0,0 +1,140 @@
+// api/_lib/tokens.ts
+// Server-tracked JWTs. Every token we sign gets an auth_token row keyed by its
+// jti, so it can be consumed once, revoked, and told apart when it fails:
+// TOKEN_INVALID (bad signature / unknown jti), TOKEN_EXPIRED, TOKEN_USED, TOKEN_REVOKED.
+import { errors, type JWTPayload } from "jose";
+import { randomUUID } from "node:crypto";
+import { sql } from "drizzle-orm";
+import type { SqlExecutor } from "../../db/types.js";
+import { getRows } from "./http.js";
+import { signJwt, verifyJwt } from "./keyring.js";
+
+/**
+ * email-verify, login, email-change, marketing-confirm: single use (consumeToken)
+ * dashboard: reusable bearer; session: reusable cookie (authenticateToken)
+ */
+export type TokenPurpose = "email-verify" | "login" | "email-change" | "marketing-confirm" | "dashboard" | "session";
+export type TokenErrorCode = "TOKEN_INVALID" | "TOKEN_EXPIRED" | "TOKEN_USED" | "TOKEN_REVOKED";
+export type TokenClaims = { sub: string; email: string; typ: TokenPurpose; jti: string };
+
+export class TokenError extends Error {
+  constructor(readonly code: TokenErrorCode, message: string) {
+    super(message);
+    this.name = "TokenError";
+  }
+}
+
+const JWT_OPTS = { issuer: "quantara", audience: "user" } as const;
+
+/**
+ * Record and sign a token. With `revokePrevious`, every still-usable token of
+ * the same purpose for this user is revoked first, so only the newest works.
+ */
+export async function issueToken(
+  db: SqlExecutor,
+  input: { userId: string; email: string; purpose: TokenPurpose; ttlSeconds: number; revokePrevious?: boolean }
+): Promise<{ token: string; jti: string; expiresAt: Date }> {
+  if (input.revokePrevious) {
+    await revokeTokens(db, { userId: input.userId, purpose: input.purpose });
+  }
+
+  const jti = randomUUID();
+  const expiresAt = new Date(Date.now() + input.ttlSeconds * 1000);
+  await db.execute(sql`
+    INSERT INTO auth_token (jti, purpose, user_id, expires_at)
+    VALUES (${jti}, ${input.purpose}, ${input.userId}, ${expiresAt.toISOString()})
+  `);
+
+  const token = await signJwt({ email: input.email, typ: input.purpose }, {
+    ...JWT_OPTS,
+    subject: input.userId,
+    jti,
+    expiresInSeconds: input.ttlSeconds,
+  });
+  return { token, jti, expiresAt };
+}
+
+/** Check signature (via the keyring), expiry and purpose only (no DB); throws TokenError. */
+export async function verifyToken(token: string, purpose: TokenPurpose): Promise<TokenClaims> {
+  let payload: JWTPayload;
+  try {
+    payload = await verifyJwt(token, JWT_OPTS);
+  } catch (err) {
+    if (err instanceof errors.JWTExpired) throw new TokenError("TOKEN_EXPIRED", "This link has expired");
+    throw new TokenError("TOKEN_INVALID", "Invalid token");
+  }
+  // tokens issued before auth_token existed carry no jti and are no longer honoured
+  if (!payload.sub || !payload.jti || payload.typ !== purpose) {
+    throw new TokenError("TOKEN_INVALID", "Invalid token");
+  }
+  return { sub: String(payload.sub), email: String(payload.email), typ: purpose, jti: payload.jti };
+}
+
+/** Verify and mark the token used, atomically; a second call throws TOKEN_USED. */
+export async function consumeToken(db: SqlExecutor, token: string, purpose: TokenPurpose): Promise<TokenClaims> {
+  const claims = await verifyToken(token, purpose);
+
+  const consumeQ = sql<{ jti: string }>`
+    UPDATE auth_token
+       SET consumed_at = now()
+     WHERE jti = ${claims.jti}
+       AND purpose = ${purpose}
+       AND user_id = ${claims.sub}
+       AND consumed_at IS NULL
+       AND revoked_at IS NULL
+       AND expires_at > now()
+ RETURNING jti::text AS jti
+  `;
+  if (getRows(await db.execute(consumeQ)).length) return claims;
+
+  // Work out why, so callers can show the right message
+  const rowQ = sql<{ consumed: boolean; revoked: boolean; expired: boolean }>`
+    SELECT consumed_at IS NOT NULL AS consumed,
+           revoked_at IS NOT NULL  AS revoked,
+           expires_at <= now()     AS expired
+      FROM auth_token
+     WHERE jti = ${claims.jti} AND purpose = ${purpose} AND user_id = ${claims.sub}
+  `;
+  const row = getRows<{ consumed: boolean; revoked: boolean; expired: boolean }>(await db.execute(rowQ))[0];
+  if (!row) throw new TokenError("TOKEN_INVALID", "Invalid token");
+  if (row.consumed) throw new TokenError("TOKEN_USED", "This link has already been used");
+  if (row.revoked) throw new TokenError("TOKEN_REVOKED", "This link was replaced or revoked");
+  throw new TokenError("TOKEN_EXPIRED", "This link has expired");
+}
+
+/** Verify a reusable token and check it hasn't expired or been revoked server-side. */
+export async function authenticateToken(db: SqlExecutor, token: string, purpose: TokenPurpose): Promise<TokenClaims> {
+  const claims = await verifyToken(token, purpose);
+  const q = sql<{ revoked: boolean; expired: boolean }>`
+    SELECT revoked_at IS NOT NULL AS revoked, expires_at <= now() AS expired
+      FROM auth_token
+     WHERE jti = ${claims.jti} AND purpose = ${purpose} AND user_id = ${claims.sub}
+  `;
+  const row = getRows<{ revoked: boolean; expired: boolean }>(await db.execute(q))[0];
+  if (!row) throw new TokenError("TOKEN_INVALID", "Invalid token");
+  if (row.revoked) throw new TokenError("TOKEN_REVOKED", "This token was revoked");
+  if (row.expired) throw new TokenError("TOKEN_EXPIRED", "This token has expired");
+  return claims;
+}
+
+/** Revoke still-usable tokens by jti or by user (optionally one purpose); returns the count. */
+export async function revokeTokens(
+  db: SqlExecutor,
+  by: { jti: string } | { userId: string; purpose?: TokenPurpose }
+): Promise<number> {
+  const where =
+    "jti" in by
+      ? sql`jti = ${by.jti}`
+      : by.purpose
+        ? sql`user_id = ${by.userId} AND purpose = ${by.purpose}`
+        : sql`user_id = ${by.userId}`;
+  const q = sql<{ jti: string }>`
+    UPDATE auth_token
+       SET revoked_at = now()
+     WHERE ${where}
+       AND consumed_at IS NULL
+       AND revoked_at IS NULL
+ RETURNING jti::text AS jti
+  `;
+  return getRows(await db.execute(q)).length;
+}
@@ -1,4 +1,6 @@
 // api/_lib/turnstile.ts
+// Cloudflare Turnstile siteverify, shared by api/verify-turnstile.ts and the
+// waitlist form. Outside production the token TEST_BYPASS always passes.
 
 export type TurnstileVerifyResult = {
   success: boolean;
@@ -21,12 +23,15 @@ export async function verifyTurnstile(
   opts: VerifyOpts = {}
 ): Promise<TurnstileVerifyResult> {
   const { ip, minScore, allowDevBypass = true } = opts;
-  const secret = process.env.TURNSTILE_SECRET_KEY;
+  const secret = process.env.TURNSTILE_SECRET_KEY || process.env.TURNSTILE_SECRET;
 
   // basic input check
   if (!token) {
     return { success: false, reason: "missing-token" };
   }
+  if (process.env.NODE_ENV !== "production" && token === "TEST_BYPASS") {
+    return { success: true, score: 1, reason: "test-bypass" };
+  }
 
   // Dev convenience: if no secret and not production, optionally bypass
   if (!secret) {
@@ -75,3 +80,12 @@ export async function verifyTurnstile(
     return { success: false, reason: `exception:${String(err?.message || err)}` };
   }
 }
+
+/** The widget's token under any of the field names the forms have used */
+export function turnstileTokenFrom(body: Record<string, unknown>): string | undefined {
+  for (const key of ["cf-turnstile-response", "cf_turnstile_response", "turnstileToken", "token"]) {
+    const v = body[key];
+    if (typeof v === "string" && v) return v;
+  }
+  return undefined;
+}
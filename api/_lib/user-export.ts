@@ -0,0 +1,131 @@
+// api/_lib/user-export.ts
+// The waitlist as CSV or NDJSON (api/admin/export.ts, scripts/users.ts).
+// Rows are read in id order, a batch at a time, so the caller can stream
+// them out without holding the whole list. Column names match the import
+// (user-import.ts), so an export can be edited and fed back in.
+import { sql, type SQL } from "drizzle-orm";
+import type { SqlExecutor } from "../../db/types.js";
+import type {
+  AdminExportFormat,
+  AdminUserExportFilter,
+  AdminUserExportRow,
+  ISODateString,
+} from "../../types/api.js";
+import { csvLine } from "./csv.js";
+import { getRows } from "./http.js";
+
+export const EXPORT_FORMATS: readonly AdminExportFormat[] = ["csv", "ndjson"];
+
+export const EXPORT_COLUMNS: readonly (keyof AdminUserExportRow)[] = [
+  "id", "email", "email_verified", "role", "experience", "discord", "github", "country", "locale",
+  "referral_code", "referred_by", "queue_position",
+  "utm_source", "utm_medium", "utm_campaign", "utm_content", "utm_term",
+  "admitted_at", "created_at",
+];
+
+const BATCH_SIZE = 1000;
+
+const iso = (v: string | Date | null) => (v ? (new Date(v).toISOString() as ISODateString) : null);
+
+/**
+ * Validate filter values as they arrive (query string or CLI flags).
+ * Empty values are ignored.
+ */
+export function parseExportFilter(
+  input: Record<string, string | undefined>
+): { ok: true; filter: AdminUserExportFilter } | { ok: false; message: string } {
+  const v = (k: string) => input[k]?.trim() || undefined;
+  const filter: AdminUserExportFilter = {};
+  if (v("role")) filter.role = v("role");
+  if (v("country")) filter.country = v("country");
+  if (v("campaign")) filter.campaign = v("campaign");
+
+  const verified = v("verified");
+  if (verified) {
+    if (verified !== "true" && verified !== "false") return { ok: false, message: "verified must be true or false" };
+    filter.verified = verified === "true";
+  }
+  for (const key of ["from", "to"] as const) {
+    const raw = v(key);
+    if (!raw) continue;
+    const t = Date.parse(raw);
+    if (Number.isNaN(t)) return { ok: false, message: `${key} must be an ISO date` };
+    filter[key] = new Date(t).toISOString() as ISODateString;
+  }
+  return { ok: true, filter };
+}
+
+function whereClause(filter: AdminUserExportFilter): SQL[] {
+  return [
+    filter.role ? sql`u.role = ${filter.role}` : undefined,
+    filter.country ? sql`lower(u.country) = ${filter.country.toLowerCase()}` : undefined,
+    filter.verified !== undefined ? sql`u.email_verified = ${filter.verified}` : undefined,
+    filter.from ? sql`u.created_at >= ${filter.from}` : undefined,
+    filter.to ? sql`u.created_at < ${filter.to}` : undefined,
+    filter.campaign ? sql`u.utm->>'campaign' = ${filter.campaign}` : undefined,
+  ].filter((f) => f !== undefined);
+}
+
+/** "ab***@example.com" */
+function maskedEmail(column: SQL): SQL {
+  return sql`left(split_part(${column}, '@', 1), 2) || '***@' || split_part(${column}, '@', 2)`;
+}
+
+type ExportDbRow = Omit<AdminUserExportRow, "admitted_at" | "created_at"> & {
+  admitted_at: string | Date | null;
+  created_at: string | Date;
+};
+
+/** Matching users in id order, BATCH_SIZE at a time */
+export async function* exportUsers(
+  db: SqlExecutor,
+  filter: AdminUserExportFilter,
+  opts: { maskEmails: boolean }
+): AsyncGenerator<AdminUserExportRow[]> {
+  const email = opts.maskEmails ? maskedEmail(sql`u.email`) : sql`u.email`;
+  const filters = whereClause(filter);
+  let after = "0";
+
+  for (;;) {
+    const q = sql<ExportDbRow>`
+      SELECT u.id::text AS id, ${email} AS email, u.email_verified, u.role, u.experience, u.discord,
+             u.github, u.country, u.locale, u.referral_code, r.referral_code AS referred_by,
+             u.queue_position,
+             u.utm->>'source' AS utm_source, u.utm->>'medium' AS utm_medium,
+             u.utm->>'campaign' AS utm_campaign, u.utm->>'content' AS utm_content,
+             u.utm->>'term' AS utm_term,
+             u.admitted_at, u.created_at
+        FROM user_account u
+        -- signups record their referrer as a SIGNUP event; referred_by is legacy
+        LEFT JOIN LATERAL (
+          SELECT e.referrer_id FROM referral_event e
+           WHERE e.referee_id = u.id AND e.kind = 'SIGNUP'
+           ORDER BY e.id
+           LIMIT 1
+        ) s ON true
+        LEFT JOIN user_account r ON r.id = COALESCE(u.referred_by, s.referrer_id)
+       WHERE ${sql.join([sql`u.id > ${after}`, ...filters], sql` AND `)}
+       ORDER BY u.id
+       LIMIT ${BATCH_SIZE}
+    `;
+    const rows = getRows<ExportDbRow>(await db.execute(q));
+    if (!rows.length) return;
+    yield rows.map((r) => ({
+      ...r,
+      email_verified: Boolean(r.email_verified),
+      admitted_at: iso(r.admitted_at),
+      created_at: iso(r.created_at)!,
+    }));
+    if (rows.length < BATCH_SIZE) return;
+    after = rows[rows.length - 1].id;
+  }
+}
+
+/** The CSV header line ("" for NDJSON) */
+export function exportHeader(format: AdminExportFormat): string {
+  return format === "csv" ? csvLine(EXPORT_COLUMNS) : "";
+}
+
+export function exportLine(format: AdminExportFormat, row: AdminUserExportRow): string {
+  return format === "csv" ? csvLine(EXPORT_COLUMNS.map((c) => row[c])) : JSON.stringify(row) + "\n";
+}
@@ -0,0 +1,231 @@
+// api/_lib/user-import.ts
+// Bulk signups, e.g. a sheet collected at an event (api/admin/import.ts,
+// scripts/users.ts). Each row is checked like a waitlist form submission:
+// SignupSchema, then the email normalization and policy. Rows are deduped on
+// lower(email) (and canonical inbox) within the file and against existing
+// accounts, which are reported and left untouched. Nothing is written unless
+// `commit` is set, so the same call is the dry run.
+//
+// Rows are inserted one at a time (no transactions on neon-http). If a run
+// dies half way, run it again: the rows already created come back "exists".
+// The admin_audit entry is written before the first insert, so such a run is
+// still on record (its counts are the plan: "ready" rows were to be created).
+// New users are unverified and get no email unless `sendVerification`; a
+// marketing consent column queues the double opt-in email as usual. Imported
+// referrals go through the fraud rules like form signups (fraud.ts).
+//
+// An export (user-export.ts) imports back as is: its referred_by column is
+// read as the form's referral field.
+import { sql } from "drizzle-orm";
+import type { SqlExecutor } from "../../db/types.js";
+import type { AdminImportRowResult, AdminImportStatus, AdminImportSummary } from "../../types/api.js";
+import { recordAudit, type AdminPrincipal } from "./admin.js";
+import { assessReferrerSet } from "./fraud.js";
+import { queueConsentConfirmEmail, recordConsent } from "./consent.js";
+import { canonicalEmail, EMAIL_REJECTION_MESSAGES, emailPolicy, normalizeEmail } from "./email-address.js";
+import { parseCsv } from "./csv.js";
+import { getRows } from "./http.js";
+import { makeReferralCode, SignupSchema, signupUtm, type SignupFields } from "./signup.js";
+import { resolveLocale } from "./templates/index.js";
+import { queueVerifyEmail } from "./verification.js";
+
+/**
+ * Per API call (the whole run has to fit in one function invocation). A dry
+ * run is a few queries in all; a commit is several per row. The script has
+ * no limit.
+ */
+export const IMPORT_MAX_ROWS = 5000;
+export const IMPORT_COMMIT_MAX_ROWS = 200;
+
+/** Export column names that the signup form calls something else */
+const COLUMN_ALIASES: Record<string, keyof SignupFields> = { referred_by: "referral" };
+
+export type ImportFormat = "csv" | "ndjson";
+
+/** Raw records from an uploaded file (throws with a readable message) */
+export function parseImportText(format: ImportFormat, text: string): Record<string, unknown>[] {
+  if (format === "csv") return parseCsv(text);
+  return text
+    .split(/\r?\n/)
+    .map((line, i) => ({ line: line.trim(), n: i + 1 }))
+    .filter(({ line }) => line)
+    .map(({ line, n }) => {
+      let v: unknown;
+      try {
+        v = JSON.parse(line);
+      } catch {
+        throw new Error(`Line ${n} is not valid JSON`);
+      }
+      if (!v || typeof v !== "object" || Array.isArray(v)) throw new Error(`Line ${n} is not a JSON object`);
+      return v as Record<string, unknown>;
+    });
+}
+
+type Candidate = {
+  result: AdminImportRowResult;
+  data: SignupFields;
+  email: string;
+  canonical: string;
+};
+
+/** Blank cells (CSV) mean "not given", same as an omitted form field */
+function blanksToUndefined(raw: Record<string, unknown>) {
+  const fields: Record<string, unknown> = Object.fromEntries(
+    Object.entries(raw).map(([k, v]) => [k, typeof v === "string" && !v.trim() ? undefined : v])
+  );
+  for (const [from, to] of Object.entries(COLUMN_ALIASES)) {
+    if (fields[to] === undefined) fields[to] = fields[from];
+    delete fields[from];
+  }
+  return fields;
+}
+
+function validate(raw: Record<string, unknown>, row: number): Candidate | AdminImportRowResult {
+  const rawEmail = typeof raw.email === "string" ? raw.email.trim() || null : null;
+  const parsed = SignupSchema.safeParse(blanksToUndefined(raw));
+  if (!parsed.success) {
+    const errors = parsed.error.issues.map((i) => `${i.path.join(".") || "row"}: ${i.message}`);
+    return { row, email: rawEmail, status: "invalid", errors };
+  }
+  const normalized = normalizeEmail(parsed.data.email);
+  const rejection = normalized ? emailPolicy(normalized) : "EMAIL_INVALID";
+  if (!normalized || rejection) {
+    return { row, email: rawEmail, status: "invalid", errors: [`email: ${EMAIL_REJECTION_MESSAGES[rejection ?? "EMAIL_INVALID"]}`] };
+  }
+  return {
+    result: { row, email: normalized.address, status: "ready" },
+    data: parsed.data,
+    email: normalized.address.toLowerCase(),
+    canonical: canonicalEmail(normalized),
+  };
+}
+
+/** Existing accounts for these inboxes, keyed by lower(email) and by canonical */
+async function existingAccounts(db: SqlExecutor, candidates: Candidate[]): Promise<Map<string, string>> {
+  const found = new Map<string, string>();
+  for (let i = 0; i < candidates.length; i += 1000) {
+    const chunk = candidates.slice(i, i + 1000);
+    type Row = { id: string; email: string; canonical: string | null };
+    const q = sql<Row>`
+      SELECT id::text AS id, lower(email) AS email, email_canonical AS canonical
+        FROM user_account
+       WHERE lower(email) IN ${chunk.map((c) => c.email)}
+          OR email_canonical IN ${chunk.map((c) => c.canonical)}
+    `;
+    for (const r of getRows<Row>(await db.execute(q))) {
+      found.set(r.email, r.id);
+      if (r.canonical) found.set(r.canonical, r.id);
+    }
+  }
+  return found;
+}
+
+/** Insert one validated row; null if the inbox was taken meanwhile */
+async function insertUser(db: SqlExecutor, c: Candidate): Promise<{ id: string; email: string; locale: string } | null> {
+  const { data } = c;
+  const utmJson = sql`jsonb_strip_nulls(${JSON.stringify(signupUtm(data))}::jsonb)`;
+  for (let attempt = 0; attempt < 3; attempt++) {
+    type Row = { id: string; email: string; locale: string };
+    const q = sql<Row>`
+      INSERT INTO user_account (
+        email, email_canonical, role, experience, discord, github, country, locale, referral_code, utm
+      )
+      VALUES (
+        ${c.result.email}, ${c.canonical}, ${data.role}, ${data.experience ?? null}, ${data.discord ?? null},
+        ${data.github ?? null}, ${data.country ?? null}, ${resolveLocale(data.locale)},
+        ${makeReferralCode(c.email)}, ${utmJson}
+      )
+      RETURNING id::text AS id, email, locale
+    `;
+    try {
+      return getRows<Row>(await db.execute(q))[0];
+    } catch (e: any) {
+      const msg = String(e?.message || e);
+      if (!/\bunique\b/i.test(msg)) throw e;
+      if (!/referral_code/i.test(msg)) return null; // email / canonical: a signup beat us to it
+    }
+  }
+  throw new Error("Failed to generate a unique referral code");
+}
+
+/**
+ * Validate, dedupe and (with commit) create the rows. Results come back in
+ * input order; the run is written to admin_audit either way, before any row
+ * is created.
+ */
+export async function importUsers(
+  db: SqlExecutor,
+  admin: AdminPrincipal,
+  rows: Record<string, unknown>[],
+  opts: { commit: boolean; sendVerification?: boolean }
+): Promise<AdminImportSummary> {
+  const results: AdminImportRowResult[] = [];
+  const candidates: Candidate[] = [];
+  const firstRow = new Map<string, number>();
+
+  for (const [i, raw] of rows.entries()) {
+    const v = validate(raw, i + 1);
+    if (!("data" in v)) {
+      results.push(v);
+      continue;
+    }
+    results.push(v.result);
+    const earlier = firstRow.get(v.email) ?? firstRow.get(v.canonical);
+    if (earlier !== undefined) {
+      Object.assign(v.result, { status: "duplicate", duplicateOf: earlier });
+      continue;
+    }
+    firstRow.set(v.email, v.result.row).set(v.canonical, v.result.row);
+    candidates.push(v);
+  }
+
+  const existing = candidates.length ? await existingAccounts(db, candidates) : new Map<string, string>();
+  for (const c of candidates) {
+    const userId = existing.get(c.email) ?? existing.get(c.canonical);
+    if (userId) Object.assign(c.result, { status: "exists", userId });
+  }
+  await recordAudit(db, admin, "user.import", {
+    detail: { dryRun: !opts.commit, rows: rows.length, counts: countStatuses(results) },
+  });
+  if (!opts.commit) return { dryRun: true, counts: countStatuses(results), rows: results };
+
+  const referrers = new Set<string>();
+  for (const c of candidates) {
+    if (c.result.status !== "ready") continue;
+    const user = await insertUser(db, c);
+    if (!user) {
+      c.result.status = "exists";
+      continue;
+    }
+    Object.assign(c.result, { status: "created", userId: user.id });
+
+    const refCode = c.data.referral?.trim() || c.data.referral_auto?.trim();
+    if (refCode) {
+      const logged = getRows<{ referrer_id: string }>(
+        await db.execute(sql`
+          INSERT INTO referral_event (referrer_id, referee_id, kind)
+          SELECT r.id, ${user.id}, 'SIGNUP' FROM user_account r
+           WHERE r.referral_code = ${refCode} AND r.id <> ${user.id} AND r.blocked_at IS NULL
+          ON CONFLICT DO NOTHING
+          RETURNING referrer_id::text AS referrer_id
+        `)
+      )[0];
+      if (logged) referrers.add(logged.referrer_id);
+    }
+    if (c.data.consent_marketing === "yes") {
+      const consent = await recordConsent(db, user.id, { source: "import", ipHash: null });
+      if (consent.needsConfirmation) await queueConsentConfirmEmail(db, user);
+    }
+    if (opts.sendVerification) await queueVerifyEmail(db, user);
+  }
+
+  // a run that dies before this is covered by the cron sweep (cron/referral-fraud.ts)
+  await assessReferrerSet(db, referrers);
+  return { dryRun: false, counts: countStatuses(results), rows: results };
+}
+
+function countStatuses(results: AdminImportRowResult[]): Record<AdminImportStatus, number> {
+  const counts: Record<AdminImportStatus, number> = { ready: 0, created: 0, exists: 0, duplicate: 0, invalid: 0 };
+  for (const r of results) counts[r.status]++;
+  return counts;
+}
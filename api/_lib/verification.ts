@@ -0,0 +1,74 @@
+// api/_lib/verification.ts
+// Email-verify links: single-use tokens (see tokens.ts). Issuing a link revokes
+// the user's earlier ones, so only the newest link verifies.
+import { createHash } from "node:crypto";
+import { sql } from "drizzle-orm";
+import type { SqlExecutor } from "../../db/types.js";
+import { appUrl, getRows } from "./http.js";
+import { dispatchOutbox, enqueueEmail } from "./outbox.js";
+import { resolveLocale } from "./templates/index.js";
+import { issueToken } from "./tokens.js";
+
+const VERIFY_TTL_S = 2 * 24 * 60 * 60;
+
+/** Minimum gap between two verify emails to the same user (DB-enforced) */
+export const VERIFY_RESEND_COOLDOWN_S = Math.max(0, Number(process.env.VERIFY_RESEND_COOLDOWN_SECONDS ?? 60) || 0);
+
+/** True if a verify-email was queued for the user within the resend cooldown */
+export async function verifyEmailCoolingDown(db: SqlExecutor, userId: string): Promise<boolean> {
+  const q = sql<{ recent: boolean }>`
+    SELECT EXISTS (
+      SELECT 1 FROM email_outbox
+       WHERE user_id = ${userId}
+         AND kind = 'verify-email'
+         AND created_at > now() - make_interval(secs => ${VERIFY_RESEND_COOLDOWN_S})
+    ) AS recent
+  `;
+  return Boolean(getRows<{ recent: boolean }>(await db.execute(q))[0]?.recent);
+}
+
+/** Revoke earlier links and sign a fresh one (2 day expiry). */
+export async function issueVerifyLink(db: SqlExecutor, user: { id: string; email: string }) {
+  const { token } = await issueToken(db, {
+    userId: user.id,
+    email: user.email,
+    purpose: "email-verify",
+    ttlSeconds: VERIFY_TTL_S,
+    revokePrevious: true,
+  });
+  const link = appUrl("/api/verify-email");
+  link.searchParams.set("token", token);
+  return { token, link: link.toString() };
+}
+
+/**
+ * Issue a new link and queue the verify-email in the outbox. With `dispatch`,
+ * also try to send it inline (the cron dispatcher retries on failure).
+ * Returns the outbox id, or null if an identical email was already queued.
+ */
+export async function queueVerifyEmail(
+  db: SqlExecutor,
+  user: { id: string; email: string; locale?: string | null },
+  opts: { dispatch?: boolean } = {}
+): Promise<string | null> {
+  const { token, link } = await issueVerifyLink(db, user);
+  const tokenHash = createHash("sha256").update(token).digest("hex").slice(0, 32);
+
+  const outboxId = await enqueueEmail(db, {
+    userId: user.id,
+    kind: "verify-email",
+    to: user.email,
+    locale: resolveLocale(user.locale),
+    payload: { link },
+    idempotencyKey: `verify-email:${user.id}:${tokenHash}`,
+  });
+
+  if (outboxId && opts.dispatch) {
+    try {
+      await dispatchOutbox(db, { ids: [outboxId] });
+    } catch (e) {
+      console.warn("[verification] inline email dispatch failed:", e);
+    }
+  }
+  return outboxId;
+}
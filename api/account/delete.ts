@@ -0,0 +1,69 @@
+/* ============================================================================
+   Quantara Devnet-0 • internal use only
+   (c) 2025 Quantara Technology LLC
+   File: api/account/delete.ts
+
+   Account deletion (right to erasure) for the signed-in user. The body must
+   repeat the account's email address, so a stray request can't delete it.
+   Referral points the user earned *for others* are kept (the referee is
+   anonymized); see _lib/account.ts for exactly what survives.
+
+   Request:  { confirmEmail }
+   Response: { ok: true, data: { deleted: true } }  (also clears the session cookie)
+   ========================================================================== */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import "dotenv/config";
+import { z } from "zod";
+import { sql } from "drizzle-orm";
+import { getDb } from "../../db/client.serverless.js";
+import { setCorsHeaders } from "../_lib/cors.js";
+import { getRows, readJsonBody } from "../_lib/http.js";
+import { authenticate } from "../_lib/auth.js";
+import { eraseAccount } from "../_lib/account.js";
+import { clearedSessionCookie } from "../_lib/session.js";
+import type { PostDeleteAccountResponse } from "../../types/api.js";
+
+const DeleteSchema = z.object({
+  confirmEmail: z.string().trim().min(3).max(254),
+});
+
+function fail(res: VercelResponse, status: number, code: string, message: string) {
+  const body: PostDeleteAccountResponse = { ok: false, code, message };
+  return res.status(status).json(body);
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(res, req.headers.origin as string | undefined, { credentials: true, methods: ["POST", "OPTIONS"] });
+  if (req.method === "OPTIONS") return res.status(204).end();
+
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store");
+  if (req.method !== "POST") return fail(res, 405, "METHOD_NOT_ALLOWED", "Method not allowed");
+
+  try {
+    const db = getDb();
+    const auth = await authenticate(req, db);
+    if (!auth.ok) return fail(res, auth.code === "FORBIDDEN_ORIGIN" ? 403 : 401, auth.code, auth.message);
+
+    const parsed = DeleteSchema.safeParse(readJsonBody(req));
+    if (!parsed.success) return fail(res, 400, "BAD_REQUEST", "Expected { confirmEmail }");
+
+    const userQ = sql<{ email: string }>`SELECT email FROM user_account WHERE id = ${auth.userId}`;
+    const user = getRows<{ email: string }>(await db.execute(userQ))[0];
+    if (!user) return fail(res, 404, "NOT_FOUND", "Account not found");
+    if (user.email.toLowerCase() !== parsed.data.confirmEmail.toLowerCase()) {
+      return fail(res, 400, "CONFIRMATION_MISMATCH", "Type your account's email address to confirm.");
+    }
+
+    if (!(await eraseAccount(db, auth.userId))) return fail(res, 404, "NOT_FOUND", "Account not found");
+    console.log(`[account/delete] erased user ${auth.userId}`);
+
+    res.setHeader("Set-Cookie", clearedSessionCookie());
+    const body: PostDeleteAccountResponse = { ok: true, data: { deleted: true } };
+    return res.status(200).json(body);
+  } catch (err) {
+    console.error("[account/delete] error:", err);
+    return fail(res, 500, "INTERNAL", "Internal error");
+  }
+}
@@ -0,0 +1,50 @@
+/* ============================================================================
+   Quantara Devnet-0 • internal use only
+   (c) 2025 Quantara Technology LLC
+   File: api/account/export.ts
+
+   Data export (right of access): everything held about the signed-in user
+   (session cookie or dashboard bearer token) — profile, UTM, referral events
+   as referrer and as referee, faucet claims, profile history and emails sent.
+   Served as a JSON download; see _lib/account.ts.
+
+   Response: { ok: true, data: AccountExport }
+   ========================================================================== */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import "dotenv/config";
+import { getDb } from "../../db/client.serverless.js";
+import { setCorsHeaders } from "../_lib/cors.js";
+import { authenticate } from "../_lib/auth.js";
+import { exportAccount } from "../_lib/account.js";
+import type { GetAccountExportResponse } from "../../types/api.js";
+
+function fail(res: VercelResponse, status: number, code: string, message: string) {
+  const body: GetAccountExportResponse = { ok: false, code, message };
+  return res.status(status).json(body);
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(res, req.headers.origin as string | undefined, { credentials: true, methods: ["GET", "OPTIONS"] });
+  if (req.method === "OPTIONS") return res.status(204).end();
+
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Cache-Control", "private, no-store");
+  if (req.method !== "GET") return fail(res, 405, "METHOD_NOT_ALLOWED", "Method not allowed");
+
+  try {
+    const db = getDb();
+    const auth = await authenticate(req, db);
+    if (!auth.ok) return fail(res, 401, auth.code, auth.message);
+
+    const data = await exportAccount(db, auth.userId);
+    if (!data) return fail(res, 404, "NOT_FOUND", "Account not found");
+
+    res.setHeader("Content-Disposition", `attachment; filename="quantara-data-${auth.userId}.json"`);
+    const body: GetAccountExportResponse = { ok: true, data };
+    return res.status(200).send(JSON.stringify(body, null, 2));
+  } catch (err) {
+    console.error("[account/export] error:", err);
+    return fail(res, 500, "INTERNAL", "Internal error");
+  }
+}
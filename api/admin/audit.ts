@@ -0,0 +1,50 @@
+/* ============================================================================
+   Quantara Devnet-0 • internal use only
+   (c) 2025 Quantara Technology LLC
+   File: api/admin/audit.ts
+
+   The admin audit log (see _lib/admin.ts), newest first. Viewer role.
+     GET ?userId=&action=user.block&limit=50&before=<auditId>
+   ========================================================================== */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import "dotenv/config";
+import { getDb } from "../../db/client.serverless.js";
+import { queryParam } from "../_lib/http.js";
+import { authorizeAdmin, listAudit } from "../_lib/admin.js";
+import type { GetAdminAuditResponse } from "../../types/api.js";
+
+const ID = /^\d{1,19}$/;
+
+function fail(res: VercelResponse, status: number, code: string, message: string) {
+  return res.status(status).json({ ok: false, code, message });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store");
+
+  if (req.method !== "GET") return fail(res, 405, "METHOD_NOT_ALLOWED", "Method not allowed");
+
+  try {
+    const db = getDb();
+    const auth = await authorizeAdmin(req, db, "viewer");
+    if (!auth.ok) return fail(res, auth.status, auth.code, auth.message);
+
+    const userId = queryParam(req, "userId");
+    const before = queryParam(req, "before");
+    if ((userId && !ID.test(userId)) || (before && !ID.test(before))) {
+      return fail(res, 400, "BAD_REQUEST", "Invalid userId or before");
+    }
+    const limit = Math.max(1, Math.min(200, Number(queryParam(req, "limit") ?? 50) || 50));
+
+    const body: GetAdminAuditResponse = {
+      ok: true,
+      data: await listAudit(db, { targetUserId: userId, action: queryParam(req, "action"), before, limit }),
+    };
+    return res.status(200).json(body);
+  } catch (err) {
+    console.error("[admin/audit] error:", err);
+    return fail(res, 500, "INTERNAL", "Internal error");
+  }
+}
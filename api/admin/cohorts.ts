@@ -0,0 +1,142 @@
+/* ============================================================================
+   Quantara Devnet-0 • internal use only
+   (c) 2025 Quantara Technology LLC
+   File: api/admin/cohorts.ts
+
+   Devnet-0 admissions (see _lib/admissions.ts). Admin key, team sign-in or
+   ADMIN_API_TOKEN (see _lib/admin.ts); GET needs viewer, POST operator.
+     GET  list cohorts with admitted / redeemed counts
+     POST { action: "create", slug, name, size, roles?, queueCutoff?, verifiedOnly? }
+     POST { action: "preview", slug }   who "admit" would pick right now
+     POST { action: "admit", slug }     fill free seats, issue codes, queue invites
+     POST { action: "revoke-code", slug, userId }   kill a member's unredeemed code
+     POST { action: "reissue-code", slug, userId }  replace it and queue a new invite
+
+   "admit" is idempotent: re-running it only tops up seats freed since the
+   last run and fills in missing codes / invites (a revoked code is only
+   replaced by reissue-code). Every POST but preview is written to admin_audit.
+   ========================================================================== */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import "dotenv/config";
+import { z } from "zod";
+import { getDb } from "../../db/client.serverless.js";
+import { readJsonBody } from "../_lib/http.js";
+import { authorizeAdmin, recordAudit } from "../_lib/admin.js";
+import {
+  admitCohort,
+  cohortInfo,
+  createCohort,
+  getCohort,
+  listCohorts,
+  previewCohort,
+  reissueAccessCode,
+  revokeAccessCode,
+  ROLES,
+} from "../_lib/admissions.js";
+import type {
+  AccessCodeChange,
+  GetAdminCohortsResponse,
+  PostAdminCohortsResponse,
+  Role,
+} from "../../types/api.js";
+
+const Slug = z.string().regex(/^[a-z0-9-]{1,64}$/);
+
+const CohortSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("create"),
+    slug: Slug,
+    name: z.string().trim().min(1).max(100),
+    size: z.number().int().min(1).max(100_000),
+    roles: z.array(z.enum(ROLES as [Role, ...Role[]])).max(ROLES.length).optional(),
+    queueCutoff: z.number().int().min(1).optional(),
+    verifiedOnly: z.boolean().optional(),
+  }),
+  z.object({ action: z.enum(["preview", "admit"]), slug: Slug }),
+  z.object({ action: z.enum(["revoke-code", "reissue-code"]), slug: Slug, userId: z.string().regex(/^\d{1,19}$/) }),
+]);
+
+function fail(res: VercelResponse, status: number, code: string, message: string) {
+  return res.status(status).json({ ok: false, code, message });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store");
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    return fail(res, 405, "METHOD_NOT_ALLOWED", "Method not allowed");
+  }
+
+  try {
+    const db = getDb();
+    const auth = await authorizeAdmin(req, db, req.method === "GET" ? "viewer" : "operator");
+    if (!auth.ok) return fail(res, auth.status, auth.code, auth.message);
+    const { admin } = auth;
+
+    if (req.method === "GET") {
+      const body: GetAdminCohortsResponse = {
+        ok: true,
+        data: { cohorts: (await listCohorts(db)).map(cohortInfo) },
+      };
+      return res.status(200).json(body);
+    }
+
+    const parsed = CohortSchema.safeParse(readJsonBody(req));
+    if (!parsed.success) {
+      return fail(res, 400, "BAD_REQUEST", "Expected { action: create|preview|admit|revoke-code|reissue-code, slug, ... }");
+    }
+    const input = parsed.data;
+
+    if (input.action === "create") {
+      const cohort = await createCohort(db, input);
+      if (!cohort) return fail(res, 409, "COHORT_EXISTS", `Cohort ${input.slug} already exists`);
+      await recordAudit(db, admin, "cohort.create", { detail: { slug: cohort.slug, size: cohort.size } });
+      console.log(`[admin/cohorts] ${admin.actor}: created ${cohort.slug} (${cohort.size} seats)`);
+      const body: PostAdminCohortsResponse = { ok: true, data: { cohort: cohortInfo(cohort) } };
+      return res.status(201).json(body);
+    }
+
+    const cohort = await getCohort(db, input.slug);
+    if (!cohort) return fail(res, 404, "NOT_FOUND", `No cohort ${input.slug}`);
+
+    if (input.action === "preview") {
+      const candidates = await previewCohort(db, cohort);
+      const body: PostAdminCohortsResponse = { ok: true, data: { cohort: cohortInfo(cohort), candidates } };
+      return res.status(200).json(body);
+    }
+
+    if (input.action === "revoke-code" || input.action === "reissue-code") {
+      let accessCode: AccessCodeChange;
+      if (input.action === "revoke-code") {
+        const revoked = await revokeAccessCode(db, cohort, input.userId);
+        accessCode = { userId: input.userId, revoked, reissued: false, invited: false };
+      } else {
+        const result = await reissueAccessCode(db, cohort, input.userId);
+        if (!result.ok && result.code === "NOT_MEMBER") {
+          return fail(res, 404, "NOT_FOUND", `User ${input.userId} is not in cohort ${cohort.slug}`);
+        }
+        if (!result.ok) return fail(res, 409, "CODE_REDEEMED", "This member already redeemed their code");
+        accessCode = { userId: input.userId, revoked: result.revoked, reissued: true, invited: result.invited };
+      }
+      await recordAudit(db, admin, `cohort.${input.action}`, {
+        targetUserId: input.userId,
+        detail: { slug: cohort.slug, revoked: accessCode.revoked, reissued: accessCode.reissued },
+      });
+      console.log(`[admin/cohorts] ${admin.actor}: ${input.action} ${cohort.slug} user ${input.userId}`);
+      const body: PostAdminCohortsResponse = { ok: true, data: { cohort: cohortInfo(cohort), accessCode } };
+      return res.status(200).json(body);
+    }
+
+    const admit = await admitCohort(db, cohort);
+    await recordAudit(db, admin, "cohort.admit", { detail: { slug: cohort.slug, ...admit } });
+    console.log(`[admin/cohorts] ${admin.actor}: admit ${cohort.slug}:`, admit);
+    const updated = (await getCohort(db, cohort.slug)) ?? cohort;
+    const body: PostAdminCohortsResponse = { ok: true, data: { cohort: cohortInfo(updated), admit } };
+    return res.status(200).json(body);
+  } catch (err) {
+    console.error("[admin/cohorts] error:", err);
+    return fail(res, 500, "INTERNAL", "Internal error");
+  }
+}
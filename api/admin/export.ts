@@ -0,0 +1,79 @@
+/* ============================================================================
+   Quantara Devnet-0 • internal use only
+   (c) 2025 Quantara Technology LLC
+   File: api/admin/export.ts
+
+   The waitlist as a download (see _lib/user-export.ts). Viewer role; emails
+   are masked ("ab***@example.com") unless the caller is an owner.
+     GET ?format=csv|ndjson&role=&country=&verified=true|false
+         &from=2025-06-01&to=2025-07-01&campaign=<utm_campaign>
+
+   The body is streamed a batch at a time. Errors after the first batch can
+   only cut the file short, so check the row count in the audit log
+   (action user.export) if a download looks truncated.
+   ========================================================================== */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import "dotenv/config";
+import { getDb } from "../../db/client.serverless.js";
+import { queryParam } from "../_lib/http.js";
+import { authorizeAdmin, hasRole, recordAudit } from "../_lib/admin.js";
+import { EXPORT_FORMATS, exportHeader, exportLine, exportUsers, parseExportFilter } from "../_lib/user-export.js";
+import type { AdminExportFormat } from "../../types/api.js";
+
+const CONTENT_TYPES: Record<AdminExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+function fail(res: VercelResponse, status: number, code: string, message: string) {
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  return res.status(status).json({ ok: false, code, message });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Cache-Control", "no-store");
+
+  if (req.method !== "GET") return fail(res, 405, "METHOD_NOT_ALLOWED", "Method not allowed");
+
+  let streaming = false;
+  try {
+    const db = getDb();
+    const auth = await authorizeAdmin(req, db, "viewer");
+    if (!auth.ok) return fail(res, auth.status, auth.code, auth.message);
+    const { admin } = auth;
+
+    const format = (queryParam(req, "format") ?? "csv") as AdminExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) return fail(res, 400, "BAD_REQUEST", `format must be one of ${EXPORT_FORMATS.join(", ")}`);
+    const parsed = parseExportFilter({
+      role: queryParam(req, "role"),
+      country: queryParam(req, "country"),
+      verified: queryParam(req, "verified"),
+      from: queryParam(req, "from"),
+      to: queryParam(req, "to"),
+      campaign: queryParam(req, "campaign"),
+    });
+    if (!parsed.ok) return fail(res, 400, "BAD_REQUEST", parsed.message);
+    const maskEmails = !hasRole(admin, "owner");
+
+    const stamp = new Date().toISOString().slice(0, 10);
+    res.setHeader("Content-Type", CONTENT_TYPES[format]);
+    res.setHeader("Content-Disposition", `attachment; filename="quantara-waitlist-${stamp}.${format}"`);
+    res.status(200);
+    streaming = true;
+    res.write(exportHeader(format));
+
+    let count = 0;
+    for await (const batch of exportUsers(db, parsed.filter, { maskEmails })) {
+      res.write(batch.map((row) => exportLine(format, row)).join(""));
+      count += batch.length;
+    }
+    await recordAudit(db, admin, "user.export", { detail: { format, filter: parsed.filter, maskEmails, rows: count } });
+    console.log(`[admin/export] ${admin.actor}: ${count} row(s) as ${format}${maskEmails ? " (masked)" : ""}`);
+    return res.end();
+  } catch (err) {
+    console.error("[admin/export] error:", err);
+    if (streaming) return res.end();
+    return fail(res, 500, "INTERNAL", "Internal error");
+  }
+}
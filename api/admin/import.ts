@@ -0,0 +1,83 @@
+/* ============================================================================
+   Quantara Devnet-0 • internal use only
+   (c) 2025 Quantara Technology LLC
+   File: api/admin/import.ts
+
+   Bulk signups (see _lib/user-import.ts). Operator role.
+     POST { rows: [{ email, role, ... }] | csv: "<text>" | ndjson: "<text>",
+            commit?: boolean, sendVerification?: boolean }
+
+   Rows use the waitlist form's field names (an export's columns work too;
+   extras are ignored). Without commit: true this is a dry run that reports
+   what would happen to each row. Up to 5000 rows per dry run and 200 per
+   commit (each created row is several queries); use scripts/users.ts for
+   bigger files.
+   ========================================================================== */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import "dotenv/config";
+import { z } from "zod";
+import { getDb } from "../../db/client.serverless.js";
+import { readJsonBody } from "../_lib/http.js";
+import { authorizeAdmin } from "../_lib/admin.js";
+import { IMPORT_COMMIT_MAX_ROWS, IMPORT_MAX_ROWS, importUsers, parseImportText } from "../_lib/user-import.js";
+import type { PostAdminImportResponse } from "../../types/api.js";
+
+const ImportSchema = z
+  .object({
+    rows: z.array(z.record(z.unknown())).optional(),
+    csv: z.string().optional(),
+    ndjson: z.string().optional(),
+    commit: z.boolean().optional(),
+    sendVerification: z.boolean().optional(),
+  })
+  .refine((b) => [b.rows, b.csv, b.ndjson].filter((v) => v !== undefined).length === 1);
+
+function fail(res: VercelResponse, status: number, code: string, message: string) {
+  return res.status(status).json({ ok: false, code, message });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store");
+
+  if (req.method !== "POST") return fail(res, 405, "METHOD_NOT_ALLOWED", "Method not allowed");
+
+  try {
+    const db = getDb();
+    const auth = await authorizeAdmin(req, db, "operator");
+    if (!auth.ok) return fail(res, auth.status, auth.code, auth.message);
+    const { admin } = auth;
+
+    const parsed = ImportSchema.safeParse(readJsonBody(req));
+    if (!parsed.success) {
+      return fail(res, 400, "BAD_REQUEST", "Expected one of { rows | csv | ndjson }, commit?, sendVerification?");
+    }
+    const input = parsed.data;
+
+    let rows: Record<string, unknown>[];
+    try {
+      rows = input.rows ?? parseImportText(input.csv !== undefined ? "csv" : "ndjson", (input.csv ?? input.ndjson)!);
+    } catch (e: any) {
+      return fail(res, 400, "BAD_REQUEST", String(e?.message || e));
+    }
+    if (!rows.length) return fail(res, 400, "BAD_REQUEST", "No rows");
+    const maxRows = input.commit === true ? IMPORT_COMMIT_MAX_ROWS : IMPORT_MAX_ROWS;
+    if (rows.length > maxRows) {
+      const what = input.commit === true ? "commit" : "dry run";
+      return fail(res, 413, "TOO_MANY_ROWS", `At most ${maxRows} rows per ${what}; split the file or use scripts/users.ts`);
+    }
+
+    const summary = await importUsers(db, admin, rows, {
+      commit: input.commit === true,
+      sendVerification: input.sendVerification === true,
+    });
+    console.log(`[admin/import] ${admin.actor}: ${summary.dryRun ? "dry run" : "commit"}`, summary.counts);
+
+    const body: PostAdminImportResponse = { ok: true, data: summary };
+    return res.status(200).json(body);
+  } catch (err) {
+    console.error("[admin/import] error:", err);
+    return fail(res, 500, "INTERNAL", "Internal error");
+  }
+}
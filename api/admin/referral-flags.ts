@@ -0,0 +1,85 @@
+/* ============================================================================
+   Quantara Devnet-0 • internal use only
+   (c) 2025 Quantara Technology LLC
+   File: api/admin/referral-flags.ts
+
+   Fraud review queue (see _lib/fraud.ts). Admin key, team sign-in or
+   ADMIN_API_TOKEN (see _lib/admin.ts); GET needs viewer, POST operator.
+     GET  ?status=FLAGGED|CONFIRMED|CLEARED&limit=50&before=<eventId>
+     POST { eventIds: [...], decision: "clear" | "confirm", note? }
+
+   "clear" puts the referral back on the leaderboard for good; "confirm"
+   keeps it off. Decisions also apply to the referee's VERIFIED event, and
+   are written to admin_audit.
+   ========================================================================== */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import "dotenv/config";
+import { z } from "zod";
+import { getDb } from "../../db/client.serverless.js";
+import { queryParam, readJsonBody } from "../_lib/http.js";
+import { authorizeAdmin, recordAudit } from "../_lib/admin.js";
+import { listReviewQueue, reviewEvents } from "../_lib/fraud.js";
+import type {
+  GetAdminReferralFlagsResponse,
+  PostAdminReferralFlagsResponse,
+  ReferralReview,
+} from "../../types/api.js";
+
+const STATUSES: readonly ReferralReview[] = ["FLAGGED", "CONFIRMED", "CLEARED"];
+
+const ReviewSchema = z.object({
+  eventIds: z.array(z.string().regex(/^\d{1,19}$/)).min(1).max(500),
+  decision: z.enum(["clear", "confirm"]),
+  note: z.string().max(500).optional(),
+});
+
+function fail(res: VercelResponse, status: number, code: string, message: string) {
+  return res.status(status).json({ ok: false, code, message });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store");
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    return fail(res, 405, "METHOD_NOT_ALLOWED", "Method not allowed");
+  }
+
+  try {
+    const db = getDb();
+    const auth = await authorizeAdmin(req, db, req.method === "GET" ? "viewer" : "operator");
+    if (!auth.ok) return fail(res, auth.status, auth.code, auth.message);
+    const { admin } = auth;
+
+    if (req.method === "GET") {
+      const status = (queryParam(req, "status") ?? "FLAGGED").toUpperCase() as ReferralReview;
+      if (!STATUSES.includes(status)) return fail(res, 400, "BAD_REQUEST", `status must be one of ${STATUSES.join(", ")}`);
+      const before = queryParam(req, "before");
+      if (before && !/^\d{1,19}$/.test(before)) return fail(res, 400, "BAD_REQUEST", "Invalid before");
+      const limit = Math.max(1, Math.min(200, Number(queryParam(req, "limit") ?? 50) || 50));
+
+      const body: GetAdminReferralFlagsResponse = {
+        ok: true,
+        data: await listReviewQueue(db, { status, limit, before }),
+      };
+      return res.status(200).json(body);
+    }
+
+    const parsed = ReviewSchema.safeParse(readJsonBody(req));
+    if (!parsed.success) return fail(res, 400, "BAD_REQUEST", "Expected { eventIds, decision: clear|confirm, note? }");
+
+    const { eventIds, decision, note } = parsed.data;
+    const updated = await reviewEvents(db, eventIds, decision === "clear" ? "CLEARED" : "CONFIRMED", note ?? null);
+    await recordAudit(db, admin, "referral.review", {
+      detail: { decision, note: note ?? null, eventIds: updated },
+    });
+    console.log(`[admin/referral-flags] ${admin.actor}: ${decision} ${updated.length}/${eventIds.length} event(s)`);
+
+    const body: PostAdminReferralFlagsResponse = { ok: true, data: { updated } };
+    return res.status(200).json(body);
+  } catch (err) {
+    console.error("[admin/referral-flags] error:", err);
+    return fail(res, 500, "INTERNAL", "Internal error");
+  }
+}
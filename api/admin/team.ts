@@ -0,0 +1,93 @@
+/* ============================================================================
+   Quantara Devnet-0 • internal use only
+   (c) 2025 Quantara Technology LLC
+   File: api/admin/team.ts
+
+   Who can use the admin API (see _lib/admin.ts). Owner role.
+     GET  team members (accounts with a role) and API keys
+     POST { action: "create-key", name, role }   201; the key is in the response, once
+     POST { action: "revoke-key", id }
+     POST { action: "set-role", email, role }    role null removes access
+   ========================================================================== */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import "dotenv/config";
+import { z } from "zod";
+import { getDb } from "../../db/client.serverless.js";
+import { readJsonBody } from "../_lib/http.js";
+import {
+  ADMIN_ROLES,
+  authorizeAdmin,
+  createApiKey,
+  listApiKeys,
+  listTeam,
+  revokeApiKey,
+  setAdminRole,
+} from "../_lib/admin.js";
+import type { AdminRole, GetAdminTeamResponse, PostAdminTeamResponse } from "../../types/api.js";
+
+const Role = z.enum(ADMIN_ROLES as [AdminRole, ...AdminRole[]]);
+
+const TeamSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("create-key"), name: z.string().trim().min(1).max(80), role: Role }),
+  z.object({ action: z.literal("revoke-key"), id: z.string().regex(/^\d{1,19}$/) }),
+  z.object({ action: z.literal("set-role"), email: z.string().min(3).max(254), role: Role.nullable() }),
+]);
+
+function fail(res: VercelResponse, status: number, code: string, message: string) {
+  return res.status(status).json({ ok: false, code, message });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store");
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    return fail(res, 405, "METHOD_NOT_ALLOWED", "Method not allowed");
+  }
+
+  try {
+    const db = getDb();
+    const auth = await authorizeAdmin(req, db, "owner");
+    if (!auth.ok) return fail(res, auth.status, auth.code, auth.message);
+    const { admin } = auth;
+
+    if (req.method === "GET") {
+      const body: GetAdminTeamResponse = {
+        ok: true,
+        data: { members: await listTeam(db), keys: await listApiKeys(db) },
+      };
+      return res.status(200).json(body);
+    }
+
+    const parsed = TeamSchema.safeParse(readJsonBody(req));
+    if (!parsed.success) {
+      return fail(res, 400, "BAD_REQUEST", "Expected { action: create-key|revoke-key|set-role, ... }");
+    }
+    const input = parsed.data;
+
+    if (input.action === "create-key") {
+      const created = await createApiKey(db, admin, input);
+      console.log(`[admin/team] ${admin.actor}: created ${input.role} key ${created.apiKey.id} (${input.name})`);
+      const body: PostAdminTeamResponse = { ok: true, data: created };
+      return res.status(201).json(body);
+    }
+
+    if (input.action === "revoke-key") {
+      const revoked = await revokeApiKey(db, admin, input.id);
+      if (!revoked) return fail(res, 404, "NOT_FOUND", "No active key with that id");
+      console.log(`[admin/team] ${admin.actor}: revoked key ${input.id}`);
+      const body: PostAdminTeamResponse = { ok: true, data: { revoked } };
+      return res.status(200).json(body);
+    }
+
+    const member = await setAdminRole(db, admin, input.email, input.role);
+    if (member === undefined) return fail(res, 404, "NOT_FOUND", "No account with that email");
+    console.log(`[admin/team] ${admin.actor}: set ${input.email} to ${input.role ?? "no role"}`);
+    const body: PostAdminTeamResponse = { ok: true, data: { member } };
+    return res.status(200).json(body);
+  } catch (err) {
+    console.error("[admin/team] error:", err);
+    return fail(res, 500, "INTERNAL", "Internal error");
+  }
+}
@@ -0,0 +1,119 @@
+/* ============================================================================
+   Quantara Devnet-0 • internal use only
+   (c) 2025 Quantara Technology LLC
+   File: api/admin/users.ts
+
+   Member support (see _lib/admin-users.ts). Admin key, team sign-in or
+   ADMIN_API_TOKEN (see _lib/admin.ts); reads need viewer, actions operator.
+     GET  ?q=&by=email|code|github|discord&limit=20   search (any field if no `by`)
+     GET  ?id=                                         detail: referrals, faucet, audit
+     POST { action: "verify", userId }                 mark email verified
+     POST { action: "block", userId, reason }          sign out + keep out
+     POST { action: "unblock", userId }
+     POST { action: "reassign-code", userId, code? }   new referral code (generated if omitted)
+
+   Every call is written to admin_audit (searches without the query text).
+   ========================================================================== */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import "dotenv/config";
+import { z } from "zod";
+import { getDb } from "../../db/client.serverless.js";
+import { queryParam, readJsonBody } from "../_lib/http.js";
+import { authorizeAdmin, recordAudit } from "../_lib/admin.js";
+import {
+  getUserDetail,
+  reassignReferralCode,
+  SEARCH_FIELDS,
+  searchUsers,
+  setBlocked,
+  verifyUser,
+  type ActionResult,
+} from "../_lib/admin-users.js";
+import type { AdminUserSearchField, GetAdminUsersResponse, PostAdminUsersResponse } from "../../types/api.js";
+
+const UserId = z.string().regex(/^\d{1,19}$/);
+
+const ActionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("verify"), userId: UserId }),
+  z.object({ action: z.literal("block"), userId: UserId, reason: z.string().trim().min(1).max(500) }),
+  z.object({ action: z.literal("unblock"), userId: UserId }),
+  z.object({
+    action: z.literal("reassign-code"),
+    userId: UserId,
+    code: z.string().regex(/^[A-Za-z0-9-]{4,32}$/).optional(),
+  }),
+]);
+
+function fail(res: VercelResponse, status: number, code: string, message: string) {
+  return res.status(status).json({ ok: false, code, message });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store");
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    return fail(res, 405, "METHOD_NOT_ALLOWED", "Method not allowed");
+  }
+
+  try {
+    const db = getDb();
+    const auth = await authorizeAdmin(req, db, req.method === "GET" ? "viewer" : "operator");
+    if (!auth.ok) return fail(res, auth.status, auth.code, auth.message);
+    const { admin } = auth;
+
+    if (req.method === "GET") {
+      const id = queryParam(req, "id");
+      if (id) {
+        if (!UserId.safeParse(id).success) return fail(res, 400, "BAD_REQUEST", "Invalid id");
+        const user = await getUserDetail(db, id);
+        if (!user) return fail(res, 404, "NOT_FOUND", "User not found");
+        await recordAudit(db, admin, "user.view", { targetUserId: id });
+        const body: GetAdminUsersResponse = { ok: true, data: { user } };
+        return res.status(200).json(body);
+      }
+
+      const q = queryParam(req, "q");
+      if (!q || q.length < 2 || q.length > 254) return fail(res, 400, "BAD_REQUEST", "Pass ?q= (2+ characters) or ?id=");
+      const by = queryParam(req, "by") as AdminUserSearchField | undefined;
+      if (by && !SEARCH_FIELDS.includes(by)) return fail(res, 400, "BAD_REQUEST", `by must be one of ${SEARCH_FIELDS.join(", ")}`);
+      const limit = Math.max(1, Math.min(100, Number(queryParam(req, "limit") ?? 20) || 20));
+
+      const users = await searchUsers(db, { q, by, limit });
+      // not the query itself: it's usually someone's email, and the audit log outlives erasure
+      await recordAudit(db, admin, "user.search", { detail: { by: by ?? null, results: users.length } });
+      const body: GetAdminUsersResponse = { ok: true, data: { users } };
+      return res.status(200).json(body);
+    }
+
+    const parsed = ActionSchema.safeParse(readJsonBody(req));
+    if (!parsed.success) {
+      return fail(res, 400, "BAD_REQUEST", "Expected { action: verify|block|unblock|reassign-code, userId, ... }");
+    }
+    const input = parsed.data;
+
+    let result: ActionResult;
+    if (input.action === "verify") {
+      result = await verifyUser(db, admin, input.userId);
+    } else if (input.action === "block" || input.action === "unblock") {
+      result = await setBlocked(db, admin, input.userId, input.action === "block" ? input.reason : null);
+    } else {
+      const reassigned = await reassignReferralCode(db, admin, input.userId, input.code);
+      if (!reassigned.ok && reassigned.code === "CODE_TAKEN") {
+        return fail(res, 409, "CODE_TAKEN", `Referral code ${input.code} is already in use`);
+      }
+      result = reassigned.ok ? { changed: reassigned.oldCode !== reassigned.newCode } : null;
+    }
+    if (!result) return fail(res, 404, "NOT_FOUND", "User not found");
+    console.log(`[admin/users] ${admin.actor}: ${input.action} ${input.userId}${result.changed ? "" : " (no change)"}`);
+
+    const user = await getUserDetail(db, input.userId);
+    if (!user) return fail(res, 404, "NOT_FOUND", "User not found");
+    const body: PostAdminUsersResponse = { ok: true, data: { user, changed: result.changed } };
+    return res.status(200).json(body);
+  } catch (err) {
+    console.error("[admin/users] error:", err);
+    return fail(res, 500, "INTERNAL", "Internal error");
+  }
+}
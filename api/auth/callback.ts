@@ -0,0 +1,119 @@
+/* ============================================================================
+   Quantara Devnet-0 • internal use only
+   (c) 2025 Quantara Technology LLC
+   File: api/auth/callback.ts
+
+   Target of the sign-in link. Only POST consumes the single-use login token
+   (see _lib/tokens.ts), starts a session and sets it as an HttpOnly cookie;
+   a GET just hands the link to a confirm page, since link scanners prefetch
+   GETs and would otherwise burn the token (same as consent/unsubscribe.ts).
+
+     GET  ?token=&next=                302 to /success.html?login=<token>[&next=],
+                                       which asks before POSTing back; a bad or
+                                       expired link 302s to /success.html?error=<code>&link=login
+     POST ?token=&next=                sign in, 302 to next (default /success.html?ref=<code>)
+     POST ?mode=json { token, next }   same, as JSON (credentialed CORS)
+
+   JSON errors: TOKEN_INVALID | TOKEN_EXPIRED | TOKEN_USED | TOKEN_REVOKED
+   ========================================================================== */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import "dotenv/config";
+import { sql } from "drizzle-orm";
+import { getDb } from "../../db/client.serverless.js";
+import { setCorsHeaders } from "../_lib/cors.js";
+import { appUrl, getRows, queryParam, readJsonBody } from "../_lib/http.js";
+import { consumeToken, TokenError, verifyToken, type TokenErrorCode } from "../_lib/tokens.js";
+import { safeNextPath, sessionCookie, startSession } from "../_lib/session.js";
+import type { ISODateString, PostAuthCallbackResponse } from "../../types/api.js";
+
+const TOKEN_STATUS: Record<TokenErrorCode, number> = {
+  TOKEN_INVALID: 401,
+  TOKEN_EXPIRED: 410,
+  TOKEN_USED: 410,
+  TOKEN_REVOKED: 410,
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(res, req.headers.origin as string | undefined, {
+    credentials: true,
+    methods: ["GET", "POST", "OPTIONS"],
+  });
+  if (req.method === "OPTIONS") return res.status(204).end();
+
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store");
+
+  const wantsJson = queryParam(req, "mode") === "json";
+  const fail = (status: number, code: string, message: string) => {
+    if (!wantsJson) {
+      const dest = appUrl("/success.html");
+      dest.searchParams.set("error", code);
+      dest.searchParams.set("link", "login");
+      return res.status(302).setHeader("Location", dest.toString()).send("");
+    }
+    const body: PostAuthCallbackResponse = { ok: false, code, message };
+    return res.status(status).json(body);
+  };
+
+  if (req.method !== "GET" && req.method !== "POST") return fail(405, "METHOD_NOT_ALLOWED", "Method not allowed");
+
+  try {
+    const body = req.method === "POST" ? readJsonBody(req) : {};
+    const token = queryParam(req, "token") ?? (typeof body.token === "string" ? body.token : undefined);
+    if (!token) return fail(400, "TOKEN_INVALID", "Missing token");
+
+    if (req.method === "GET") {
+      // signature/expiry only; used or replaced links are caught on POST
+      try {
+        await verifyToken(token, "login");
+      } catch (e) {
+        if (e instanceof TokenError) return fail(TOKEN_STATUS[e.code], e.code, e.message);
+        throw e;
+      }
+      const confirm = appUrl("/success.html");
+      confirm.searchParams.set("login", token);
+      const next = safeNextPath(queryParam(req, "next"));
+      if (next) confirm.searchParams.set("next", next);
+      return res.status(302).setHeader("Location", confirm.toString()).send("");
+    }
+
+    const db = getDb();
+    let userId: string;
+    try {
+      userId = (await consumeToken(db, token, "login")).sub;
+    } catch (e) {
+      if (e instanceof TokenError) return fail(TOKEN_STATUS[e.code], e.code, e.message);
+      throw e;
+    }
+
+    const userQ = sql<{ id: string; email: string; referral_code: string | null }>`
+      SELECT id::text AS id, email, referral_code FROM user_account WHERE id = ${userId}
+    `;
+    const user = getRows<{ id: string; email: string; referral_code: string | null }>(await db.execute(userQ))[0];
+    if (!user) return fail(404, "NOT_FOUND", "User not found");
+
+    const session = await startSession(db, user);
+    res.setHeader("Set-Cookie", sessionCookie(session.token, session.expiresAt));
+
+    const next = safeNextPath(queryParam(req, "next") ?? body.next);
+    const dest = appUrl(next ?? "/success.html");
+    if (!next && user.referral_code) dest.searchParams.set("ref", user.referral_code);
+
+    if (wantsJson) {
+      const out: PostAuthCallbackResponse = {
+        ok: true,
+        data: {
+          userId: user.id,
+          expiresAt: session.expiresAt.toISOString() as ISODateString,
+          redirect: dest.toString(),
+        },
+      };
+      return res.status(200).json(out);
+    }
+    return res.status(302).setHeader("Location", dest.toString()).send("");
+  } catch (err) {
+    console.error("[auth/callback] error:", err);
+    return res.status(500).json({ ok: false, code: "INTERNAL", message: "Internal error" });
+  }
+}
@@ -0,0 +1,111 @@
+/* ============================================================================
+   Quantara Devnet-0 • internal use only
+   (c) 2025 Quantara Technology LLC
+   File: api/auth/login.ts
+
+   Emails a magic sign-in link (single use, 15 minutes; see _lib/session.ts).
+   Turnstile-protected and rate-limited per IP hash and per inbox. Requesting
+   a new link invalidates the earlier ones.
+
+   Like /api/resend-verification, the response is identical whether or not
+   the address is on the list, and the email goes out via the outbox cron.
+
+   Request:  { email, turnstileToken, next? }
+   Response: { ok: true, data: { accepted: true } }
+   ========================================================================== */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import "dotenv/config";
+import { z } from "zod";
+import { sql } from "drizzle-orm";
+import { getDb } from "../../db/client.serverless.js";
+import { setCorsHeaders } from "../_lib/cors.js";
+import { verifyTurnstile } from "../_lib/turnstile.js";
+import { loginLinkLimit } from "../_lib/ratelimit.js";
+import { clientIp, getRows, hashIp, readJsonBody } from "../_lib/http.js";
+import { canonicalEmail, normalizeEmail } from "../_lib/email-address.js";
+import { queueLoginEmail, safeNextPath } from "../_lib/session.js";
+import type { PostLoginResponse } from "../../types/api.js";
+
+const LoginSchema = z.object({
+  email: z.string().trim().min(3).max(254),
+  turnstileToken: z.string().min(3),
+  next: z.string().max(512).optional(),
+});
+
+/** Minimum gap between two sign-in emails to the same user (DB-enforced) */
+const COOLDOWN_S = Math.max(0, Number(process.env.LOGIN_LINK_COOLDOWN_SECONDS ?? 60) || 0);
+
+function fail(res: VercelResponse, status: number, code: string, message: string) {
+  const body: PostLoginResponse = { ok: false, code, message };
+  return res.status(status).json(body);
+}
+
+function retryAfter(reset: number) {
+  return Math.max(1, Math.ceil((reset - Date.now()) / 1000));
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(res, req.headers.origin as string | undefined, { methods: ["POST", "OPTIONS"] });
+  if (req.method === "OPTIONS") return res.status(204).end();
+
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store");
+  if (req.method !== "POST") return fail(res, 405, "METHOD_NOT_ALLOWED", "Method not allowed");
+
+  try {
+    const raw = readJsonBody(req);
+    const parsed = LoginSchema.safeParse({
+      email: raw.email,
+      turnstileToken: raw.turnstileToken ?? raw["cf-turnstile-response"] ?? raw.cf_turnstile_response,
+      next: raw.next,
+    });
+    const normalized = parsed.success ? normalizeEmail(parsed.data.email) : null;
+    if (!parsed.success || !normalized) return fail(res, 400, "BAD_REQUEST", "Invalid payload");
+
+    const email = normalized.address;
+    const canonical = canonicalEmail(normalized);
+    const ip = clientIp(req);
+    const human = await verifyTurnstile(parsed.data.turnstileToken, { ip });
+    if (!human.success) {
+      return fail(res, 401, "TURNSTILE_FAILED", "Human verification failed");
+    }
+
+    for (const key of [`ip:${hashIp(ip)}`, `email:${canonical}`]) {
+      const rl = await loginLinkLimit(key);
+      if (!rl.success) {
+        res.setHeader("Retry-After", String(retryAfter(rl.reset)));
+        return fail(res, 429, "RATE_LIMITED", "Too many requests, please try again later.");
+      }
+    }
+
+    const db = getDb();
+    const userQ = sql<{ id: string; email: string; locale: string; recent: boolean }>`
+      SELECT u.id::text AS id, u.email, u.locale,
+             EXISTS (
+               SELECT 1 FROM email_outbox o
+                WHERE o.user_id = u.id
+                  AND o.kind = 'login-link'
+                  AND o.created_at > now() - make_interval(secs => ${COOLDOWN_S})
+             ) AS recent
+        FROM user_account u
+       WHERE (u.email_canonical = ${canonical} OR lower(u.email) = ${email})
+         AND u.blocked_at IS NULL
+       LIMIT 1
+    `;
+    const user = getRows<{ id: string; email: string; locale: string; recent: boolean }>(
+      await db.execute(userQ)
+    )[0];
+
+    // Unknown address or inside the cooldown: same answer, nothing sent
+    if (user && !user.recent) {
+      await queueLoginEmail(db, user, { next: safeNextPath(parsed.data.next) });
+    }
+
+    const body: PostLoginResponse = { ok: true, data: { accepted: true } };
+    return res.status(202).json(body);
+  } catch (err) {
+    console.error("[auth/login] error:", err);
+    return fail(res, 500, "INTERNAL", "Internal error, please try again.");
+  }
+}
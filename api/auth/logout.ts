@@ -0,0 +1,49 @@
+/* ============================================================================
+   Quantara Devnet-0 • internal use only
+   (c) 2025 Quantara Technology LLC
+   File: api/auth/logout.ts
+
+   Ends the cookie session: revokes its token server-side and clears the
+   cookie. Always succeeds, so a stale or missing cookie still logs out.
+
+   Response: { ok: true, data: { loggedOut: true } }
+   ========================================================================== */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import "dotenv/config";
+import { getDb } from "../../db/client.serverless.js";
+import { setCorsHeaders } from "../_lib/cors.js";
+import { authenticate } from "../_lib/auth.js";
+import { clearedSessionCookie, readSessionCookie } from "../_lib/session.js";
+import { revokeTokens } from "../_lib/tokens.js";
+import type { PostLogoutResponse } from "../../types/api.js";
+
+function fail(res: VercelResponse, status: number, code: string, message: string) {
+  const body: PostLogoutResponse = { ok: false, code, message };
+  return res.status(status).json(body);
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(res, req.headers.origin as string | undefined, { credentials: true, methods: ["POST", "OPTIONS"] });
+  if (req.method === "OPTIONS") return res.status(204).end();
+
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store");
+  if (req.method !== "POST") return fail(res, 405, "METHOD_NOT_ALLOWED", "Method not allowed");
+
+  try {
+    if (readSessionCookie(req)) {
+      const db = getDb();
+      const auth = await authenticate(req, db);
+      if (!auth.ok && auth.code === "FORBIDDEN_ORIGIN") return fail(res, 403, auth.code, auth.message);
+      if (auth.ok && auth.via === "session") await revokeTokens(db, { jti: auth.jti });
+    }
+
+    res.setHeader("Set-Cookie", clearedSessionCookie());
+    const body: PostLogoutResponse = { ok: true, data: { loggedOut: true } };
+    return res.status(200).json(body);
+  } catch (err) {
+    console.error("[auth/logout] error:", err);
+    return fail(res, 500, "INTERNAL", "Internal error");
+  }
+}
@@ -0,0 +1,83 @@
+/* ============================================================================
+   Quantara Devnet-0 • internal use only
+   (c) 2025 Quantara Technology LLC
+   File: api/auth/me.ts
+
+   The signed-in user (session cookie or dashboard bearer token):
+     GET /api/auth/me
+
+   Response: { ok: true, data: MeProfile }   401 when signed out
+   ========================================================================== */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import "dotenv/config";
+import { sql } from "drizzle-orm";
+import { getDb } from "../../db/client.serverless.js";
+import { setCorsHeaders } from "../_lib/cors.js";
+import { getRows } from "../_lib/http.js";
+import { authenticate } from "../_lib/auth.js";
+import { queueStanding } from "../_lib/queue.js";
+import type { GetMeResponse, ISODateString } from "../../types/api.js";
+
+type MeRow = {
+  id: string;
+  email: string;
+  role: string | null;
+  locale: string;
+  referral_code: string | null;
+  email_verified: boolean;
+  admitted_at: string | Date | null;
+  cohort: string | null;
+};
+
+function fail(res: VercelResponse, status: number, code: string, message: string) {
+  const body: GetMeResponse = { ok: false, code, message };
+  return res.status(status).json(body);
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(res, req.headers.origin as string | undefined, { credentials: true, methods: ["GET", "OPTIONS"] });
+  if (req.method === "OPTIONS") return res.status(204).end();
+
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Cache-Control", "private, no-store");
+  if (req.method !== "GET") return fail(res, 405, "METHOD_NOT_ALLOWED", "Method not allowed");
+
+  try {
+    const db = getDb();
+    const auth = await authenticate(req, db);
+    if (!auth.ok) return fail(res, 401, auth.code, auth.message);
+
+    const q = sql<MeRow>`
+      SELECT u.id::text AS id, u.email, u.role, u.locale, u.referral_code, u.email_verified,
+             u.admitted_at, c.name AS cohort
+        FROM user_account u
+        LEFT JOIN cohort c ON c.id = u.cohort_id
+       WHERE u.id = ${auth.userId}
+    `;
+    const user = getRows<MeRow>(await db.execute(q))[0];
+    if (!user) return fail(res, 404, "NOT_FOUND", "Account not found");
+
+    const body: GetMeResponse = {
+      ok: true,
+      data: {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        locale: user.locale,
+        referralCode: user.referral_code,
+        emailVerified: Boolean(user.email_verified),
+        queue: await queueStanding(db, user.id),
+        admission:
+          user.admitted_at && user.cohort
+            ? { cohort: user.cohort, admittedAt: new Date(user.admitted_at).toISOString() as ISODateString }
+            : null,
+        auth: auth.via,
+      },
+    };
+    return res.status(200).json(body);
+  } catch (err) {
+    console.error("[auth/me] error:", err);
+    return fail(res, 500, "INTERNAL", "Internal error");
+  }
+}
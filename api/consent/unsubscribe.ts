@@ -0,0 +1,66 @@
+/* ============================================================================
+   Quantara Devnet-0 • internal use only
+   (c) 2025 Quantara Technology LLC
+   File: api/consent/unsubscribe.ts
+
+   One-click unsubscribe from marketing email (RFC 8058). Every email to a
+   known user carries this URL with a signed token in List-Unsubscribe, and
+   marketing mail also links it in the footer (see _lib/email.ts).
+
+     POST ?token=   unsubscribe; mail providers send
+                    "List-Unsubscribe=One-Click" as the form body
+     GET  ?token=   302 to /success.html?unsubscribe=<token>, which asks before
+                    POSTing back (link scanners prefetch GETs)
+
+   Response: { ok: true, data: { unsubscribed: true } }
+   Errors:   TOKEN_INVALID (GET: 302 to /success.html?error=TOKEN_INVALID&link=unsubscribe)
+   ========================================================================== */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import "dotenv/config";
+import { getDb } from "../../db/client.serverless.js";
+import { setCorsHeaders } from "../_lib/cors.js";
+import { appUrl, queryParam } from "../_lib/http.js";
+import { verifyUnsubscribeToken } from "../_lib/email.js";
+import { unsubscribe } from "../_lib/consent.js";
+import type { PostUnsubscribeResponse } from "../../types/api.js";
+
+function fail(res: VercelResponse, status: number, code: string, message: string) {
+  const body: PostUnsubscribeResponse = { ok: false, code, message };
+  return res.status(status).json(body);
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(res, req.headers.origin as string | undefined, { methods: ["GET", "POST", "OPTIONS"] });
+  if (req.method === "OPTIONS") return res.status(204).end();
+
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store");
+  if (req.method !== "GET" && req.method !== "POST") return fail(res, 405, "METHOD_NOT_ALLOWED", "Method not allowed");
+
+  try {
+    const token = queryParam(req, "token");
+    const userId = token ? await verifyUnsubscribeToken(token) : null;
+
+    if (req.method === "GET") {
+      const dest = appUrl("/success.html");
+      if (userId) {
+        dest.searchParams.set("unsubscribe", token!);
+      } else {
+        dest.searchParams.set("error", "TOKEN_INVALID");
+        dest.searchParams.set("link", "unsubscribe");
+      }
+      return res.status(302).setHeader("Location", dest.toString()).send("");
+    }
+
+    if (!userId) return fail(res, 400, "TOKEN_INVALID", "Invalid unsubscribe link");
+    // A deleted account has nothing left to send to, so that counts as done too
+    if (await unsubscribe(getDb(), userId)) console.log(`[consent/unsubscribe] user ${userId}`);
+
+    const body: PostUnsubscribeResponse = { ok: true, data: { unsubscribed: true } };
+    return res.status(200).json(body);
+  } catch (err) {
+    console.error("[consent/unsubscribe] error:", err);
+    return fail(res, 500, "INTERNAL", "Internal error");
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Quantara Devnet-0 • internal use only
+ * (c) 2025 Quantara Technology LLC
+ * File: api/cron/queue-positions.ts
+ *
+ * Vercel Cron entry point: recomputes waitlist positions (see _lib/queue.ts).
+ * Requires `Authorization: Bearer $CRON_SECRET`.
+ */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import "dotenv/config";
+import { getDb } from "../../db/client.serverless.js";
+import { isCronAuthorized } from "../_lib/http.js";
+import { recomputeQueue } from "../_lib/queue.js";
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store");
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    return res.status(405).json({ ok: false, code: "METHOD_NOT_ALLOWED", message: "Method not allowed" });
+  }
+  if (!isCronAuthorized(req)) {
+    return res.status(401).json({ ok: false, code: "UNAUTHORIZED", message: "Unauthorized" });
+  }
+
+  try {
+    const summary = await recomputeQueue(getDb());
+    return res.status(200).json({ ok: true, data: summary });
+  } catch (err) {
+    console.error("[cron/queue-positions] error:", err);
+    return res.status(500).json({ ok: false, code: "INTERNAL", message: "Internal error" });
+  }
+}
@@ -0,0 +1,165 @@
+/* ============================================================================
+   Quantara Devnet-0 • internal use only
+   (c) 2025 Quantara Technology LLC
+   File: api/faucet-claim.ts
+
+   Accepts faucet claims: validates the SS58 (prefix 73) address, verifies the
+   Turnstile proof, rate-limits per IP hash and per address, and stores a
+   PENDING faucet_claim row for the payout worker to pick up. Claims made while
+   signed in (session cookie or dashboard token, see _lib/auth.ts) are linked
+   to the account, so they show up in its data export; anonymous claims are
+   still accepted and stay unlinked.
+
+   Blocked accounts (api/admin/users.ts) can't claim while signed in, nor to
+   an address one of their claims went to. A blocked user claiming anonymously
+   to a fresh address is only held back by the per-IP and per-address caps.
+
+   Response: { ok: true, data: { accepted, claimId, status, amount } }
+   ========================================================================== */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import "dotenv/config";
+import { z } from "zod";
+import { sql } from "drizzle-orm";
+import { getDb } from "../db/client.serverless.js";
+import { setCorsHeaders } from "./_lib/cors.js";
+import { verifyTurnstile } from "./_lib/turnstile.js";
+import { limit } from "./_lib/ratelimit.js";
+import { clientIp, getRows, hashIp, readJsonBody } from "./_lib/http.js";
+import { isValidSs58, QUANTARA_SS58_PREFIX } from "./_lib/ss58.js";
+import { faucetAmount, faucetDailyLimit } from "./_lib/faucet.js";
+import { authenticate } from "./_lib/auth.js";
+import type { PostFaucetClaimResponse } from "../types/api.js";
+
+const ClaimSchema = z.object({
+  address: z.string().trim().min(40).max(64),
+  proof: z.string().min(3),
+});
+
+function fail(res: VercelResponse, status: number, code: string, message: string) {
+  const body: PostFaucetClaimResponse = { ok: false, code, message };
+  return res.status(status).json(body);
+}
+
+/** Seconds until an Upstash reset timestamp (ms) */
+function retryAfter(reset: number) {
+  return Math.max(1, Math.ceil((reset - Date.now()) / 1000));
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(res, req.headers.origin as string | undefined, { methods: ["POST", "OPTIONS"] });
+  if (req.method === "OPTIONS") return res.status(204).end();
+
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store");
+  if (req.method !== "POST") return fail(res, 405, "METHOD_NOT_ALLOWED", "Method not allowed");
+
+  try {
+    const raw = readJsonBody(req);
+    const parsed = ClaimSchema.safeParse({
+      address: raw.address,
+      proof: raw.proof ?? raw["cf-turnstile-response"] ?? raw.turnstileToken,
+    });
+    if (!parsed.success) return fail(res, 400, "BAD_REQUEST", "Invalid payload");
+
+    const { address, proof } = parsed.data;
+    if (!isValidSs58(address, QUANTARA_SS58_PREFIX)) {
+      return fail(res, 400, "INVALID_ADDRESS", `Enter a valid SS58=${QUANTARA_SS58_PREFIX} address.`);
+    }
+
+    const ip = clientIp(req);
+    const human = await verifyTurnstile(proof, { ip });
+    if (!human.success) {
+      return fail(res, 401, "TURNSTILE_FAILED", "Human verification failed");
+    }
+
+    // Burst limits (Upstash; no-op when Redis is not configured)
+    const ipHash = hashIp(ip);
+    for (const key of [`faucet:ip:${ipHash}`, `faucet:addr:${address}`]) {
+      const rl = await limit(key);
+      if (!rl.success) {
+        res.setHeader("Retry-After", String(retryAfter(rl.reset)));
+        return fail(res, 429, "RATE_LIMITED", "Too many claims, please try again later.");
+      }
+    }
+
+    const db = getDb();
+    const auth = await authenticate(req, db);
+    const blockedAddrQ = sql<{ blocked: boolean }>`
+      SELECT EXISTS (
+        SELECT 1 FROM faucet_claim f JOIN user_account u ON u.id = f.user_id
+         WHERE f.ss58_address = ${address} AND u.blocked_at IS NOT NULL
+      ) AS blocked
+    `;
+    if (
+      (!auth.ok && auth.code === "ACCOUNT_BLOCKED") ||
+      getRows<{ blocked: boolean }>(await db.execute(blockedAddrQ))[0]?.blocked
+    ) {
+      return fail(res, 403, "ACCOUNT_BLOCKED", "This account has been blocked");
+    }
+    const userId = auth.ok ? auth.userId : null;
+
+    // Daily caps (DB-enforced, so they hold without Redis too). Parallel requests
+    // each count from their own snapshot, so the count alone can't stop them all
+    // inserting; the partial unique indexes allow one open (PENDING/PROCESSING)
+    // claim per address and per IP, so the losers conflict instead, and every
+    // claim that gets in was counted against all earlier ones.
+    const perDay = faucetDailyLimit();
+    const amount = faucetAmount();
+    const claimQ = sql<{ by_addr: number; by_ip: number; pending: number; id: string | null; status: "PENDING" | null }>`
+      WITH recent AS (
+        SELECT
+          COUNT(*) FILTER (WHERE ss58_address = ${address})::int AS by_addr,
+          COUNT(*) FILTER (WHERE ip_hash = ${ipHash})::int      AS by_ip,
+          COUNT(*) FILTER (WHERE ss58_address = ${address} AND status IN ('PENDING', 'PROCESSING'))::int AS pending
+        FROM faucet_claim
+        WHERE (ss58_address = ${address} OR ip_hash = ${ipHash})
+          AND created_at >= now() - interval '24 hours'
+          AND status <> 'REJECTED'
+      ),
+      ins AS (
+        INSERT INTO faucet_claim (user_id, ss58_address, ip_hash, amount_qtr, status)
+        SELECT ${userId}::bigint, ${address}, ${ipHash}, ${amount}, 'PENDING'
+          FROM recent
+         WHERE recent.pending = 0
+           AND recent.by_addr < ${perDay}
+           AND recent.by_ip < ${perDay}
+        RETURNING id::text AS id, status
+      )
+      SELECT r.by_addr, r.by_ip, r.pending, i.id, i.status
+        FROM recent r
+        LEFT JOIN ins i ON true
+    `;
+    let claim;
+    try {
+      claim = getRows(await db.execute(claimQ))[0];
+    } catch (e: any) {
+      const msg = String(e?.message || e);
+      if (/faucet_claim_addr_open_uq/.test(msg)) {
+        return fail(res, 409, "CLAIM_PENDING", "A claim for this address is already being processed.");
+      }
+      if (/faucet_claim_ip_open_uq/.test(msg)) {
+        res.setHeader("Retry-After", "60");
+        return fail(res, 429, "RATE_LIMITED", "A claim from your network is being processed, please try again in a minute.");
+      }
+      throw e;
+    }
+    if (!claim) throw new Error("Failed to insert faucet claim");
+    if (claim.pending > 0) {
+      return fail(res, 409, "CLAIM_PENDING", "A claim for this address is already being processed.");
+    }
+    if (!claim.id || !claim.status) {
+      res.setHeader("Retry-After", String(24 * 60 * 60));
+      return fail(res, 429, "RATE_LIMITED", "Daily claim limit reached, please try again tomorrow.");
+    }
+
+    const body: PostFaucetClaimResponse = {
+      ok: true,
+      data: { accepted: true, claimId: claim.id, status: claim.status, amount },
+    };
+    return res.status(202).json(body);
+  } catch (err) {
+    console.error("[faucet-claim] error:", err);
+    return fail(res, 500, "INTERNAL", "Internal error, please try again.");
+  }
+}
@@ -0,0 +1,100 @@
+/* ============================================================================
+   Quantara Devnet-0 • internal use only
+   (c) 2025 Quantara Technology LLC
+   File: api/faucet-status.ts
+
+   Faucet claim status lookup, polled by /faucet/ after a claim:
+     GET /api/faucet-status?id=<claimId>
+     GET /api/faucet-status?address=<ss58>&limit=5   (latest N, max 20)
+
+   Response: { ok: true, data: { claims: FaucetClaimView[] } }
+   ========================================================================== */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import "dotenv/config";
+import { sql } from "drizzle-orm";
+import { getDb } from "../db/client.serverless.js";
+import { setCorsHeaders } from "./_lib/cors.js";
+import { getRows, queryParam } from "./_lib/http.js";
+import { isValidSs58 } from "./_lib/ss58.js";
+import { buildNetworkConfig, explorerTxUrl } from "./_lib/network.js";
+import type {
+  FaucetClaimStatus,
+  FaucetClaimView,
+  GetFaucetStatusResponse,
+  ISODateString,
+} from "../types/api.js";
+
+type Row = {
+  id: string;
+  ss58_address: string;
+  amount_qtr: string;
+  status: FaucetClaimStatus;
+  tx_hash: string | null;
+  reason: string | null;
+  created_at: string | Date;
+  processed_at: string | Date | null;
+};
+
+function fail(res: VercelResponse, status: number, code: string, message: string) {
+  const body: GetFaucetStatusResponse = { ok: false, code, message };
+  return res.status(status).json(body);
+}
+
+const iso = (v: string | Date) => new Date(v).toISOString() as ISODateString;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(res, req.headers.origin as string | undefined, { methods: ["GET", "OPTIONS"] });
+  if (req.method === "OPTIONS") return res.status(204).end();
+
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  if (req.method !== "GET") return fail(res, 405, "METHOD_NOT_ALLOWED", "Method not allowed");
+
+  const id = queryParam(req, "id");
+  const address = queryParam(req, "address");
+  const limit = Math.max(1, Math.min(20, Number(queryParam(req, "limit") ?? 5) || 5));
+
+  if (id && !/^\d{1,19}$/.test(id)) return fail(res, 400, "BAD_REQUEST", "Invalid claim id");
+  if (!id && !address) return fail(res, 400, "BAD_REQUEST", "Pass ?id= or ?address=");
+  if (address && !isValidSs58(address)) {
+    return fail(res, 400, "INVALID_ADDRESS", "Enter a valid SS58=73 address.");
+  }
+
+  try {
+    const db = getDb();
+    const where = id ? sql`id = ${id}` : sql`ss58_address = ${address}`;
+    const q = sql<Row>`
+      SELECT id::text AS id, ss58_address, amount_qtr, status, tx_hash, reason, created_at, processed_at
+        FROM faucet_claim
+       WHERE ${where}
+       ORDER BY created_at DESC, id DESC
+       LIMIT ${id ? 1 : limit}
+    `;
+    const rows = getRows<Row>(await db.execute(q));
+    if (id && !rows.length) return fail(res, 404, "NOT_FOUND", "Claim not found");
+
+    const cfg = buildNetworkConfig();
+    const claims: FaucetClaimView[] = rows.map((r) => ({
+      id: r.id,
+      address: r.ss58_address,
+      amount: r.amount_qtr,
+      status: r.status,
+      txHash: r.tx_hash,
+      // worker notes on in-flight rows are operator-only
+      reason: r.status === "REJECTED" ? r.reason : null,
+      explorerUrl: explorerTxUrl(cfg, r.tx_hash),
+      createdAt: iso(r.created_at),
+      processedAt: r.processed_at ? iso(r.processed_at) : null,
+    }));
+
+    // Settled claims never change; in-flight ones are polled
+    const settled = claims.every((c) => c.status === "SENT" || c.status === "REJECTED");
+    res.setHeader("Cache-Control", id && settled ? "public, max-age=300, s-maxage=300" : "no-store");
+
+    const body: GetFaucetStatusResponse = { ok: true, data: { claims } };
+    return res.status(200).json(body);
+  } catch (err) {
+    console.error("[faucet-status] error:", err);
+    return fail(res, 500, "INTERNAL", "Internal error, please try again.");
+  }
+}
@@ -2,111 +2,185 @@
    Quantara • Devnet-0 • API: leaderboard
    - ESM (NodeNext) compatible
    - CORS: GET/OPTIONS
-   - Returns weekly/monthly/all-time referral points (SIGNUP + VERIFIED)
+   - Returns weekly/monthly/all-time referral points (SIGNUP + VERIFIED;
+     weights are server-side: LEADERBOARD_WEIGHTS, default 1,2,0)
+   - ?season=<slug> ranks a season with its own weights and eligible kinds:
+     live while open, the frozen final standings once closed
+   - Also reports link CLICKs and click→signup conversion
+   - ?cursor=<nextCursor> pages through the full board (keyset, stable)
+   - Reads trigger-maintained daily tallies (referral_tally); whole replies
+     are cached in Upstash Redis for LEADERBOARD_CACHE_SECONDS when configured
+   - ?code=<referral code>&around=K returns that user's rank plus K rows
+     above and below (same ordering as the board)
+   - Reply: { ok: true, data: LeaderboardResponseBody }; unknown season or
+     code → 404 NOT_FOUND
    ========================================================================== */
 
-import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { sql } from 'drizzle-orm';
+import { z } from 'zod';
+import { sql, type SQL } from 'drizzle-orm';
 import { getDb } from '../db/client.serverless.js';
+import {
+  afterCursor,
+  decodeCursor,
+  DEFAULT_SCORING,
+  encodeCursor,
+  parseWindow,
+  scoresQuery,
+  type CursorKey,
+  type ScoreRow,
+} from './_lib/leaderboard.js';
+import { cached } from './_lib/cache.js';
+import { defineHandler, HttpError, reply, type Reply } from './_lib/handler.js';
+import { getRows } from './_lib/http.js';
+import { getSeason, seasonInfo, seasonScores } from './_lib/seasons.js';
+import type { SqlExecutor } from '../db/types.js';
+import type { LeaderboardResponseBody, LeaderboardRow, LeaderboardWindow } from '../types/api.js';
 
-/** CORS: allow a comma-separated list in ALLOWED_ORIGINS (fallback: APP_URL or '*') */
-function setCors(req: VercelRequest, res: VercelResponse) {
-  const allowEnv =
-    process.env.ALLOWED_ORIGINS ||
-    process.env.CORS_ALLOWED_ORIGINS ||
-    process.env.APP_URL ||
-    '*';
-  const list = allowEnv.split(',').map(s => s.trim()).filter(Boolean);
-  const origin = (req.headers.origin as string) || '';
-  const allowedOrigin = list.includes('*')
-    ? origin || '*'
-    : (list.includes(origin) ? origin : list[0] || '*');
-
-  res.setHeader('Vary', 'Origin');
-  res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
-  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-  res.setHeader('Content-Type', 'application/json; charset=utf-8');
-}
+const MAX_AROUND = 25;
+/** Redis + CDN lifetime of a board (LEADERBOARD_CACHE_SECONDS, default 30) */
+const CACHE_TTL_S = Math.max(0, Number(process.env.LEADERBOARD_CACHE_SECONDS ?? 30) || 0);
+// Brief public cache with SWR for live boards; a closed season's final standings never change
+const LIVE_CACHE = `public, s-maxage=${CACHE_TTL_S}, stale-while-revalidate=${CACHE_TTL_S * 2}`;
+const CLOSED_SEASON_CACHE = 'public, s-maxage=3600, stale-while-revalidate=86400';
 
-/** Normalize drizzle execute result (array for neon-http, { rows } for pg) */
-function getRows(execResult: any) {
-  return Array.isArray(execResult) ? execResult : execResult?.rows;
+/** Public row shape (internal keys stripped) */
+function toRow(r: ScoreRow): LeaderboardRow {
+  return {
+    rank: r.rank,
+    referral_code: r.referral_code,
+    name: r.name,
+    signups: r.signups,
+    verified: r.verified,
+    clicks: r.clicks,
+    conversion: r.conversion,
+    points: r.points,
+  };
 }
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  setCors(req, res);
-  if (req.method === 'OPTIONS') return res.status(204).end();
-  if (req.method !== 'GET') {
-    return res.status(405).json({ ok: false, error: 'Method not allowed' });
-  }
+type BoardQuery = {
+  season: string;
+  window: LeaderboardWindow;
+  limit: number;
+  min: number;
+  code: string;
+  around: number;
+  cursor: CursorKey | null;
+};
 
-  try {
-    const db = await getDb();
-
-    // time window: week | month | all (default: week)
-    const windowQ = (req.query.window as string | undefined)?.toLowerCase() ?? 'week';
-    const windowSql =
-      windowQ === 'month'
-        ? sql`date_trunc('month', now())`
-        : windowQ === 'all'
-        ? sql`to_timestamp(0)` // epoch start = all-time
-        : sql`date_trunc('week', now())`;
-
-    // limit and minimum points filters
-    const limit = Math.max(1, Math.min(100, Number(req.query.limit ?? 20) || 20));
-    const min = Math.max(0, Number(req.query.min ?? 0) || 0);
-
-    // weights: ?w=1,2 => SIGNUP weight=1, VERIFIED weight=2 (defaults)
-    const weights = String(req.query.w ?? '1,2').split(',').map(n => Number(n));
-    const wSignup = Number.isFinite(weights[0]) ? weights[0] : 1;
-    const wVerified = Number.isFinite(weights[1]) ? weights[1] : 2;
-
-    type Row = {
-      referral_code: string;
-      name: string;
-      signups: number;
-      verified: number;
-      points: number;
+/** The board, or why there is none, so a whole reply can be cached */
+type Board = { ok: true; data: LeaderboardResponseBody } | { ok: false; message: string };
+
+async function loadBoard(db: SqlExecutor, q: BoardQuery): Promise<Board> {
+  // ?season=<slug> → that season's board; otherwise a rolling window.
+  // Scoring is never taken from the query.
+  let board: Pick<LeaderboardResponseBody, 'window' | 'weights' | 'eligibleKinds' | 'season'>;
+  let scores: SQL;
+  if (q.season) {
+    const season = await getSeason(db, q.season);
+    if (!season) {
+      return { ok: false, message: 'Unknown season' };
+    }
+    board = {
+      window: 'season',
+      weights: season.scoring.weights,
+      eligibleKinds: season.scoring.kinds,
+      season: seasonInfo(season),
     };
+    scores = seasonScores(season);
+  } else {
+    board = { window: q.window, weights: DEFAULT_SCORING.weights, eligibleKinds: DEFAULT_SCORING.kinds };
+    scores = scoresQuery(q.window);
+  }
 
-    // leaderboard: only users with a code; mask email; score both kinds
-    const q = sql<Row>`
-      SELECT
-        u.referral_code,
-        left(u.email, 3) || '***' AS name,
-        COALESCE(COUNT(*) FILTER (WHERE r.kind = 'SIGNUP'   AND r.created_at >= ${windowSql}), 0)::int AS signups,
-        COALESCE(COUNT(*) FILTER (WHERE r.kind = 'VERIFIED' AND r.created_at >= ${windowSql}), 0)::int AS verified,
-        (
-          COALESCE(COUNT(*) FILTER (WHERE r.kind = 'SIGNUP'   AND r.created_at >= ${windowSql}), 0) * ${wSignup} +
-          COALESCE(COUNT(*) FILTER (WHERE r.kind = 'VERIFIED' AND r.created_at >= ${windowSql}), 0) * ${wVerified}
-        )::int AS points
-      FROM user_account u
-      LEFT JOIN referral_event r ON r.referrer_id = u.id
-      WHERE u.referral_code IS NOT NULL
-      GROUP BY u.id
-      HAVING (
-        COALESCE(COUNT(*) FILTER (WHERE r.kind = 'SIGNUP'   AND r.created_at >= ${windowSql}), 0) * ${wSignup} +
-        COALESCE(COUNT(*) FILTER (WHERE r.kind = 'VERIFIED' AND r.created_at >= ${windowSql}), 0) * ${wVerified}
-      ) >= ${min}
-      ORDER BY points DESC NULLS LAST, verified DESC, signups DESC, u.created_at ASC
-      LIMIT ${limit}
+  // ?code= → that user's rank and neighbourhood
+  if (q.code) {
+    const meQ = sql<ScoreRow>`
+      WITH s AS (${scores})
+      SELECT * FROM s WHERE referral_code = ${q.code}
     `;
+    const me = getRows<ScoreRow>(await db.execute(meQ))[0];
+    if (!me) {
+      return { ok: false, message: 'Unknown referral code' };
+    }
 
-    const execResult = await db.execute(q);
-    const rows = getRows(execResult) ?? [];
-
-    // Brief public cache; SWR for speed
-    res.setHeader('Cache-Control', 'public, s-maxage=30, stale-while-revalidate=60');
+    const nearQ = sql<ScoreRow>`
+      WITH s AS (${scores})
+      SELECT * FROM s
+       WHERE rank BETWEEN ${me.rank - q.around} AND ${me.rank + q.around}
+       ORDER BY rank
+    `;
+    const near = getRows<ScoreRow>(await db.execute(nearQ));
+    const last = near[near.length - 1];
 
-    return res.status(200).json({
+    return {
       ok: true,
-      window: windowQ,
-      weights: { signup: wSignup, verified: wVerified },
-      data: rows,
-    });
-  } catch (err) {
-    console.error('[leaderboard] error:', err);
-    return res.status(500).json({ ok: false, error: 'Internal error' });
+      data: {
+        ...board,
+        me: toRow(me),
+        total: me.total,
+        data: near.map(toRow),
+        nextCursor: last && last.rank < last.total ? encodeCursor(last) : null,
+      },
+    };
   }
+
+  // leaderboard: only users with a code; mask email; eligible kinds score (see _lib/leaderboard.ts)
+  const pageQ = sql<ScoreRow>`
+    WITH s AS (${scores})
+    SELECT * FROM s
+     WHERE s.points >= ${q.min}
+       ${q.cursor ? sql`AND ${afterCursor(q.cursor)}` : sql``}
+     ORDER BY s.rank
+     LIMIT ${q.limit + 1}
+  `;
+
+  const rows = getRows<ScoreRow>(await db.execute(pageQ));
+  const page = rows.slice(0, q.limit);
+  const hasMore = rows.length > q.limit;
+
+  return {
+    ok: true,
+    data: {
+      ...board,
+      total: page[0]?.total ?? 0,
+      data: page.map(toRow),
+      nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+    },
+  };
 }
+
+/** Lenient on purpose: bad numbers fall back to the defaults, out-of-range ones are clamped */
+const num = (fallback: number) => z.coerce.number().int().catch(fallback);
+
+const LeaderboardQuery = z.object({
+  season: z.string().max(64).default(''),
+  // time window: week | month | all (default: week)
+  window: z.string().default('week').transform(parseWindow),
+  // limit and minimum points filters
+  limit: num(20).transform((n) => Math.max(1, Math.min(100, n))),
+  min: num(0).transform((n) => Math.max(0, n)),
+  code: z.string().max(64).default(''),
+  around: num(5).transform((n) => Math.max(0, Math.min(MAX_AROUND, n))),
+  cursor: z.string().max(512).default(''),
+});
+
+export default defineHandler({
+  name: 'leaderboard',
+  methods: ['GET'],
+  cacheControl: LIVE_CACHE,
+  query: LeaderboardQuery,
+  async handle({ query }): Promise<Reply<LeaderboardResponseBody>> {
+    // ?cursor= → continue after the last row of the previous page
+    const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+    if (query.cursor && !cursor) throw new HttpError(400, 'BAD_REQUEST', 'Invalid cursor');
+
+    const q: BoardQuery = { ...query, cursor };
+
+    // Redis (if configured) absorbs bursts behind the CDN; key = normalized query
+    const key = ['leaderboard:v2', q.season ? `season:${q.season}` : q.window, q.limit, q.min, q.code, q.code ? q.around : '', query.cursor].join('|');
+    const board = await cached(key, CACHE_TTL_S, async () => loadBoard(getDb(), q));
+    if (!board.ok) throw new HttpError(404, 'NOT_FOUND', board.message);
+    const cacheControl = board.data.season?.closedAt ? CLOSED_SEASON_CACHE : LIVE_CACHE;
+    return reply(board.data, { headers: { 'Cache-Control': cacheControl } });
+  },
+});
@@ -1,29 +1,8 @@
 // api/metrics.ts
-import type { VercelRequest, VercelResponse } from '@vercel/node';
 // NodeNext: keep .js suffix for type-only import
-import type { GetMetricsResponse, ISODateString } from '../types/api.js';
+import type { ISODateString, Metrics } from '../types/api.js';
 import { neon } from '@neondatabase/serverless';
-
-/* CORS */
-function setCors(req: VercelRequest, res: VercelResponse) {
-  const allow =
-    process.env.ALLOWED_ORIGINS ||
-    process.env.CORS_ALLOWED_ORIGINS ||
-    process.env.APP_URL ||
-    '*';
-
-  const origin = (req.headers.origin as string) || '';
-  const list = allow.split(',').map(s => s.trim()).filter(Boolean);
-  const allowedOrigin = list.includes('*')
-    ? (origin || '*')
-    : (list.includes(origin) ? origin : (list[0] || '*'));
-
-  res.setHeader('Vary', 'Origin');
-  res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
-  res.setHeader('Access-Control-Allow-Methods', 'GET, HEAD, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-  res.setHeader('Access-Control-Max-Age', '86400');
-}
+import { defineHandler } from './_lib/handler.js';
 
 /* Small helpers */
 async function fetchJSON<T>(url: string, ms = 1500): Promise<T | null> {
@@ -53,21 +32,15 @@ async function withTimeout<T>(p: Promise<T>, ms: number, onTimeout?: () => void)
 }
 
 /* Handler */
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  setCors(req, res);
-
-  if (req.method === 'OPTIONS') return res.status(204).end();
-  if (req.method === 'HEAD') {
-    res.setHeader('Cache-Control', 'public, max-age=60, s-maxage=60, stale-while-revalidate=600');
-    return res.status(204).end();
-  }
-  if (req.method !== 'GET') {
-    return res.status(405).json({ ok: false, error: 'method_not_allowed' });
-  }
-
-  res.setHeader('Content-Type', 'application/json; charset=utf-8');
-  res.setHeader('Cache-Control', 'public, max-age=60, s-maxage=60, stale-while-revalidate=600');
-
+export default defineHandler({
+  name: 'metrics',
+  methods: ['GET'],
+  cors: { maxAgeSeconds: 86400 },
+  cacheControl: 'public, max-age=60, s-maxage=60, stale-while-revalidate=600',
+  handle,
+});
+
+async function handle(): Promise<Metrics> {
   const now = new Date();
 
   // Defaults (safe when DB/env missing)
@@ -119,18 +92,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   const avgBlockSeconds = parseNum(process.env.AVG_BLOCK_SECONDS, 6);
   const ss58Prefix      = parseNum(process.env.SS58_PREFIX, 73);
 
-  const payload: GetMetricsResponse = {
-    ok: true,
-    data: {
-      waitlistCount,
-      countryCount,
-      avgBlockSeconds,
-      ss58Prefix,
-      height,
-      peers,
-      updatedAt: now.toISOString() as ISODateString,
-    },
+  return {
+    waitlistCount,
+    countryCount,
+    avgBlockSeconds,
+    ss58Prefix,
+    height,
+    peers,
+    updatedAt: now.toISOString() as ISODateString,
   };
-
-  return res.status(200).json(payload);
 }
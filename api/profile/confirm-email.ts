@@ -0,0 +1,99 @@
+/* ============================================================================
+   Quantara Devnet-0 • internal use only
+   (c) 2025 Quantara Technology LLC
+   File: api/profile/confirm-email.ts
+
+   Target of the email-change link. Only POST consumes the single-use token
+   and switches the account to the new address (see _lib/profile.ts); a GET
+   hands the link to a confirm page, since mail scanners prefetch GETs and
+   would otherwise change the email unasked (same as auth/callback.ts).
+
+     GET  ?token=              302 to /success.html?change-email=<token>, which asks
+                               before POSTing back; a bad or expired link 302s to
+                               /success.html?error=<code>&link=email-change
+     POST ?token=              change, 302 to /success.html?email=changed
+     POST ?mode=json { token } same, as JSON
+
+   JSON errors: TOKEN_INVALID | TOKEN_EXPIRED | TOKEN_USED | TOKEN_REVOKED | EMAIL_TAKEN
+   ========================================================================== */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import "dotenv/config";
+import { getDb } from "../../db/client.serverless.js";
+import { setCorsHeaders } from "../_lib/cors.js";
+import { appUrl, queryParam, readJsonBody } from "../_lib/http.js";
+import { TokenError, verifyToken, type TokenErrorCode } from "../_lib/tokens.js";
+import { confirmEmailChange } from "../_lib/profile.js";
+import type { PostConfirmEmailChangeResponse } from "../../types/api.js";
+
+const TOKEN_STATUS: Record<TokenErrorCode, number> = {
+  TOKEN_INVALID: 401,
+  TOKEN_EXPIRED: 410,
+  TOKEN_USED: 410,
+  TOKEN_REVOKED: 410,
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(res, req.headers.origin as string | undefined, { methods: ["GET", "POST", "OPTIONS"] });
+  if (req.method === "OPTIONS") return res.status(204).end();
+
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store");
+
+  const wantsJson = queryParam(req, "mode") === "json";
+  const fail = (status: number, code: string, message: string) => {
+    if (!wantsJson) {
+      const dest = appUrl("/success.html");
+      dest.searchParams.set("error", code);
+      dest.searchParams.set("link", "email-change");
+      return res.status(302).setHeader("Location", dest.toString()).send("");
+    }
+    const body: PostConfirmEmailChangeResponse = { ok: false, code, message };
+    return res.status(status).json(body);
+  };
+
+  if (req.method !== "GET" && req.method !== "POST") return fail(405, "METHOD_NOT_ALLOWED", "Method not allowed");
+
+  try {
+    const body = req.method === "POST" ? readJsonBody(req) : {};
+    const token = queryParam(req, "token") ?? (typeof body.token === "string" ? body.token : undefined);
+    if (!token) return fail(400, "TOKEN_INVALID", "Missing token");
+
+    if (req.method === "GET") {
+      // signature/expiry only; used or replaced links are caught on POST
+      try {
+        await verifyToken(token, "email-change");
+      } catch (e) {
+        if (e instanceof TokenError) return fail(TOKEN_STATUS[e.code], e.code, e.message);
+        throw e;
+      }
+      const confirm = appUrl("/success.html");
+      confirm.searchParams.set("change-email", token);
+      return res.status(302).setHeader("Location", confirm.toString()).send("");
+    }
+
+    let result;
+    try {
+      result = await confirmEmailChange(getDb(), token);
+    } catch (e) {
+      if (e instanceof TokenError) return fail(TOKEN_STATUS[e.code], e.code, e.message);
+      throw e;
+    }
+    if (!result.ok) {
+      return result.code === "EMAIL_TAKEN"
+        ? fail(409, "EMAIL_TAKEN", "That email address now belongs to another account.")
+        : fail(404, "NOT_FOUND", "User not found");
+    }
+
+    if (wantsJson) {
+      const out: PostConfirmEmailChangeResponse = { ok: true, data: { email: result.email } };
+      return res.status(200).json(out);
+    }
+    const dest = appUrl("/success.html");
+    dest.searchParams.set("email", "changed");
+    return res.status(302).setHeader("Location", dest.toString()).send("");
+  } catch (err) {
+    console.error("[profile/confirm-email] error:", err);
+    return res.status(500).json({ ok: false, code: "INTERNAL", message: "Internal error" });
+  }
+}
@@ -0,0 +1,84 @@
+/* ============================================================================
+   Quantara Devnet-0 • internal use only
+   (c) 2025 Quantara Technology LLC
+   File: api/profile/email.ts
+
+   Starts an email change for the signed-in user: the new address gets a
+   confirmation link (24h, single use) and nothing changes until it is
+   clicked (/api/profile/confirm-email). Same address rules as signup.
+
+   Request:  { email }
+   Response: 202 { ok: true, data: { accepted: true } }
+             400 EMAIL_* | 409 EMAIL_TAKEN | 409 EMAIL_UNCHANGED | 429 RATE_LIMITED
+   ========================================================================== */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import "dotenv/config";
+import { z } from "zod";
+import { sql } from "drizzle-orm";
+import { getDb } from "../../db/client.serverless.js";
+import { setCorsHeaders } from "../_lib/cors.js";
+import { getRows, readJsonBody } from "../_lib/http.js";
+import { authenticate } from "../_lib/auth.js";
+import { loginLinkLimit } from "../_lib/ratelimit.js";
+import { canonicalEmail, EMAIL_REJECTION_MESSAGES, emailPolicy, normalizeEmail } from "../_lib/email-address.js";
+import { emailAvailable, requestEmailChange } from "../_lib/profile.js";
+import type { EmailRejectionCode, PostEmailChangeResponse } from "../../types/api.js";
+
+const EmailChangeSchema = z.object({
+  email: z.string().trim().min(3).max(254),
+});
+
+function fail(res: VercelResponse, status: number, code: string, message: string) {
+  const body: PostEmailChangeResponse = { ok: false, code, message };
+  return res.status(status).json(body);
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(res, req.headers.origin as string | undefined, { credentials: true, methods: ["POST", "OPTIONS"] });
+  if (req.method === "OPTIONS") return res.status(204).end();
+
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store");
+  if (req.method !== "POST") return fail(res, 405, "METHOD_NOT_ALLOWED", "Method not allowed");
+
+  try {
+    const db = getDb();
+    const auth = await authenticate(req, db);
+    if (!auth.ok) return fail(res, auth.code === "FORBIDDEN_ORIGIN" ? 403 : 401, auth.code, auth.message);
+
+    const parsed = EmailChangeSchema.safeParse(readJsonBody(req));
+    if (!parsed.success) return fail(res, 400, "BAD_REQUEST", "Invalid payload");
+
+    const normalized = normalizeEmail(parsed.data.email);
+    const rejection: EmailRejectionCode | null = normalized ? emailPolicy(normalized) : "EMAIL_INVALID";
+    if (!normalized || rejection) {
+      const code = rejection ?? "EMAIL_INVALID";
+      return fail(res, 400, code, EMAIL_REJECTION_MESSAGES[code]);
+    }
+
+    // shares the sign-in link budget: both send mail on a signed-in user's behalf
+    const rl = await loginLinkLimit(`email-change:${auth.userId}`);
+    if (!rl.success) return fail(res, 429, "RATE_LIMITED", "Too many requests, please try again later.");
+
+    const userQ = sql<{ id: string; email: string; locale: string }>`
+      SELECT id::text AS id, email, locale FROM user_account WHERE id = ${auth.userId}
+    `;
+    const user = getRows<{ id: string; email: string; locale: string }>(await db.execute(userQ))[0];
+    if (!user) return fail(res, 404, "NOT_FOUND", "Account not found");
+
+    if (canonicalEmail(user.email) === canonicalEmail(normalized) && user.email.toLowerCase() === normalized.address) {
+      return fail(res, 409, "EMAIL_UNCHANGED", "That's already your email address.");
+    }
+    if (!(await emailAvailable(db, user.id, normalized))) {
+      return fail(res, 409, "EMAIL_TAKEN", "That email address belongs to another account.");
+    }
+
+    await requestEmailChange(db, user, normalized);
+    const body: PostEmailChangeResponse = { ok: true, data: { accepted: true } };
+    return res.status(202).json(body);
+  } catch (err) {
+    console.error("[profile/email] error:", err);
+    return fail(res, 500, "INTERNAL", "Internal error");
+  }
+}
@@ -0,0 +1,73 @@
+/* ============================================================================
+   Quantara Devnet-0 • internal use only
+   (c) 2025 Quantara Technology LLC
+   File: api/profile/index.ts
+
+   The signed-in user's profile (session cookie or dashboard bearer token):
+     GET   /api/profile   profile + the 20 most recent changes + marketing consent
+     PATCH /api/profile   { role?, experience?, discord?, github?, country?, locale? }
+
+   PATCH only touches the fields sent (null clears an optional one), uses the
+   signup form's validation rules, and logs old → new per changed field (see
+   _lib/profile.ts). Email changes go through /api/profile/email.
+   ========================================================================== */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import "dotenv/config";
+import { getDb } from "../../db/client.serverless.js";
+import { setCorsHeaders } from "../_lib/cors.js";
+import { readJsonBody } from "../_lib/http.js";
+import { authenticate } from "../_lib/auth.js";
+import { getConsent } from "../_lib/consent.js";
+import { getProfile, profileHistory, ProfilePatchSchema, updateProfile } from "../_lib/profile.js";
+import type { GetProfileResponse, PatchProfileResponse } from "../../types/api.js";
+
+function fail(res: VercelResponse, status: number, code: string, message: string, details?: unknown) {
+  return res.status(status).json({ ok: false, code, message, ...(details ? { details } : {}) });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(res, req.headers.origin as string | undefined, {
+    credentials: true,
+    methods: ["GET", "PATCH", "OPTIONS"],
+  });
+  if (req.method === "OPTIONS") return res.status(204).end();
+
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Cache-Control", "private, no-store");
+  if (req.method !== "GET" && req.method !== "PATCH") return fail(res, 405, "METHOD_NOT_ALLOWED", "Method not allowed");
+
+  try {
+    const db = getDb();
+    const auth = await authenticate(req, db);
+    if (!auth.ok) return fail(res, auth.code === "FORBIDDEN_ORIGIN" ? 403 : 401, auth.code, auth.message);
+
+    if (req.method === "GET") {
+      const profile = await getProfile(db, auth.userId);
+      if (!profile) return fail(res, 404, "NOT_FOUND", "Account not found");
+      const body: GetProfileResponse = {
+        ok: true,
+        data: {
+          profile,
+          history: await profileHistory(db, auth.userId),
+          marketing: (await getConsent(db, auth.userId))!,
+        },
+      };
+      return res.status(200).json(body);
+    }
+
+    const parsed = ProfilePatchSchema.safeParse(readJsonBody(req));
+    if (!parsed.success) return fail(res, 400, "BAD_REQUEST", "Invalid payload", parsed.error.flatten());
+    if (!Object.keys(parsed.data).length) return fail(res, 400, "BAD_REQUEST", "Nothing to update");
+
+    const changes = await updateProfile(db, auth.userId, parsed.data, "profile");
+    const profile = await getProfile(db, auth.userId);
+    if (!profile) return fail(res, 404, "NOT_FOUND", "Account not found");
+
+    const body: PatchProfileResponse = { ok: true, data: { profile, changes } };
+    return res.status(200).json(body);
+  } catch (err) {
+    console.error("[profile] error:", err);
+    return fail(res, 500, "INTERNAL", "Internal error");
+  }
+}
@@ -0,0 +1,79 @@
+/* ============================================================================
+   Quantara Devnet-0 • internal use only
+   (c) 2025 Quantara Technology LLC
+   File: api/redeem-access-code.ts
+
+   Redeems a Devnet-0 access code from a cohort invite (see
+   _lib/admissions.ts). Each code works exactly once; rate-limited per IP hash
+   so codes can't be enumerated.
+
+   Request:  { code: "QTR-XXXX-XXXX" }   (case, spaces and dashes don't matter)
+   Response: { ok: true, data: { userId, cohort, redeemedAt } }
+             404 ACCESS_CODE_INVALID | 410 ACCESS_CODE_USED
+   ========================================================================== */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import "dotenv/config";
+import { z } from "zod";
+import { getDb } from "../db/client.serverless.js";
+import { setCorsHeaders } from "./_lib/cors.js";
+import { redeemAccessLimit } from "./_lib/ratelimit.js";
+import { clientIp, hashIp, readJsonBody } from "./_lib/http.js";
+import { normalizeAccessCode, redeemAccessCode } from "./_lib/admissions.js";
+import type { ISODateString, PostRedeemAccessCodeResponse } from "../types/api.js";
+
+const RedeemSchema = z.object({
+  code: z.string().trim().min(8).max(32),
+});
+
+function fail(res: VercelResponse, status: number, code: string, message: string) {
+  const body: PostRedeemAccessCodeResponse = { ok: false, code, message };
+  return res.status(status).json(body);
+}
+
+function retryAfter(reset: number) {
+  return Math.max(1, Math.ceil((reset - Date.now()) / 1000));
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(res, req.headers.origin as string | undefined, { methods: ["POST", "OPTIONS"] });
+  if (req.method === "OPTIONS") return res.status(204).end();
+
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store");
+  if (req.method !== "POST") return fail(res, 405, "METHOD_NOT_ALLOWED", "Method not allowed");
+
+  try {
+    const parsed = RedeemSchema.safeParse(readJsonBody(req));
+    if (!parsed.success) return fail(res, 400, "BAD_REQUEST", "Invalid payload");
+
+    const rl = await redeemAccessLimit(`ip:${hashIp(clientIp(req))}`);
+    if (!rl.success) {
+      res.setHeader("Retry-After", String(retryAfter(rl.reset)));
+      return fail(res, 429, "RATE_LIMITED", "Too many attempts, please try again later.");
+    }
+
+    const code = normalizeAccessCode(parsed.data.code);
+    if (!code) return fail(res, 404, "ACCESS_CODE_INVALID", "That access code isn't valid.");
+
+    const result = await redeemAccessCode(getDb(), code);
+    if (!result.ok) {
+      return result.code === "USED"
+        ? fail(res, 410, "ACCESS_CODE_USED", "That access code has already been used.")
+        : fail(res, 404, "ACCESS_CODE_INVALID", "That access code isn't valid.");
+    }
+
+    const body: PostRedeemAccessCodeResponse = {
+      ok: true,
+      data: {
+        userId: result.userId,
+        cohort: result.cohort,
+        redeemedAt: result.redeemedAt.toISOString() as ISODateString,
+      },
+    };
+    return res.status(200).json(body);
+  } catch (err) {
+    console.error("[redeem-access-code] error:", err);
+    return fail(res, 500, "INTERNAL", "Internal error, please try again.");
+  }
+}
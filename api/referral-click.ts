@@ -0,0 +1,84 @@
+/* ============================================================================
+   Quantara Devnet-0 • internal use only
+   (c) 2025 Quantara Technology LLC
+   File: api/referral-click.ts
+
+   Records CLICK referral events (deduped per visitor per day):
+     GET  /r/<code>                      → 302 to /?ref=<code> (vercel.json rewrite)
+     POST /api/referral-click { code }   → beacon from the landing page
+
+   Crawlers and link unfurlers are redirected but not counted.
+
+   Response (POST): { ok: true, data: { recorded } }
+   ========================================================================== */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import "dotenv/config";
+import { getDb } from "../db/client.serverless.js";
+import { setCorsHeaders } from "./_lib/cors.js";
+import { appUrl, queryParam, readJsonBody } from "./_lib/http.js";
+import { isBot, normalizeCode, recordClick, visitorFingerprint } from "./_lib/referrals.js";
+import type { PostReferralClickResponse } from "../types/api.js";
+
+function fail(res: VercelResponse, status: number, code: string, message: string) {
+  const body: PostReferralClickResponse = { ok: false, code, message };
+  return res.status(status).json(body);
+}
+
+/** Landing URL for /r/<code>; other query params (utm_*) are passed through */
+function landingUrl(req: VercelRequest, code: string | null) {
+  const dest = appUrl("/");
+  for (const [k, v] of Object.entries(req.query)) {
+    if (k === "code" || k === "redirect" || typeof v !== "string") continue;
+    dest.searchParams.set(k, v);
+  }
+  if (code) {
+    dest.searchParams.set("ref", code);
+    if (!dest.searchParams.has("utm_source")) dest.searchParams.set("utm_source", "referral");
+    if (!dest.searchParams.has("utm_medium")) dest.searchParams.set("utm_medium", "link");
+  }
+  return dest.toString();
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(res, req.headers.origin as string | undefined, { methods: ["GET", "POST", "OPTIONS"] });
+  if (req.method === "OPTIONS") return res.status(204).end();
+  res.setHeader("Cache-Control", "no-store");
+
+  // /r/<code>: always redirect, even if recording fails
+  if (req.method === "GET" && queryParam(req, "redirect")) {
+    const code = normalizeCode(queryParam(req, "code"));
+    let known = false;
+    if (code) {
+      try {
+        known = isBot(req) || (await recordClick(getDb(), code, visitorFingerprint(req))).known;
+      } catch (err) {
+        console.error("[referral-click] record failed:", err);
+        known = true;
+      }
+    }
+    return res.status(302).setHeader("Location", landingUrl(req, known ? code : null)).send("");
+  }
+
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  if (req.method !== "POST") return fail(res, 405, "METHOD_NOT_ALLOWED", "Method not allowed");
+
+  try {
+    const code = normalizeCode(readJsonBody(req).code ?? queryParam(req, "code"));
+    if (!code) return fail(res, 400, "BAD_REQUEST", "Invalid referral code");
+
+    if (isBot(req)) {
+      const body: PostReferralClickResponse = { ok: true, data: { recorded: false } };
+      return res.status(200).json(body);
+    }
+
+    const { recorded, known } = await recordClick(getDb(), code, visitorFingerprint(req));
+    if (!known) return fail(res, 404, "NOT_FOUND", "Unknown referral code");
+
+    const body: PostReferralClickResponse = { ok: true, data: { recorded } };
+    return res.status(200).json(body);
+  } catch (err) {
+    console.error("[referral-click] error:", err);
+    return fail(res, 500, "INTERNAL", "Internal error, please try again.");
+  }
+}
@@ -0,0 +1,125 @@
+/* ============================================================================
+   Quantara Devnet-0 • internal use only
+   (c) 2025 Quantara Technology LLC
+   File: api/referral-dashboard.ts
+
+   The signed-in user's referral stats:
+     GET /api/referral-dashboard   (Authorization: Bearer <dashboard token>,
+                                    or the session cookie from /api/auth/callback)
+
+   Returns their code and share link, clicks/signups/verified, points and
+   leaderboard rank for each window (week | month | all), their waitlist
+   position, and the most recent referees with masked emails.
+
+   Response: { ok: true, data: ReferralDashboard }
+   ========================================================================== */
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import "dotenv/config";
+import { sql } from "drizzle-orm";
+import { getDb } from "../db/client.serverless.js";
+import { setCorsHeaders } from "./_lib/cors.js";
+import { appUrl, getRows } from "./_lib/http.js";
+import { authenticate } from "./_lib/auth.js";
+import { queueStanding } from "./_lib/queue.js";
+import { DEFAULT_SCORING, LEADERBOARD_WINDOWS, maskedName, scoresQuery, type ScoreRow } from "./_lib/leaderboard.js";
+import type {
+  DashboardReferee,
+  DashboardWindowStats,
+  GetReferralDashboardResponse,
+  ISODateString,
+  LeaderboardWindow,
+} from "../types/api.js";
+
+const RECENT_LIMIT = 10;
+
+function fail(res: VercelResponse, status: number, code: string, message: string) {
+  const body: GetReferralDashboardResponse = { ok: false, code, message };
+  return res.status(status).json(body);
+}
+
+const EMPTY: DashboardWindowStats = {
+  signups: 0,
+  verified: 0,
+  clicks: 0,
+  conversion: null,
+  points: 0,
+  rank: null,
+  total: 0,
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  setCorsHeaders(res, req.headers.origin as string | undefined, { credentials: true, methods: ["GET", "OPTIONS"] });
+  if (req.method === "OPTIONS") return res.status(204).end();
+
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.setHeader("Cache-Control", "private, no-store");
+  if (req.method !== "GET") return fail(res, 405, "METHOD_NOT_ALLOWED", "Method not allowed");
+
+  try {
+    const db = getDb();
+    const auth = await authenticate(req, db);
+    if (!auth.ok) return fail(res, 401, auth.code, auth.message);
+
+    const userQ = sql<{ referral_code: string | null }>`
+      SELECT referral_code FROM user_account WHERE id = ${auth.userId}
+    `;
+    const user = getRows<{ referral_code: string | null }>(await db.execute(userQ))[0];
+    if (!user) return fail(res, 404, "NOT_FOUND", "Account not found");
+
+    const weights = DEFAULT_SCORING.weights;
+    const windows = {} as Record<LeaderboardWindow, DashboardWindowStats>;
+    for (const w of LEADERBOARD_WINDOWS) {
+      const q = sql<ScoreRow>`
+        WITH s AS (${scoresQuery(w)})
+        SELECT * FROM s WHERE id = ${auth.userId}
+      `;
+      const row = getRows<ScoreRow>(await db.execute(q))[0];
+      windows[w] = row
+        ? {
+            signups: row.signups,
+            verified: row.verified,
+            clicks: row.clicks,
+            conversion: row.conversion,
+            points: row.points,
+            rank: row.rank,
+            total: row.total,
+          }
+        : EMPTY;
+    }
+
+    const recentQ = sql<{ name: string; joined_at: string | Date; verified: boolean }>`
+      SELECT ${maskedName(sql`u.email`)} AS name, r.created_at AS joined_at, u.email_verified AS verified
+        FROM referral_event r
+        JOIN user_account u ON u.id = r.referee_id
+       WHERE r.referrer_id = ${auth.userId}
+         AND r.kind = 'SIGNUP'
+       ORDER BY r.created_at DESC, r.id DESC
+       LIMIT ${RECENT_LIMIT}
+    `;
+    const recentReferees: DashboardReferee[] = getRows<{ name: string; joined_at: string | Date; verified: boolean }>(
+      await db.execute(recentQ)
+    ).map((r) => ({
+      name: r.name,
+      joinedAt: new Date(r.joined_at).toISOString() as ISODateString,
+      verified: Boolean(r.verified),
+    }));
+
+    const code = user.referral_code;
+    const body: GetReferralDashboardResponse = {
+      ok: true,
+      data: {
+        code,
+        shareUrl: code ? appUrl(`/r/${encodeURIComponent(code)}`).toString() : null,
+        weights,
+        windows,
+        queue: await queueStanding(db, auth.userId),
+        recentReferees,
+      },
+    };
+    return res.status(200).json(body);
+  } catch (err) {
+    console.error("[referral-dashboard] error:", err);
+    return fail(res, 500, "INTERNAL", "Internal error, please try again.");
+  }
+}
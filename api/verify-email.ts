@@ -3,161 +3,138 @@
  * (c) 2025 Quantara Technology LLC
  * File: api/verify-email.ts
  *
- * Confirms a user's email via JWT token, logs a `VERIFIED` referral_event,
- * and redirects (302) to /success.html?ref=<code> (or ?next=<path>).
+ * Confirms a user's email via a single-use JWT (see _lib/tokens.ts), logs a
+ * `VERIFIED` referral_event, and redirects (302) to /success.html?ref=<code>
+ * (or ?next=<same-origin path>) with a dashboard token in the #fragment.
+ * Failed links redirect to /success.html?error=<code>.
+ *
+ * Token: ?token= (email link) or { token } in a POST body with ?mode=json.
+ * JSON errors: TOKEN_INVALID | TOKEN_EXPIRED | TOKEN_USED | TOKEN_REVOKED
  */
 
-import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type { VercelRequest } from "@vercel/node";
 import "dotenv/config";
-import jwt from "jsonwebtoken";
+import { z } from "zod";
 import { sql } from "drizzle-orm";
 import { getDb } from "../db/client.serverless.js";
-
-function setCors(res: VercelResponse) {
-  res.setHeader("Access-Control-Allow-Origin", process.env.APP_URL ?? "*");
-  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
-  res.setHeader("Content-Type", "application/json; charset=utf-8");
-}
-
-function getRows(execResult: any) {
-  return Array.isArray(execResult) ? execResult : execResult?.rows;
-}
-
-function buildRedirectUrl(req: VercelRequest, pathOrUrl: string) {
+import { consumeToken, issueToken, TokenError, type TokenErrorCode } from "./_lib/tokens.js";
+import { DASHBOARD_TTL_S } from "./_lib/auth.js";
+import { defineHandler, HttpError, redirect } from "./_lib/handler.js";
+import { getRows } from "./_lib/http.js";
+import { safeNextPath } from "./_lib/session.js";
+import type { VerifyEmailJsonResult } from "../types/api.js";
+
+function buildRedirectUrl(req: VercelRequest, path: string) {
   const base =
     process.env.APP_URL ||
     (req.headers["x-forwarded-proto"] && req.headers["x-forwarded-host"]
       ? `${req.headers["x-forwarded-proto"]}://${req.headers["x-forwarded-host"]}`
       : `https://${req.headers.host}`);
   try {
-    return new URL(pathOrUrl, base);
+    return new URL(path, base);
   } catch {
     return new URL("/success.html", base);
   }
 }
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  setCors(res);
-  if (req.method === "OPTIONS") return res.status(204).end();
-
-  try {
-    // tolerate raw+json bodies
-    let body: any = {};
-    if (typeof req.body === "string") {
-      const t = req.body.trim();
-      if (t.startsWith("{") || t.startsWith("[")) {
-        try {
-          body = JSON.parse(t);
-        } catch {
-          body = {};
-        }
-      }
-    } else if (req.body && typeof req.body === "object") {
-      body = req.body;
-    }
-
-    const token =
-      (req.query.token as string) ||
-      (typeof body === "object" && (body as any)?.token) ||
-      (req.headers.authorization?.startsWith("Bearer ")
-        ? req.headers.authorization.slice("Bearer ".length)
-        : undefined);
-
-    const next = (req.query.next as string) || "/success.html";
-    const wantsJson = (req.query.mode as string) === "json";
+const TOKEN_STATUS: Record<TokenErrorCode, number> = {
+  TOKEN_INVALID: 401,
+  TOKEN_EXPIRED: 410,
+  TOKEN_USED: 410,
+  TOKEN_REVOKED: 410,
+};
+
+export default defineHandler({
+  name: "verify-email",
+  methods: ["GET", "POST"],
+  query: z.object({
+    token: z.string().max(4096).optional(),
+    next: z.string().max(512).optional(),
+    mode: z.string().optional(),
+  }),
+  body: z.object({ token: z.string().max(4096).optional() }).passthrough(),
+  async handle({ req, query, body }) {
+    // Links are single-use; the token is never read from headers
+    const token = query.token || body.token || undefined;
+    const wantsJson = query.mode === "json";
+
+    const fail = (status: number, code: string, message: string) => {
+      if (wantsJson) throw new HttpError(status, code, message);
+      // Browser click: let the success page explain what went wrong
+      const dest = buildRedirectUrl(req, "/success.html");
+      dest.searchParams.set("error", code);
+      return redirect(dest);
+    };
+
+    if (!token) return fail(400, "TOKEN_INVALID", "Missing token");
 
-    if (!token) {
-      const err = { ok: false, error: "Missing token" };
-      return res.status(400).json(err);
-    }
-    if (!process.env.JWT_SECRET) {
-      const err = { ok: false, error: "Server misconfig: JWT_SECRET" };
-      return res.status(500).json(err);
-    }
+    const db = await getDb();
 
-    // Verify token (must match how you signed it in /api/waitlist.ts)
-    let payload: any;
+    // Verify + consume in one step (signature, expiry, jti not used/revoked)
+    let userId: string;
     try {
-      payload = jwt.verify(token, process.env.JWT_SECRET, {
-        algorithms: ["HS256"],
-        issuer: "quantara",
-        audience: "user",
-      });
-    } catch {
-      const err = { ok: false, error: "Invalid or expired token" };
-      return res.status(401).json(err);
+      userId = (await consumeToken(db, token, "email-verify")).sub;
+    } catch (e) {
+      if (e instanceof TokenError) return fail(TOKEN_STATUS[e.code], e.code, e.message);
+      throw e;
     }
 
-    const userId = payload?.sub as string | undefined;
-    if (!userId) {
-      const err = { ok: false, error: "Invalid token payload" };
-      return res.status(400).json(err);
-    }
-
-    const db = await getDb();
-
-    // Fetch user + referral_code
-    const userQ = sql<{ id: string; email: string; referral_code: string | null; email_verified: boolean }>`
-      SELECT id, email, referral_code, email_verified
-      FROM user_account
-      WHERE id = ${userId}
-      LIMIT 1
+    // Mark verified and fetch referral_code
+    type UserRow = { id: string; email: string; referral_code: string | null };
+    const userQ = sql<UserRow>`
+      UPDATE user_account
+         SET email_verified = true
+       WHERE id = ${userId}
+   RETURNING id, email, referral_code
     `;
-    const userRows = getRows(await db.execute(userQ));
-    const user = userRows?.[0];
-    if (!user) {
-      const err = { ok: false, error: "User not found" };
-      return res.status(404).json(err);
-    }
-
-    // Mark email as verified (idempotent)
-    if (!user.email_verified) {
-      const upd = sql`UPDATE user_account SET email_verified = true WHERE id = ${user.id}`;
-      await db.execute(upd);
-    }
+    const user = getRows<UserRow>(await db.execute(userQ))[0];
+    if (!user) return fail(404, "NOT_FOUND", "User not found");
 
     // Award VERIFIED once if the user had a prior SIGNUP referral
-    // (JOINED no longer exists in the enum)
-    const refQ = sql<{ referrer_id: string }>`
-      SELECT referrer_id
+    // (JOINED no longer exists in the enum); it inherits the SIGNUP's fraud review
+    type RefRow = { referrer_id: string; review: string | null };
+    const refQ = sql<RefRow>`
+      SELECT referrer_id, review
       FROM referral_event
       WHERE referee_id = ${user.id}
         AND kind = 'SIGNUP'
       ORDER BY created_at DESC
       LIMIT 1
     `;
-    const refRows = getRows(await db.execute(refQ));
-    const ref = refRows?.[0];
+    const ref = getRows<RefRow>(await db.execute(refQ))[0];
 
     if (ref?.referrer_id) {
       const ins = sql`
-        INSERT INTO referral_event (referrer_id, referee_id, kind)
-        VALUES (${ref.referrer_id}, ${user.id}, 'VERIFIED')
+        INSERT INTO referral_event (referrer_id, referee_id, kind, review)
+        VALUES (${ref.referrer_id}, ${user.id}, 'VERIFIED', ${ref.review ?? null}::referral_review)
         ON CONFLICT DO NOTHING
       `;
       await db.execute(ins);
     }
 
-    // Build redirect
-    const dest = buildRedirectUrl(req, next);
+    // Dashboard token for /api/referral-dashboard; sent in the #fragment so it
+    // never reaches server logs or Referer headers
+    const { token: dashboardToken } = await issueToken(db, {
+      userId: user.id,
+      email: user.email,
+      purpose: "dashboard",
+      ttlSeconds: DASHBOARD_TTL_S,
+    });
+
+    // Build redirect; ?next= must stay on this origin, since the fragment
+    // carries the dashboard token
+    const dest = buildRedirectUrl(req, safeNextPath(query.next) ?? "/success.html");
     if (user.referral_code) dest.searchParams.set("ref", user.referral_code);
-
-    res.setHeader("Cache-Control", "no-store");
-
-    if (wantsJson) {
-      return res.status(200).json({
-        ok: true,
-        verified: true,
-        awarded: Boolean(ref?.referrer_id) || false,
-        redirect: dest.toString(),
-      });
-    }
-
-    // 302 redirect
-    res.status(302).setHeader("Location", dest.toString()).send("");
-  } catch (err) {
-    console.error("[verify-email] error:", err);
-    return res.status(500).json({ ok: false, error: "Internal error" });
-  }
-}
+    dest.hash = `dashboard=${dashboardToken}`;
+
+    if (!wantsJson) return redirect(dest);
+
+    const out: VerifyEmailJsonResult = {
+      verified: true,
+      awarded: Boolean(ref?.referrer_id),
+      redirect: dest.toString(),
+      dashboardToken,
+    };
+    return out;
+  },
+});
@@ -3,306 +3,226 @@
    (c) 2025 Quantara Technology LLC
    File: api/waitlist.ts
 
-   Accepts waitlist joins, verifies Cloudflare Turnstile, upserts user,
-   records referral SIGNUP events, and returns a short-lived email-verify JWT.
-
-   Response: { ok: true, data: { id, code, emailQueued }, meta?: { verifyToken } }
+   Accepts waitlist joins, verifies Cloudflare Turnstile, normalizes the email
+   (one account per canonical inbox; disposable and role addresses are
+   rejected with EMAIL_* codes, see _lib/email-address.ts), inserts the user
+   (a re-submit only merges UTM; the profile changes via /api/profile),
+   records a referral SIGNUP event for new accounts, and queues the
+   email-verify link in the email outbox (sent inline when possible, otherwise
+   by the cron dispatcher; re-submits for an unverified address get the resend
+   limit and cooldown).
+   consent_marketing: "yes" records marketing consent and queues the separate
+   double opt-in email (see _lib/consent.ts).
+
+   Response: { ok: true, data: { id, code, emailQueued, queue: { position, total } } }
+   Errors: BAD_REQUEST (with zod details), TURNSTILE_FAILED, EMAIL_*,
+           ACCOUNT_BLOCKED (re-submit for a blocked account)
    ========================================================================== */
 
-import type { VercelRequest, VercelResponse } from "@vercel/node";
 import "dotenv/config";
-import { z } from "zod";
-import jwt from "jsonwebtoken";
+import type { z } from "zod";
 import { sql } from "drizzle-orm";
 import { getDb } from "../db/client.serverless.js"; // <-- NodeNext requires .js
-
-/* ────────────────────────────────────────────────────────────────────────────
-   CORS
-   ────────────────────────────────────────────────────────────────────────── */
-function getAllowedOrigins(): string[] {
-  const raw =
-    process.env.ALLOWED_ORIGINS ??
-    process.env.APP_URL ??
-    "http://127.0.0.1:3000";
-  return raw
-    .split(",")
-    .map((s) => s.trim())
-    .filter(Boolean);
-}
-function setCors(_req: VercelRequest, res: VercelResponse) {
-  const origins = getAllowedOrigins();
-  const allow = origins.includes("*") ? "*" : origins[0] || "*";
-  res.setHeader("Vary", "Origin");
-  res.setHeader("Access-Control-Allow-Origin", allow);
-  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
-  res.setHeader(
-    "Access-Control-Allow-Headers",
-    "Content-Type, Authorization, cf-turnstile-response"
-  );
-  res.setHeader("Access-Control-Max-Age", "600");
-}
+import { queueVerifyEmail, verifyEmailCoolingDown } from "./_lib/verification.js";
+import { resendVerifyLimit } from "./_lib/ratelimit.js";
+import { assessReferrer } from "./_lib/fraud.js";
+import { queueStanding } from "./_lib/queue.js";
+import { getRows, hashIp } from "./_lib/http.js";
+import { defineHandler, HttpError, type HandlerContext } from "./_lib/handler.js";
+import { turnstileTokenFrom, verifyTurnstile } from "./_lib/turnstile.js";
+import { canonicalEmail, EMAIL_REJECTION_MESSAGES, emailPolicy, normalizeEmail } from "./_lib/email-address.js";
+import type { EmailRejectionCode, WaitlistResult } from "../types/api.js";
+import { resolveLocale } from "./_lib/templates/index.js";
+import { makeReferralCode, SignupSchema, signupUtm } from "./_lib/signup.js";
+import { queueConsentConfirmEmail, recordConsent } from "./_lib/consent.js";
 
 /* Soft env checks (helpful locally) */
-(["DATABASE_URL", "JWT_SECRET", "TURNSTILE_SECRET", "TURNSTILE_SECRET_KEY"] as const).forEach(
-  (k) => {
-    if (!process.env[k]) console.warn(`[waitlist] missing env ${k}`);
-  }
-);
+if (!process.env.DATABASE_URL) console.warn("[waitlist] missing env DATABASE_URL");
+if (!process.env.TURNSTILE_SECRET_KEY && !process.env.TURNSTILE_SECRET) console.warn("[waitlist] missing env TURNSTILE_SECRET_KEY");
+if (!process.env.JWT_KEYS && !process.env.JWT_SECRET) console.warn("[waitlist] missing env JWT_KEYS/JWT_SECRET");
 
 /* ────────────────────────────────────────────────────────────────────────────
-   Validation
+   Handler
    ────────────────────────────────────────────────────────────────────────── */
-const JoinSchema = z.object({
-  email: z.string().email(),
-  role: z.string().min(1).max(40),
-  experience: z.enum(["New", "Intermediate", "Advanced"]).optional(),
-  discord: z.string().max(80).optional(),
-  github: z.string().max(120).optional(),
-  country: z.string().max(80).optional(),
-  referral: z.string().max(64).optional(),
-  referral_auto: z.string().max(64).optional(),
-  utm_source: z.string().max(64).optional(),
-  utm_medium: z.string().max(64).optional(),
-  utm_campaign: z.string().max(64).optional(),
-  utm_content: z.string().max(64).optional(),
-  utm_term: z.string().max(64).optional(),
-
-  // Cloudflare Turnstile token (accept several field names)
-  turnstileToken: z.string().min(3).optional(),
-  ["cf-turnstile-response"]: z.string().min(3).optional(),
-  cf_turnstile_response: z.string().min(3).optional(),
+export default defineHandler({
+  name: "waitlist",
+  methods: ["POST"],
+  cors: { allowHeaders: ["Content-Type", "Authorization", "cf-turnstile-response"] },
+  // the Turnstile token rides along under one of several names (see turnstile.ts)
+  body: SignupSchema.passthrough(),
+  handle,
 });
 
-/* ────────────────────────────────────────────────────────────────────────────
-   Turnstile verify (TEST_BYPASS in non-prod)
-   ────────────────────────────────────────────────────────────────────────── */
-async function verifyTurnstile(token: string, ip?: string) {
-  if (process.env.NODE_ENV !== "production" && token === "TEST_BYPASS") return true;
-
-  const secret =
-    process.env.TURNSTILE_SECRET || process.env.TURNSTILE_SECRET_KEY || "";
-  if (!secret || !token) return false;
-
-  const form = new URLSearchParams();
-  form.set("secret", secret);
-  form.set("response", token);
-  if (ip) form.set("remoteip", ip);
+async function handle({ req, body: data, ip }: HandlerContext<unknown, z.infer<typeof SignupSchema>>): Promise<WaitlistResult> {
+  const token = turnstileTokenFrom(data) ?? "";
+  const human = (await verifyTurnstile(token, { ip, allowDevBypass: false })).success;
+  if (!human) throw new HttpError(401, "TURNSTILE_FAILED", "Human verification failed");
 
-  const r = await fetch("https://challenges.cloudflare.com/turnstile/v0/siteverify", {
-    method: "POST",
-    body: form,
-    headers: { "content-type": "application/x-www-form-urlencoded" },
-  });
-  if (!r.ok) return false;
-  const data = await r.json().catch(() => ({} as any));
-  return !!(data as any)?.success;
-}
-
-/* ────────────────────────────────────────────────────────────────────────────
-   Helpers
-   ────────────────────────────────────────────────────────────────────────── */
-function makeReferralCode(email: string) {
-  const seed = email.split("@")[0].replace(/[^a-zA-Z0-9]/g, "").slice(0, 6).toUpperCase();
-  const rand = Math.random().toString(36).slice(2, 6).toUpperCase();
-  return `${seed}${rand}`;
-}
-function getRows(execResult: any) {
-  return Array.isArray(execResult) ? execResult : execResult?.rows;
-}
-
-/* ────────────────────────────────────────────────────────────────────────────
-   Handler
-   ────────────────────────────────────────────────────────────────────────── */
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  setCors(req, res);
-  if (req.method === "OPTIONS") return res.status(204).end();
-  if (req.method !== "POST") {
-    res.setHeader("Content-Type", "application/json; charset=utf-8");
-    return res.status(405).json({ ok: false, message: "Method not allowed" });
+  const normalized = normalizeEmail(data.email);
+  const rejection: EmailRejectionCode | null = normalized ? emailPolicy(normalized) : "EMAIL_INVALID";
+  if (!normalized || rejection) {
+    const code = rejection ?? "EMAIL_INVALID";
+    throw new HttpError(400, code, EMAIL_REJECTION_MESSAGES[code]);
   }
 
-  try {
-    // tolerate raw JSON strings and objects
-    let raw: any = {};
-    if (typeof req.body === "string") {
-      const t = req.body.trim();
-      if (t.startsWith("{") || t.startsWith("[")) {
-        try { raw = JSON.parse(t); } catch { raw = {}; }
-      }
-    } else if (req.body && typeof req.body === "object") {
-      raw = req.body;
-    }
-
-    const parsed = JoinSchema.safeParse({
-      ...raw,
-      turnstileToken:
-        raw["cf-turnstile-response"] ??
-        raw["cf_turnstile_response"] ??
-        raw["turnstileToken"] ??
-        raw["token"],
-    });
-    if (!parsed.success) {
-      res.setHeader("Content-Type", "application/json; charset=utf-8");
-      return res.status(400).json({
-        ok: false,
-        code: "BAD_REQUEST",
-        message: "Invalid payload",
-        details: parsed.error.flatten(),
-      });
-    }
-
-    const data = parsed.data;
-    const token =
-      (data as any)["cf-turnstile-response"] ||
-      (data as any)["cf_turnstile_response"] ||
-      (data as any).turnstileToken ||
-      "";
-    const ip =
-      (req.headers["x-forwarded-for"] as string)?.split(",")[0]?.trim() ||
-      (req.headers["x-real-ip"] as string) ||
-      undefined;
-
-    const human = await verifyTurnstile(token, ip);
-    if (!human) {
-      res.setHeader("Content-Type", "application/json; charset=utf-8");
-      return res
-        .status(401)
-        .json({ ok: false, code: "TURNSTILE_FAILED", message: "Human verification failed" });
-    }
-
-    const db = await getDb();
-
-    const email = data.email.toLowerCase().trim();
-    const refCodeIn = data.referral?.trim() || data.referral_auto?.trim() || null;
-
-    // Build UTM JSON and strip nulls (server-side)
-    const utmPayload = {
-      source: data.utm_source ?? null,
-      medium: data.utm_medium ?? null,
-      campaign: data.utm_campaign ?? null,
-      content: data.utm_content ?? null,
-      term: data.utm_term ?? null,
-    };
-    const utmJson = sql`jsonb_strip_nulls(${JSON.stringify(utmPayload)}::jsonb)`;
-
-    // 1) Look up existing user by case-insensitive email
-    const existingQ = sql<{ id: string; email: string; referral_code: string | null }>`
-      SELECT id, email, referral_code
-        FROM user_account
-       WHERE lower(email) = ${email}
-       LIMIT 1
-    `;
-    const existingRows = getRows(await db.execute(existingQ));
-    const existing = existingRows?.[0] || null;
-
-    // will populate and return
-    let user: { id: string; email: string; referral_code: string };
-
-    if (existing) {
-      // 2a) UPDATE — merge fields and UTM
-      const updateQ = sql<{ id: string; email: string; referral_code: string | null }>`
-        UPDATE user_account
-           SET role = ${data.role},
-               experience = ${data.experience ?? null},
-               discord = ${data.discord ?? null},
-               github = ${data.github ?? null},
-               country = ${data.country ?? null},
-               utm = jsonb_strip_nulls(user_account.utm || ${utmJson})
-         WHERE id = ${existing.id}
-     RETURNING id, email, referral_code
+  const db = await getDb();
+
+  const email = normalized.address;
+  const canonical = canonicalEmail(normalized);
+  const refCodeIn = data.referral?.trim() || data.referral_auto?.trim() || null;
+  // Seeds new users only (explicit choice, else Accept-Language)
+  const locale = resolveLocale(data.locale, req.headers["accept-language"] as string | undefined);
+
+  // Build UTM JSON and strip nulls (server-side)
+  const utmJson = sql`jsonb_strip_nulls(${JSON.stringify(signupUtm(data))}::jsonb)`;
+
+  // 1) Look up existing user by canonical inbox (a.b+x@gmail.com = ab@gmail.com),
+  //    or case-insensitive email for rows not backfilled yet
+  const existingQ = sql<{
+    id: string;
+    email: string;
+    referral_code: string | null;
+    email_verified: boolean;
+    blocked: boolean;
+  }>`
+    SELECT id, email, referral_code, email_verified, blocked_at IS NOT NULL AS blocked
+      FROM user_account
+     WHERE email_canonical = ${canonical} OR lower(email) = ${email}
+     ORDER BY (email_canonical = ${canonical}) DESC NULLS LAST, id
+     LIMIT 1
+  `;
+  const findExisting = async () => getRows(await db.execute(existingQ))?.[0] || null;
+  let existing = await findExisting();
+
+  // will populate and return
+  let user: { id: string; email: string; referral_code: string; locale: string } | null = null;
+
+  if (!existing) {
+    // 2a) INSERT — generate referral_code (retry on unique collision)
+    for (let i = 0; i < 3 && !user; i++) {
+      const candidateCode = makeReferralCode(email);
+      const insertQ = sql<{ id: string; email: string; referral_code: string; locale: string }>`
+        INSERT INTO user_account (
+          email, email_canonical, role, experience, discord, github, country, locale, referral_code, utm
+        )
+        VALUES (
+          ${email}, ${canonical}, ${data.role}, ${data.experience ?? null}, ${data.discord ?? null},
+          ${data.github ?? null}, ${data.country ?? null}, ${locale}, ${candidateCode}, ${utmJson}
+        )
+        RETURNING id, email, referral_code, locale
       `;
-      const updRows = getRows(await db.execute(updateQ));
-      const current =
-        updRows?.[0] ??
-        ({ id: existing.id, email: existing.email, referral_code: existing.referral_code } as const);
-
-      // ensure referral_code exists (retry on unique collision)
-      let rc = current.referral_code ?? "";
-      if (!rc) {
-        for (let i = 0; i < 3 && !rc; i++) {
-          const candidate = makeReferralCode(email);
-          try {
-            const setCode = sql<{ referral_code: string }>`
-              UPDATE user_account
-                 SET referral_code = ${candidate}
-               WHERE id = ${current.id}
-           RETURNING referral_code
-            `;
-            const setRows = getRows(await db.execute(setCode));
-            rc = setRows?.[0]?.referral_code || "";
-          } catch (e: any) {
-            const msg = String(e?.message || e);
-            if (/\bunique\b/i.test(msg) && /\breferral_code\b/i.test(msg)) continue;
-            throw e;
-          }
+      try {
+        const insRows = getRows(await db.execute(insertQ));
+        user = insRows?.[0] || null;
+      } catch (e: any) {
+        const msg = String(e?.message || e);
+        if (/\bunique\b/i.test(msg) && /referral_code/i.test(msg)) continue; // regenerate and retry
+        // a concurrent signup for the same inbox got there first: treat this one as a re-submit
+        if (/\bunique\b/i.test(msg) && /user_account_email(_canonical|_lower)?_uq/i.test(msg)) {
+          existing = await findExisting();
+          if (existing) break;
         }
+        throw e;
       }
-
-      user = { id: current.id, email: current.email, referral_code: rc || makeReferralCode(email) };
-    } else {
-      // 2b) INSERT — generate referral_code (retry on unique collision)
-      let inserted: { id: string; email: string; referral_code: string } | null = null;
-      for (let i = 0; i < 3 && !inserted; i++) {
-        const candidateCode = makeReferralCode(email);
-        const insertQ = sql<{ id: string; email: string; referral_code: string }>`
-          INSERT INTO user_account (
-            email, role, experience, discord, github, country, referral_code, utm
-          )
-          VALUES (
-            ${email}, ${data.role}, ${data.experience ?? null}, ${data.discord ?? null},
-            ${data.github ?? null}, ${data.country ?? null}, ${candidateCode}, ${utmJson}
-          )
-          RETURNING id, email, referral_code
-        `;
+    }
+    if (!user && !existing) throw new Error("Failed to insert user");
+  }
+  // a blocked account gets nothing from a re-submit: no UTM, referral, consent or email
+  if (existing?.blocked) throw new HttpError(403, "ACCOUNT_BLOCKED", "This account has been blocked");
+  const alreadyVerified = Boolean(existing?.email_verified);
+
+  if (existing) {
+    // 2b) Existing account — anyone can POST someone else's email here, so the
+    //     profile is left alone (it changes only via the signed-in
+    //     /api/profile); just merge UTM and return the account as it is
+    const updateQ = sql<{ id: string; email: string; referral_code: string | null; locale: string }>`
+      UPDATE user_account
+         SET email_canonical = COALESCE(email_canonical, (
+               SELECT ${canonical}::text
+                WHERE NOT EXISTS (SELECT 1 FROM user_account WHERE email_canonical = ${canonical})
+             )),
+             utm = jsonb_strip_nulls(user_account.utm || ${utmJson})
+       WHERE id = ${existing.id}
+   RETURNING id, email, referral_code, locale
+    `;
+    const updRows = getRows(await db.execute(updateQ));
+    const current =
+      updRows?.[0] ??
+      ({ id: existing.id, email: existing.email, referral_code: existing.referral_code, locale } as const);
+
+    // ensure referral_code exists (retry on unique collision)
+    let rc = current.referral_code ?? "";
+    if (!rc) {
+      for (let i = 0; i < 3 && !rc; i++) {
+        const candidate = makeReferralCode(email);
         try {
-          const insRows = getRows(await db.execute(insertQ));
-          inserted = insRows?.[0] || null;
+          const setCode = sql<{ referral_code: string }>`
+            UPDATE user_account
+               SET referral_code = ${candidate}
+             WHERE id = ${current.id}
+         RETURNING referral_code
+          `;
+          const setRows = getRows(await db.execute(setCode));
+          rc = setRows?.[0]?.referral_code || "";
         } catch (e: any) {
           const msg = String(e?.message || e);
-          if (/\bunique\b/i.test(msg) && /\breferral_code\b/i.test(msg)) continue; // regenerate and retry
+          if (/\bunique\b/i.test(msg) && /referral_code/i.test(msg)) continue;
           throw e;
         }
       }
-      if (!inserted) throw new Error("Failed to insert user");
-      user = inserted;
     }
 
-    // 3) Log referral SIGNUP if present (and not self)
-    if (refCodeIn) {
-      const logReferral = sql`
-        INSERT INTO referral_event (referrer_id, referee_id, kind)
-        SELECT u1.id, u2.id, 'SIGNUP'
-          FROM user_account u1
-          JOIN user_account u2 ON lower(u2.email) = ${email}
-         WHERE u1.referral_code = ${refCodeIn}
-           AND u1.id <> u2.id
-        ON CONFLICT DO NOTHING
-      `;
-      await db.execute(logReferral);
+    user = {
+      id: current.id,
+      email: current.email,
+      referral_code: rc || makeReferralCode(email),
+      locale: current.locale,
+    };
+  }
+  if (!user) throw new Error("Failed to insert user");
+
+  // 3) Log referral SIGNUP if present (and not self or a blocked referrer), then
+  //    run the fraud rules for that referrer; a flagged signup is recorded but
+  //    doesn't score. Only a new account is a signup: re-submits with another
+  //    code would otherwise let old accounts credit any referrer.
+  if (refCodeIn && !existing) {
+    const logReferral = sql<{ referrer_id: string }>`
+      INSERT INTO referral_event (referrer_id, referee_id, kind, ip_hash)
+      SELECT u1.id, u2.id, 'SIGNUP', ${hashIp(ip)}
+        FROM user_account u1
+        JOIN user_account u2 ON u2.id = ${user.id}
+       WHERE u1.referral_code = ${refCodeIn}
+         AND u1.id <> u2.id
+         AND u1.blocked_at IS NULL
+      ON CONFLICT DO NOTHING
+      RETURNING referrer_id::text AS referrer_id
+    `;
+    const logged = getRows(await db.execute(logReferral))?.[0];
+    if (logged) {
+      try {
+        await assessReferrer(db, logged.referrer_id);
+      } catch (err) {
+        console.error("[waitlist] fraud check failed (cron will retry):", err);
+      }
     }
+  }
 
-    // 4) Short-lived JWT for email verification (HS256)
-    const verifyToken = jwt.sign(
-      { sub: user.id, email: user.email, typ: "email-verify" },
-      process.env.JWT_SECRET as string,
-      { expiresIn: "2d", algorithm: "HS256", issuer: "quantara", audience: "user" }
-    );
-
-    // TODO: enqueue verification email here; for now we mark as not queued
-    const emailQueued = false;
+  // 4) Marketing consent: stored now, but nothing is sent until the opt-in link is clicked
+  if (data.consent_marketing === "yes") {
+    const consent = await recordConsent(db, user.id, { source: "waitlist", ipHash: hashIp(ip) });
+    if (consent.needsConfirmation) await queueConsentConfirmEmail(db, user);
+  }
 
-    res.setHeader("Cache-Control", "no-store");
-    res.setHeader("Content-Type", "application/json; charset=utf-8");
-    return res.status(200).json({
-      ok: true,
-      data: { id: user.id, code: user.referral_code, emailQueued },
-      meta: { verifyToken },
-    });
-  } catch (err) {
-    console.error("[waitlist] error:", err);
-    res.setHeader("Content-Type", "application/json; charset=utf-8");
-    return res
-      .status(500)
-      .json({ ok: false, code: "INTERNAL", message: "Internal error, please try again." });
+  // 5) Short-lived, single-use verify link (keyring-signed JWT), delivered via the outbox.
+  //    A re-POST for an unverified address is a resend, so it gets the same
+  //    per-email limit and cooldown as /api/resend-verification.
+  let emailQueued = false;
+  const mayResend = async () =>
+    (await resendVerifyLimit(`email:${canonical}`)).success && !(await verifyEmailCoolingDown(db, user.id));
+  if (!alreadyVerified && (!existing || (await mayResend()))) {
+    const outboxId = await queueVerifyEmail(db, user, { dispatch: true });
+    emailQueued = outboxId !== null;
   }
+
+  return { id: user.id, code: user.referral_code, emailQueued, queue: await queueStanding(db, user.id) };
 }
@@ -0,0 +1,32 @@
+CREATE TYPE "public"."faucet_status" AS ENUM('PENDING', 'PROCESSING', 'SENT', 'REJECTED');--> statement-breakpoint
+CREATE TYPE "public"."referral_kind" AS ENUM('CLICK', 'SIGNUP', 'VERIFIED');--> statement-breakpoint
+DROP INDEX "user_account_email_uq";--> statement-breakpoint
+ALTER TABLE "faucet_claim" ALTER COLUMN "user_id" SET DATA TYPE bigint;--> statement-breakpoint
+ALTER TABLE "faucet_claim" ALTER COLUMN "status" SET DEFAULT 'PENDING'::"public"."faucet_status";--> statement-breakpoint
+ALTER TABLE "faucet_claim" ALTER COLUMN "status" SET DATA TYPE "public"."faucet_status" USING "status"::"public"."faucet_status";--> statement-breakpoint
+ALTER TABLE "referral_event" ALTER COLUMN "referrer_id" SET DATA TYPE bigint;--> statement-breakpoint
+ALTER TABLE "referral_event" ALTER COLUMN "referee_id" SET DATA TYPE bigint;--> statement-breakpoint
+ALTER TABLE "referral_event" ALTER COLUMN "kind" SET DATA TYPE "public"."referral_kind" USING "kind"::"public"."referral_kind";--> statement-breakpoint
+ALTER TABLE "user_account" ALTER COLUMN "referred_by" SET DATA TYPE bigint;--> statement-breakpoint
+ALTER TABLE "faucet_claim" ALTER COLUMN "user_id" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "faucet_claim" ALTER COLUMN "user_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "referral_event" ALTER COLUMN "referrer_id" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "referral_event" ALTER COLUMN "referee_id" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "user_account" ALTER COLUMN "referred_by" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "user_account" ALTER COLUMN "referred_by" DROP NOT NULL;--> statement-breakpoint
+DROP SEQUENCE IF EXISTS "faucet_claim_user_id_seq";--> statement-breakpoint
+DROP SEQUENCE IF EXISTS "referral_event_referrer_id_seq";--> statement-breakpoint
+DROP SEQUENCE IF EXISTS "referral_event_referee_id_seq";--> statement-breakpoint
+DROP SEQUENCE IF EXISTS "user_account_referred_by_seq";--> statement-breakpoint
+ALTER TABLE "faucet_claim" ADD COLUMN "claimed_by" text;--> statement-breakpoint
+ALTER TABLE "faucet_claim" ADD COLUMN "claimed_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "faucet_claim" ADD COLUMN "processed_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "faucet_claim" ADD CONSTRAINT "faucet_claim_user_id_user_account_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user_account"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "referral_event" ADD CONSTRAINT "referral_event_referrer_id_user_account_id_fk" FOREIGN KEY ("referrer_id") REFERENCES "public"."user_account"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "referral_event" ADD CONSTRAINT "referral_event_referee_id_user_account_id_fk" FOREIGN KEY ("referee_id") REFERENCES "public"."user_account"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "user_account" ADD CONSTRAINT "user_account_referred_by_fk" FOREIGN KEY ("referred_by") REFERENCES "public"."user_account"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+CREATE INDEX "faucet_claim_tx_idx" ON "faucet_claim" USING btree ("tx_hash");--> statement-breakpoint
+CREATE INDEX "ref_event_kind_idx" ON "referral_event" USING btree ("kind");--> statement-breakpoint
+CREATE UNIQUE INDEX "ref_event_referrer_referee_kind_uq" ON "referral_event" USING btree ("referrer_id","referee_id","kind");--> statement-breakpoint
+CREATE UNIQUE INDEX "user_account_email_lower_uq" ON "user_account" USING btree (lower("email"));--> statement-breakpoint
+CREATE INDEX "user_account_email_lower_idx" ON "user_account" USING btree (lower("email"));
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "email_outbox" ADD COLUMN "locale" text DEFAULT 'en' NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_account" ADD COLUMN "locale" text DEFAULT 'en' NOT NULL;
\ No newline at end of file
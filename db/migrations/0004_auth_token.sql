@@ -0,0 +1,12 @@
+CREATE TABLE "auth_token" (
+	"jti" uuid PRIMARY KEY NOT NULL,
+	"purpose" text NOT NULL,
+	"user_id" bigint NOT NULL,
+	"issued_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"consumed_at" timestamp with time zone,
+	"revoked_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "auth_token" ADD CONSTRAINT "auth_token_user_id_user_account_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user_account"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+CREATE INDEX "auth_token_user_purpose_idx" ON "auth_token" USING btree ("user_id","purpose");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "referral_event" ALTER COLUMN "referee_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "referral_event" ADD COLUMN "dedupe_key" text;--> statement-breakpoint
+CREATE UNIQUE INDEX "ref_event_click_dedupe_uq" ON "referral_event" USING btree ("referrer_id","dedupe_key") WHERE "referral_event"."dedupe_key" IS NOT NULL;--> statement-breakpoint
+ALTER TABLE "referral_event" ADD CONSTRAINT "ref_event_referee_required" CHECK ("referral_event"."kind" = 'CLICK' OR "referral_event"."referee_id" IS NOT NULL);
\ No newline at end of file
@@ -0,0 +1,33 @@
+CREATE TABLE "leaderboard_season" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"slug" text NOT NULL,
+	"name" text NOT NULL,
+	"starts_at" timestamp with time zone NOT NULL,
+	"ends_at" timestamp with time zone NOT NULL,
+	"eligible_kinds" "referral_kind"[] DEFAULT '{SIGNUP,VERIFIED}'::referral_kind[] NOT NULL,
+	"weight_signup" integer DEFAULT 1 NOT NULL,
+	"weight_verified" integer DEFAULT 2 NOT NULL,
+	"weight_click" integer DEFAULT 0 NOT NULL,
+	"closed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "leaderboard_season_range" CHECK ("leaderboard_season"."ends_at" > "leaderboard_season"."starts_at")
+);
+--> statement-breakpoint
+CREATE TABLE "leaderboard_standing" (
+	"season_id" bigint NOT NULL,
+	"rank" integer NOT NULL,
+	"user_id" bigint,
+	"referral_code" text NOT NULL,
+	"name" text NOT NULL,
+	"signups" integer NOT NULL,
+	"verified" integer NOT NULL,
+	"clicks" integer NOT NULL,
+	"points" integer NOT NULL,
+	"created_us" bigint NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "leaderboard_standing" ADD CONSTRAINT "leaderboard_standing_season_id_leaderboard_season_id_fk" FOREIGN KEY ("season_id") REFERENCES "public"."leaderboard_season"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "leaderboard_standing" ADD CONSTRAINT "leaderboard_standing_user_id_user_account_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user_account"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+CREATE UNIQUE INDEX "leaderboard_season_slug_uq" ON "leaderboard_season" USING btree ("slug");--> statement-breakpoint
+CREATE UNIQUE INDEX "leaderboard_standing_pk" ON "leaderboard_standing" USING btree ("season_id","rank");--> statement-breakpoint
+CREATE INDEX "leaderboard_standing_code_idx" ON "leaderboard_standing" USING btree ("season_id","referral_code");
\ No newline at end of file
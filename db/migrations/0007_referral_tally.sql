@@ -0,0 +1,34 @@
+CREATE TABLE "referral_tally" (
+	"referrer_id" bigint NOT NULL,
+	"day" date NOT NULL,
+	"kind" "referral_kind" NOT NULL,
+	"n" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "referral_tally" ADD CONSTRAINT "referral_tally_referrer_id_user_account_id_fk" FOREIGN KEY ("referrer_id") REFERENCES "public"."user_account"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+CREATE UNIQUE INDEX "referral_tally_pk" ON "referral_tally" USING btree ("referrer_id","day","kind");--> statement-breakpoint
+CREATE INDEX "referral_tally_day_idx" ON "referral_tally" USING btree ("day");--> statement-breakpoint
+CREATE OR REPLACE FUNCTION referral_tally_apply() RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+	IF TG_OP IN ('DELETE', 'UPDATE') THEN
+		UPDATE "referral_tally" SET "n" = "n" - 1
+		 WHERE "referrer_id" = OLD."referrer_id"
+		   AND "day" = (OLD."created_at" AT TIME ZONE 'UTC')::date
+		   AND "kind" = OLD."kind";
+	END IF;
+	IF TG_OP IN ('INSERT', 'UPDATE') THEN
+		INSERT INTO "referral_tally" ("referrer_id", "day", "kind", "n")
+		VALUES (NEW."referrer_id", (NEW."created_at" AT TIME ZONE 'UTC')::date, NEW."kind", 1)
+		ON CONFLICT ("referrer_id", "day", "kind") DO UPDATE SET "n" = "referral_tally"."n" + 1;
+	END IF;
+	RETURN NULL;
+END
+$$;--> statement-breakpoint
+CREATE TRIGGER "referral_event_tally"
+	AFTER INSERT OR DELETE OR UPDATE OF "referrer_id", "kind", "created_at" ON "referral_event"
+	FOR EACH ROW EXECUTE FUNCTION referral_tally_apply();--> statement-breakpoint
+INSERT INTO "referral_tally" ("referrer_id", "day", "kind", "n")
+SELECT "referrer_id", ("created_at" AT TIME ZONE 'UTC')::date, "kind", COUNT(*)::int
+  FROM "referral_event"
+ GROUP BY 1, 2, 3;
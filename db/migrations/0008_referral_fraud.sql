@@ -0,0 +1,39 @@
+CREATE TYPE "public"."referral_review" AS ENUM('FLAGGED', 'CLEARED', 'CONFIRMED');--> statement-breakpoint
+CREATE TABLE "referral_flag" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"event_id" bigint NOT NULL,
+	"reason" text NOT NULL,
+	"detail" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "referral_event" ADD COLUMN "ip_hash" text;--> statement-breakpoint
+ALTER TABLE "referral_event" ADD COLUMN "review" "referral_review";--> statement-breakpoint
+ALTER TABLE "referral_event" ADD COLUMN "reviewed_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "referral_event" ADD COLUMN "review_note" text;--> statement-breakpoint
+ALTER TABLE "referral_flag" ADD CONSTRAINT "referral_flag_event_id_referral_event_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."referral_event"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+CREATE UNIQUE INDEX "referral_flag_event_reason_uq" ON "referral_flag" USING btree ("event_id","reason");--> statement-breakpoint
+CREATE INDEX "ref_event_ip_hash_idx" ON "referral_event" USING btree ("referrer_id","ip_hash") WHERE "referral_event"."ip_hash" IS NOT NULL;--> statement-breakpoint
+CREATE INDEX "ref_event_review_idx" ON "referral_event" USING btree ("review") WHERE "referral_event"."review" IS NOT NULL;--> statement-breakpoint
+-- referral_tally only counts scoring events (review NULL or CLEARED)
+CREATE OR REPLACE FUNCTION referral_tally_apply() RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+	IF TG_OP IN ('DELETE', 'UPDATE') AND COALESCE(OLD."review", 'CLEARED') = 'CLEARED' THEN
+		UPDATE "referral_tally" SET "n" = "n" - 1
+		 WHERE "referrer_id" = OLD."referrer_id"
+		   AND "day" = (OLD."created_at" AT TIME ZONE 'UTC')::date
+		   AND "kind" = OLD."kind";
+	END IF;
+	IF TG_OP IN ('INSERT', 'UPDATE') AND COALESCE(NEW."review", 'CLEARED') = 'CLEARED' THEN
+		INSERT INTO "referral_tally" ("referrer_id", "day", "kind", "n")
+		VALUES (NEW."referrer_id", (NEW."created_at" AT TIME ZONE 'UTC')::date, NEW."kind", 1)
+		ON CONFLICT ("referrer_id", "day", "kind") DO UPDATE SET "n" = "referral_tally"."n" + 1;
+	END IF;
+	RETURN NULL;
+END
+$$;--> statement-breakpoint
+DROP TRIGGER IF EXISTS "referral_event_tally" ON "referral_event";--> statement-breakpoint
+CREATE TRIGGER "referral_event_tally"
+	AFTER INSERT OR DELETE OR UPDATE OF "referrer_id", "kind", "created_at", "review" ON "referral_event"
+	FOR EACH ROW EXECUTE FUNCTION referral_tally_apply();
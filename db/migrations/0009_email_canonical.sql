@@ -0,0 +1,2 @@
+ALTER TABLE "user_account" ADD COLUMN "email_canonical" text;--> statement-breakpoint
+CREATE UNIQUE INDEX "user_account_email_canonical_uq" ON "user_account" USING btree ("email_canonical");
\ No newline at end of file
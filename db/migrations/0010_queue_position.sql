@@ -0,0 +1,6 @@
+ALTER TABLE "user_account" ADD COLUMN "queue_position" integer;--> statement-breakpoint
+CREATE INDEX "user_account_queue_position_idx" ON "user_account" USING btree ("queue_position");--> statement-breakpoint
+-- Signup order until the first recompute applies boosts
+UPDATE "user_account" u SET "queue_position" = r."pos"
+  FROM (SELECT "id", ROW_NUMBER() OVER (ORDER BY "created_at", "id")::int AS "pos" FROM "user_account") r
+ WHERE u."id" = r."id";
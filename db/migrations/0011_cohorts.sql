@@ -0,0 +1,31 @@
+CREATE TABLE "access_code" (
+	"code" text PRIMARY KEY NOT NULL,
+	"user_id" bigint NOT NULL,
+	"cohort_id" bigint NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"redeemed_at" timestamp with time zone,
+	"revoked_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE TABLE "cohort" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"slug" text NOT NULL,
+	"name" text NOT NULL,
+	"size" integer NOT NULL,
+	"roles" text[],
+	"queue_cutoff" integer,
+	"verified_only" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"admitted_at" timestamp with time zone,
+	CONSTRAINT "cohort_size_positive" CHECK ("cohort"."size" > 0)
+);
+--> statement-breakpoint
+ALTER TABLE "user_account" ADD COLUMN "admitted_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "user_account" ADD COLUMN "cohort_id" bigint;--> statement-breakpoint
+ALTER TABLE "access_code" ADD CONSTRAINT "access_code_user_id_user_account_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user_account"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+ALTER TABLE "access_code" ADD CONSTRAINT "access_code_cohort_id_cohort_id_fk" FOREIGN KEY ("cohort_id") REFERENCES "public"."cohort"("id") ON DELETE cascade ON UPDATE cascade;--> statement-breakpoint
+CREATE UNIQUE INDEX "access_code_user_live_uq" ON "access_code" USING btree ("user_id") WHERE "access_code"."revoked_at" IS NULL;--> statement-breakpoint
+CREATE INDEX "access_code_cohort_idx" ON "access_code" USING btree ("cohort_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "cohort_slug_uq" ON "cohort" USING btree ("slug");--> statement-breakpoint
+ALTER TABLE "user_account" ADD CONSTRAINT "user_account_cohort_id_cohort_id_fk" FOREIGN KEY ("cohort_id") REFERENCES "public"."cohort"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+CREATE INDEX "user_account_cohort_idx" ON "user_account" USING btree ("cohort_id");
\ No newline at end of file
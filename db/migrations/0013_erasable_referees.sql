@@ -0,0 +1,4 @@
+ALTER TABLE "referral_event" DROP CONSTRAINT "ref_event_referee_required";--> statement-breakpoint
+ALTER TABLE "referral_event" DROP CONSTRAINT "referral_event_referee_id_user_account_id_fk";
+--> statement-breakpoint
+ALTER TABLE "referral_event" ADD CONSTRAINT "referral_event_referee_id_user_account_id_fk" FOREIGN KEY ("referee_id") REFERENCES "public"."user_account"("id") ON DELETE set null ON UPDATE cascade;
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TYPE "public"."email_status" ADD VALUE 'SUPPRESSED';--> statement-breakpoint
+ALTER TABLE "user_account" ADD COLUMN "marketing_consent_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "user_account" ADD COLUMN "marketing_consent_source" text;--> statement-breakpoint
+ALTER TABLE "user_account" ADD COLUMN "marketing_consent_ip_hash" text;--> statement-breakpoint
+ALTER TABLE "user_account" ADD COLUMN "marketing_confirmed_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "user_account" ADD COLUMN "marketing_unsubscribed_at" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1,29 @@
+CREATE TYPE "public"."admin_role" AS ENUM('viewer', 'operator', 'owner');--> statement-breakpoint
+CREATE TABLE "admin_api_key" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"role" "admin_role" NOT NULL,
+	"key_hash" text NOT NULL,
+	"created_by" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_used_at" timestamp with time zone,
+	"revoked_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE TABLE "admin_audit" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"actor" text NOT NULL,
+	"actor_role" "admin_role" NOT NULL,
+	"action" text NOT NULL,
+	"target_user_id" bigint,
+	"detail" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user_account" ADD COLUMN "admin_role" "admin_role";--> statement-breakpoint
+ALTER TABLE "user_account" ADD COLUMN "blocked_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "user_account" ADD COLUMN "blocked_reason" text;--> statement-breakpoint
+ALTER TABLE "admin_audit" ADD CONSTRAINT "admin_audit_target_user_id_user_account_id_fk" FOREIGN KEY ("target_user_id") REFERENCES "public"."user_account"("id") ON DELETE set null ON UPDATE cascade;--> statement-breakpoint
+CREATE UNIQUE INDEX "admin_api_key_hash_uq" ON "admin_api_key" USING btree ("key_hash");--> statement-breakpoint
+CREATE INDEX "admin_audit_created_idx" ON "admin_audit" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "admin_audit_target_idx" ON "admin_audit" USING btree ("target_user_id","created_at");
\ No newline at end of file
@@ -0,0 +1,2 @@
+CREATE UNIQUE INDEX "faucet_claim_addr_open_uq" ON "faucet_claim" USING btree ("ss58_address") WHERE "faucet_claim"."status" IN ('PENDING', 'PROCESSING');--> statement-breakpoint
+CREATE UNIQUE INDEX "faucet_claim_ip_open_uq" ON "faucet_claim" USING btree ("ip_hash") WHERE "faucet_claim"."status" IN ('PENDING', 'PROCESSING');
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "user_account" ADD COLUMN "fraud_assessed_at" timestamp with time zone;
\ No newline at end of file
@@ -3,7 +3,12 @@
    (c) 2025 Quantara Technology LLC
    File: db/schema.ts
    Purpose:
-     - user_account, referral_event, faucet_claim
+     - user_account, referral_event, faucet_claim, email_outbox, auth_token
+     - referral_tally (trigger-maintained daily counts for the leaderboard)
+     - referral_flag (fraud rule hits; flagged events don't score)
+     - cohort, access_code (admissions off the waitlist)
+     - profile_change (audit trail of self-service profile edits)
+     - leaderboard_season, leaderboard_standing (frozen final rankings)
      - JSONB UTM, email/turnstile flags, referral indices
      - FK constraints + case-insensitive email unique index
    ========================================================================== */
@@ -18,8 +23,13 @@ import {
   jsonb,
   index,
   uniqueIndex,
+  uuid,
   pgEnum,
   foreignKey,
+  integer,
+  check,
+  date,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
 
@@ -27,7 +37,15 @@ import { sql } from "drizzle-orm";
    Enums
    ────────────────────────────────────────────────────────────────────────── */
 export const referralKind = pgEnum("referral_kind", ["CLICK", "SIGNUP", "VERIFIED"]);
-export const faucetStatus = pgEnum("faucet_status", ["PENDING", "SENT", "REJECTED"]);
+// NULL = clean; FLAGGED (automatic) and CONFIRMED (admin) don't score; CLEARED = admin overturned
+export const referralReview = pgEnum("referral_review", ["FLAGGED", "CLEARED", "CONFIRMED"]);
+// PROCESSING = leased by a payout worker; never re-queued automatically (no double-spend)
+export const faucetStatus = pgEnum("faucet_status", ["PENDING", "PROCESSING", "SENT", "REJECTED"]);
+// SENDING = leased by a dispatcher until locked_until; FAILED = gave up after max attempts
+// SUPPRESSED: marketing mail for a user without (confirmed) consent; never sent
+export const emailStatus = pgEnum("email_status", ["PENDING", "SENDING", "SENT", "FAILED", "SUPPRESSED"]);
+// Each role can do everything the ones before it can (api/_lib/admin.ts)
+export const adminRole = pgEnum("admin_role", ["viewer", "operator", "owner"]);
 
 /* ────────────────────────────────────────────────────────────────────────────
    USERS
@@ -39,6 +57,8 @@ export const userAccount = pgTable(
 
     // Enforce uniqueness via LOWER(email) expression index (below)
     email: text("email").notNull(),
+    // Inbox after provider alias rules (api/_lib/email-address.ts); NULL until backfilled
+    emailCanonical: text("email_canonical"),
 
     role: text("role"),               // 'Enthusiast' | 'Creator' | 'Builder' | ...
     experience: text("experience"),   // 'New' | 'Intermediate' | 'Advanced'
@@ -46,6 +66,9 @@ export const userAccount = pgTable(
     github: text("github"),
     country: text("country"),
 
+    // Email language ('en' | 'es'); see api/_lib/templates
+    locale: text("locale").notNull().default("en"),
+
     // Stable referral code (nullable until generated).
     referralCode: text("referral_code"),
 
@@ -53,8 +76,36 @@ export const userAccount = pgTable(
     referredBy: pgBigint("referred_by", { mode: "bigint" }),
 
     emailVerified: boolean("email_verified").notNull().default(false),
+
+    // 1-based place in the waitlist (api/_lib/queue.ts); recomputed by cron,
+    // provisional (end of the line) for signups since the last run
+    queuePosition: integer("queue_position"),
+
+    // Let off the waitlist (api/_lib/admissions.ts)
+    admittedAt: timestamp("admitted_at", { withTimezone: true }),
+    cohortId: pgBigint("cohort_id", { mode: "bigint" }).references((): AnyPgColumn => cohort.id, {
+      onDelete: "set null",
+      onUpdate: "cascade",
+    }),
     turnstileOk: boolean("turnstile_ok").notNull().default(false),
 
+    // Marketing email consent (api/_lib/consent.ts): given at signup, confirmed
+    // by double opt-in; only confirmed, not unsubscribed users get marketing mail
+    marketingConsentAt: timestamp("marketing_consent_at", { withTimezone: true }),
+    marketingConsentSource: text("marketing_consent_source"),   // 'waitlist' | 'import'
+    marketingConsentIpHash: text("marketing_consent_ip_hash"),
+    marketingConfirmedAt: timestamp("marketing_confirmed_at", { withTimezone: true }),
+    marketingUnsubscribedAt: timestamp("marketing_unsubscribed_at", { withTimezone: true }),
+
+    // Waitlist team member (api/admin/*); NULL for everyone else
+    adminRole: adminRole("admin_role"),
+    // Blocked by an operator: can't sign in, isn't admitted or ranked
+    blockedAt: timestamp("blocked_at", { withTimezone: true }),
+    blockedReason: text("blocked_reason"),
+    // Last run of the referral fraud rules over this user's referrals
+    // (api/_lib/fraud.ts); the cron sweep goes least recently assessed first
+    fraudAssessedAt: timestamp("fraud_assessed_at", { withTimezone: true }),
+
     // All UTM fields in one JSONB blob
     utm: jsonb("utm")
       .$type<{ source?: string; medium?: string; campaign?: string; content?: string; term?: string }>()
@@ -72,6 +123,12 @@ export const userAccount = pgTable(
 
     referralCodeUq: uniqueIndex("user_account_referral_code_uq").on(t.referralCode),
 
+    queuePositionIdx: index("user_account_queue_position_idx").on(t.queuePosition),
+    cohortIdx: index("user_account_cohort_idx").on(t.cohortId),
+
+    // One account per inbox, however it is spelled
+    emailCanonicalUq: uniqueIndex("user_account_email_canonical_uq").on(t.emailCanonical),
+
     referredByIdx: index("user_account_referred_by_idx").on(t.referredBy),
 
     // Self-referencing FK
@@ -85,6 +142,27 @@ export const userAccount = pgTable(
   })
 );
 
+/* ────────────────────────────────────────────────────────────────────────────
+   PROFILE HISTORY: old → new per edited field (api/_lib/profile.ts)
+   ────────────────────────────────────────────────────────────────────────── */
+export const profileChange = pgTable(
+  "profile_change",
+  {
+    id: bigserial("id", { mode: "bigint" }).primaryKey(),
+    userId: pgBigint("user_id", { mode: "bigint" })
+      .notNull()
+      .references(() => userAccount.id, { onDelete: "cascade", onUpdate: "cascade" }),
+    field: text("field").notNull(),           // 'role' | 'discord' | ... | 'email'
+    oldValue: text("old_value"),
+    newValue: text("new_value"),
+    source: text("source").notNull(),         // 'profile' | 'waitlist' | 'email-change'
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    byUserIdx: index("profile_change_user_idx").on(t.userId, t.createdAt),
+  })
+);
+
 /* ────────────────────────────────────────────────────────────────────────────
    REFERRALS: Track referral lifecycle events (CLICK | SIGNUP | VERIFIED)
    ────────────────────────────────────────────────────────────────────────── */
@@ -97,11 +175,24 @@ export const referralEvent = pgTable(
       .notNull()
       .references(() => userAccount.id, { onDelete: "cascade", onUpdate: "cascade" }),
 
+    // NULL for CLICK events (the visitor has no user row yet), and for events
+    // whose referee deleted their account: the referrer keeps the points
     refereeId: pgBigint("referee_id", { mode: "bigint" })
-      .notNull()
-      .references(() => userAccount.id, { onDelete: "cascade", onUpdate: "cascade" }),
+      .references(() => userAccount.id, { onDelete: "set null", onUpdate: "cascade" }),
 
     kind: referralKind("kind").notNull(),
+
+    // CLICK only: "<utc day>:<visitor fingerprint hash>", one click per visitor/day
+    dedupeKey: text("dedupe_key"),
+
+    // SIGNUP only: salted hash of the signup request IP (fraud checks)
+    ipHash: text("ip_hash"),
+
+    // Fraud review (api/_lib/fraud.ts); only NULL and CLEARED events score
+    review: referralReview("review"),
+    reviewedAt: timestamp("reviewed_at", { withTimezone: true }),
+    reviewNote: text("review_note"),
+
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
   },
   (t) => ({
@@ -115,6 +206,53 @@ export const referralEvent = pgTable(
       t.refereeId,
       t.kind
     ),
+
+    // CLICK dedupe (referee_id is NULL there, so the triplet above never fires)
+    clickDedupeUq: uniqueIndex("ref_event_click_dedupe_uq")
+      .on(t.referrerId, t.dedupeKey)
+      .where(sql`${t.dedupeKey} IS NOT NULL`),
+    byIpIdx: index("ref_event_ip_hash_idx").on(t.referrerId, t.ipHash).where(sql`${t.ipHash} IS NOT NULL`),
+    reviewIdx: index("ref_event_review_idx").on(t.review).where(sql`${t.review} IS NOT NULL`),
+  })
+);
+
+/* ────────────────────────────────────────────────────────────────────────────
+   REFERRAL FLAGS (why a SIGNUP event was flagged; one row per rule hit)
+   ────────────────────────────────────────────────────────────────────────── */
+export const referralFlag = pgTable(
+  "referral_flag",
+  {
+    id: bigserial("id", { mode: "bigint" }).primaryKey(),
+    eventId: pgBigint("event_id", { mode: "bigint" })
+      .notNull()
+      .references(() => referralEvent.id, { onDelete: "cascade", onUpdate: "cascade" }),
+    reason: text("reason").notNull(),         // SHARED_IP | DISPOSABLE_DOMAIN | BURST | LOW_VERIFY_RATIO | ALIAS_INBOX
+    detail: jsonb("detail").$type<Record<string, unknown>>().notNull().default({}),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    eventReasonUq: uniqueIndex("referral_flag_event_reason_uq").on(t.eventId, t.reason),
+  })
+);
+
+/* ────────────────────────────────────────────────────────────────────────────
+   REFERRAL TALLY (per referrer, per UTC day, per kind)
+   Maintained by the referral_event_tally trigger (see migration 0007), so the
+   rolling leaderboards sum a few rows per user instead of every event.
+   ────────────────────────────────────────────────────────────────────────── */
+export const referralTally = pgTable(
+  "referral_tally",
+  {
+    referrerId: pgBigint("referrer_id", { mode: "bigint" })
+      .notNull()
+      .references(() => userAccount.id, { onDelete: "cascade", onUpdate: "cascade" }),
+    day: date("day").notNull(),               // (created_at AT TIME ZONE 'UTC')::date
+    kind: referralKind("kind").notNull(),
+    n: integer("n").notNull().default(0),
+  },
+  (t) => ({
+    pk: uniqueIndex("referral_tally_pk").on(t.referrerId, t.day, t.kind),
+    byDayIdx: index("referral_tally_day_idx").on(t.day),
   })
 );
 
@@ -143,6 +281,11 @@ export const faucetClaim = pgTable(
     reason: text("reason"),
     txHash: text("tx_hash"),
 
+    // Payout worker lease (set when PENDING → PROCESSING)
+    claimedBy: text("claimed_by"),
+    claimedAt: timestamp("claimed_at", { withTimezone: true }),
+    processedAt: timestamp("processed_at", { withTimezone: true }),
+
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
   },
   (t) => ({
@@ -150,6 +293,222 @@ export const faucetClaim = pgTable(
     byAddrIdx: index("faucet_claim_addr_idx").on(t.ss58Address),
     byStatusIdx: index("faucet_claim_status_idx").on(t.status),
     byTxIdx: index("faucet_claim_tx_idx").on(t.txHash),
+    // One claim in flight per address and per IP: concurrent claims conflict
+    // here instead of all passing the daily-cap count (api/faucet-claim.ts)
+    addrOpenUq: uniqueIndex("faucet_claim_addr_open_uq")
+      .on(t.ss58Address)
+      .where(sql`${t.status} IN ('PENDING', 'PROCESSING')`),
+    ipOpenUq: uniqueIndex("faucet_claim_ip_open_uq")
+      .on(t.ipHash)
+      .where(sql`${t.status} IN ('PENDING', 'PROCESSING')`),
+  })
+);
+
+/* ────────────────────────────────────────────────────────────────────────────
+   EMAIL OUTBOX: durable queue of transactional mail (dispatched with backoff)
+   ────────────────────────────────────────────────────────────────────────── */
+export const emailOutbox = pgTable(
+  "email_outbox",
+  {
+    id: bigserial("id", { mode: "bigint" }).primaryKey(),
+
+    userId: pgBigint("user_id", { mode: "bigint" }).references(() => userAccount.id, {
+      onDelete: "cascade",
+      onUpdate: "cascade",
+    }),
+
+    kind: text("kind").notNull(),            // TemplateName: 'verify-email' | 'faucet-receipt' | ...
+    toEmail: text("to_email").notNull(),
+    locale: text("locale").notNull().default("en"),
+    payload: jsonb("payload").$type<Record<string, unknown>>().notNull().default({}),
+
+    // Also sent to the provider as Idempotency-Key, so retries never double-send
+    idempotencyKey: text("idempotency_key").notNull(),
+
+    status: emailStatus("status").notNull().default("PENDING"),
+    attempts: integer("attempts").notNull().default(0),
+    nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }).notNull().defaultNow(),
+    lockedBy: text("locked_by"),
+    lockedUntil: timestamp("locked_until", { withTimezone: true }),
+    lastError: text("last_error"),
+    providerMessageId: text("provider_message_id"),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    sentAt: timestamp("sent_at", { withTimezone: true }),
+  },
+  (t) => ({
+    idempotencyUq: uniqueIndex("email_outbox_idempotency_uq").on(t.idempotencyKey),
+    dueIdx: index("email_outbox_due_idx").on(t.status, t.nextAttemptAt),
+    byUserIdx: index("email_outbox_user_idx").on(t.userId),
+  })
+);
+
+/* ────────────────────────────────────────────────────────────────────────────
+   COHORTS & ACCESS CODES (admitting waitlist members to Devnet-0)
+   ────────────────────────────────────────────────────────────────────────── */
+export const cohort = pgTable(
+  "cohort",
+  {
+    id: bigserial("id", { mode: "bigint" }).primaryKey(),
+    slug: text("slug").notNull(),
+    name: text("name").notNull(),
+    size: integer("size").notNull(),
+
+    // Selection filters (NULL = any)
+    roles: text("roles").array(),                        // e.g. {Builder,Validator}
+    queueCutoff: integer("queue_cutoff"),                // only queue_position <= cutoff
+    verifiedOnly: boolean("verified_only").notNull().default(true),
+
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    // Last admission run (cohorts can be topped up until full)
+    admittedAt: timestamp("admitted_at", { withTimezone: true }),
+  },
+  (t) => ({
+    slugUq: uniqueIndex("cohort_slug_uq").on(t.slug),
+    sizeCheck: check("cohort_size_positive", sql`${t.size} > 0`),
+  })
+);
+
+export const accessCode = pgTable(
+  "access_code",
+  {
+    code: text("code").primaryKey(),                     // QTR-XXXX-XXXX
+    userId: pgBigint("user_id", { mode: "bigint" })
+      .notNull()
+      .references(() => userAccount.id, { onDelete: "cascade", onUpdate: "cascade" }),
+    cohortId: pgBigint("cohort_id", { mode: "bigint" })
+      .notNull()
+      .references(() => cohort.id, { onDelete: "cascade", onUpdate: "cascade" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    redeemedAt: timestamp("redeemed_at", { withTimezone: true }),
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+  },
+  (t) => ({
+    // at most one live (unrevoked) code per user
+    userLiveUq: uniqueIndex("access_code_user_live_uq").on(t.userId).where(sql`${t.revokedAt} IS NULL`),
+    cohortIdx: index("access_code_cohort_idx").on(t.cohortId),
+  })
+);
+
+/* ────────────────────────────────────────────────────────────────────────────
+   AUTH TOKENS (server-side record of every JWT we issue, keyed by jti)
+   ────────────────────────────────────────────────────────────────────────── */
+export const authToken = pgTable(
+  "auth_token",
+  {
+    jti: uuid("jti").primaryKey(),
+    purpose: text("purpose").notNull(),      // TokenPurpose: 'email-verify' | 'login' | 'dashboard' | ...
+
+    userId: pgBigint("user_id", { mode: "bigint" })
+      .notNull()
+      .references(() => userAccount.id, { onDelete: "cascade", onUpdate: "cascade" }),
+
+    issuedAt: timestamp("issued_at", { withTimezone: true }).notNull().defaultNow(),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    consumedAt: timestamp("consumed_at", { withTimezone: true }),   // single use
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+  },
+  (t) => ({
+    byUserPurposeIdx: index("auth_token_user_purpose_idx").on(t.userId, t.purpose),
+  })
+);
+
+/* ────────────────────────────────────────────────────────────────────────────
+   ADMIN API KEYS + AUDIT LOG (api/_lib/admin.ts)
+   ────────────────────────────────────────────────────────────────────────── */
+export const adminApiKey = pgTable(
+  "admin_api_key",
+  {
+    id: bigserial("id", { mode: "bigint" }).primaryKey(),
+    name: text("name").notNull(),                        // who / what holds it
+    role: adminRole("role").notNull(),
+    keyHash: text("key_hash").notNull(),                 // sha256 of the secret; shown once at creation
+    createdBy: text("created_by"),                       // actor label, see admin_audit.actor
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+  },
+  (t) => ({
+    keyHashUq: uniqueIndex("admin_api_key_hash_uq").on(t.keyHash),
+  })
+);
+
+export const adminAudit = pgTable(
+  "admin_audit",
+  {
+    id: bigserial("id", { mode: "bigint" }).primaryKey(),
+    actor: text("actor").notNull(),                      // 'key:3 ops-bot' | 'user:12 a@b.co' | 'token'
+    actorRole: adminRole("actor_role").notNull(),
+    action: text("action").notNull(),                    // 'user.verify', 'cohort.admit', ...
+    // Kept (as NULL) when the account is erased
+    targetUserId: pgBigint("target_user_id", { mode: "bigint" }).references(() => userAccount.id, {
+      onDelete: "set null",
+      onUpdate: "cascade",
+    }),
+    detail: jsonb("detail").$type<Record<string, unknown>>().notNull().default({}),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    createdIdx: index("admin_audit_created_idx").on(t.createdAt),
+    targetIdx: index("admin_audit_target_idx").on(t.targetUserId, t.createdAt),
+  })
+);
+
+/* ────────────────────────────────────────────────────────────────────────────
+   LEADERBOARD SEASONS (server-defined scoring; standings frozen on close)
+   ────────────────────────────────────────────────────────────────────────── */
+export const leaderboardSeason = pgTable(
+  "leaderboard_season",
+  {
+    id: bigserial("id", { mode: "bigint" }).primaryKey(),
+    slug: text("slug").notNull(),             // ?season=<slug>
+    name: text("name").notNull(),
+
+    startsAt: timestamp("starts_at", { withTimezone: true }).notNull(),
+    endsAt: timestamp("ends_at", { withTimezone: true }).notNull(),
+
+    // Only these kinds score, at these weights
+    eligibleKinds: referralKind("eligible_kinds").array().notNull().default(sql`'{SIGNUP,VERIFIED}'::referral_kind[]`),
+    weightSignup: integer("weight_signup").notNull().default(1),
+    weightVerified: integer("weight_verified").notNull().default(2),
+    weightClick: integer("weight_click").notNull().default(0),
+
+    // Set when final standings were snapshotted; the season is read-only after
+    closedAt: timestamp("closed_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => ({
+    slugUq: uniqueIndex("leaderboard_season_slug_uq").on(t.slug),
+    rangeCheck: check("leaderboard_season_range", sql`${t.endsAt} > ${t.startsAt}`),
+  })
+);
+
+export const leaderboardStanding = pgTable(
+  "leaderboard_standing",
+  {
+    seasonId: pgBigint("season_id", { mode: "bigint" })
+      .notNull()
+      .references(() => leaderboardSeason.id, { onDelete: "cascade", onUpdate: "cascade" }),
+    rank: integer("rank").notNull(),
+
+    // Snapshot: kept even if the account is later deleted
+    userId: pgBigint("user_id", { mode: "bigint" }).references(() => userAccount.id, {
+      onDelete: "set null",
+      onUpdate: "cascade",
+    }),
+    referralCode: text("referral_code").notNull(),
+    name: text("name").notNull(),
+
+    signups: integer("signups").notNull(),
+    verified: integer("verified").notNull(),
+    clicks: integer("clicks").notNull(),
+    points: integer("points").notNull(),
+    // user created_at in epoch µs (last tie-break, keeps cursors valid on frozen boards)
+    createdUs: pgBigint("created_us", { mode: "bigint" }).notNull(),
+  },
+  (t) => ({
+    pk: uniqueIndex("leaderboard_standing_pk").on(t.seasonId, t.rank),
+    byCodeIdx: index("leaderboard_standing_code_idx").on(t.seasonId, t.referralCode),
   })
 );
 
@@ -162,13 +521,50 @@ export type NewUserAccount = typeof userAccount.$inferInsert;
 export type ReferralEvent = typeof referralEvent.$inferSelect;
 export type NewReferralEvent = typeof referralEvent.$inferInsert;
 
+export type ReferralTally = typeof referralTally.$inferSelect;
+
+export type ProfileChange = typeof profileChange.$inferSelect;
+
+export type Cohort = typeof cohort.$inferSelect;
+export type NewCohort = typeof cohort.$inferInsert;
+
+export type AccessCode = typeof accessCode.$inferSelect;
+
+export type ReferralFlag = typeof referralFlag.$inferSelect;
+export type NewReferralFlag = typeof referralFlag.$inferInsert;
+
 export type FaucetClaim = typeof faucetClaim.$inferSelect;
 export type NewFaucetClaim = typeof faucetClaim.$inferInsert;
 
+export type EmailOutbox = typeof emailOutbox.$inferSelect;
+export type NewEmailOutbox = typeof emailOutbox.$inferInsert;
+
+export type AuthToken = typeof authToken.$inferSelect;
+export type NewAuthToken = typeof authToken.$inferInsert;
+
+export type AdminApiKey = typeof adminApiKey.$inferSelect;
+export type AdminAudit = typeof adminAudit.$inferSelect;
+
+export type LeaderboardSeason = typeof leaderboardSeason.$inferSelect;
+export type NewLeaderboardSeason = typeof leaderboardSeason.$inferInsert;
+
+export type LeaderboardStanding = typeof leaderboardStanding.$inferSelect;
+
 /* Optional: export a tables-only object if you want to import a clean schema
    object instead of the whole module. Either approach works with Drizzle. */
 export const tables = {
   userAccount,
+  profileChange,
   referralEvent,
+  referralTally,
+  referralFlag,
+  cohort,
+  accessCode,
   faucetClaim,
+  emailOutbox,
+  authToken,
+  adminApiKey,
+  adminAudit,
+  leaderboardSeason,
+  leaderboardStanding,
 };
@@ -1,3 +1,5 @@
+import type { SQL } from 'drizzle-orm';
+
 export type WaitlistInput = {
   email: string;
   role?: string;
@@ -8,3 +10,8 @@ export type WaitlistInput = {
   utm?: Record<string, string>;
   ref?: string;            // referral code of the referrer
 };
+
+/** Anything with drizzle's raw `execute` (neon-http in api/, node-postgres in scripts/) */
+export type SqlExecutor = {
+  execute(query: SQL): Promise<unknown>;
+};
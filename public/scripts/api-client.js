@@ -53,8 +53,19 @@ async function doFetch(path, init = {}) {
   const apiJson = looksLikeApiResponse(json) ? json : { ok: true, data: json };
   return apiJson;
 }
+function withQuery(path, query) {
+  if (!query) return path;
+  const qs = new URLSearchParams();
+  for (const [k, v] of Object.entries(query)) if (v !== void 0) qs.set(k, String(v));
+  const s = qs.toString();
+  return s ? `${path}?${s}` : path;
+}
 async function get(path, opts = {}) {
-  const res = await doFetch(path, { method: "GET", ...opts });
+  const { query, ...init } = opts;
+  const res = await doFetch(withQuery(path, query), {
+    method: "GET",
+    ...init
+  });
   return res.data;
 }
 async function post(path, body, opts = {}) {
@@ -65,6 +76,35 @@ async function post(path, body, opts = {}) {
   });
   return res.data;
 }
+function isTransient(err) {
+  const status = err?.status;
+  return status === void 0 || status === 429 || status >= 500;
+}
+async function pollFaucetClaim(claimId, onUpdate, opts = {}) {
+  const intervalMs = opts.intervalMs ?? 4e3;
+  const maxBackoffMs = opts.maxBackoffMs ?? 6e4;
+  let last;
+  let failures = 0;
+  for (; ; ) {
+    if (opts.signal?.aborted) throw new Error("aborted");
+    let delay = intervalMs;
+    try {
+      const { claims } = await get("/api/faucet-status", { query: { id: claimId }, signal: opts.signal });
+      failures = 0;
+      const claim = claims[0];
+      if (claim && claim.status !== last) {
+        last = claim.status;
+        onUpdate?.(claim);
+      }
+      if (claim && (claim.status === "SENT" || claim.status === "REJECTED")) return claim;
+    } catch (err) {
+      if (opts.signal?.aborted || !isTransient(err)) throw err;
+      failures++;
+      delay = Math.min(maxBackoffMs, intervalMs * 2 ** failures);
+    }
+    await new Promise((r) => setTimeout(r, delay));
+  }
+}
 async function hydrateConfig() {
   const cfg = await get("/api/config");
   const rpcEl = document.getElementById("rpc-url");
@@ -116,12 +156,13 @@ function animateCountup(el, end, dur = 900) {
   requestAnimationFrame(step);
 }
 if (typeof window !== "undefined") {
-  window.Api = { get, post, hydrateConfig, hydrateMetrics };
+  window.Api = { get, post, hydrateConfig, hydrateMetrics, pollFaucetClaim };
 }
 export {
   get,
   hydrateConfig,
   hydrateMetrics,
+  pollFaucetClaim,
   post
 };
 //# sourceMappingURL=api-client.js.map
@@ -10,6 +10,8 @@ import type {
   EndpointMap,
   PostEndpointMap,
   FetchJsonOptions,
+  FaucetClaimStatus,
+  FaucetClaimView,
   JSONObject,
 } from "../../types/api.js"; // NOTE: .js suffix required with NodeNext
 
@@ -111,12 +113,26 @@ async function doFetch<TExpected>(
 
 // ----- Public typed helpers --------------------------------------------------
 
+type QueryParams = Record<string, string | number | boolean | undefined>;
+
+function withQuery(path: string, query?: QueryParams) {
+  if (!query) return path;
+  const qs = new URLSearchParams();
+  for (const [k, v] of Object.entries(query)) if (v !== undefined) qs.set(k, String(v));
+  const s = qs.toString();
+  return s ? `${path}?${s}` : path;
+}
+
 // GET helper — returns success .data only (after normalization)
 export async function get<Path extends keyof EndpointMap>(
   path: Path,
-  opts: Omit<FetchJsonOptions, "method" | "body"> & { timeoutMs?: number } = {}
+  opts: Omit<FetchJsonOptions, "method" | "body"> & { timeoutMs?: number; query?: QueryParams } = {}
 ): Promise<OkData<AsApiResponse<GetResponse<Path>>>> {
-  const res = await doFetch<GetResponse<Path>>(path as string, { method: "GET", ...opts });
+  const { query, ...init } = opts;
+  const res = await doFetch<GetResponse<Path>>(withQuery(path as string, query), {
+    method: "GET",
+    ...init,
+  });
   return (res as Ok<AsApiResponse<GetResponse<Path>>>).data as OkData<
     AsApiResponse<GetResponse<Path>>
   >;
@@ -138,6 +154,51 @@ export async function post<Path extends keyof PostEndpointMap, Body extends JSON
   >;
 }
 
+// ----- Faucet claim polling -------------------------------------------------
+
+/** Network failures, timeouts, 429 and 5xx are worth retrying; other 4xx are not */
+function isTransient(err: unknown): boolean {
+  const status = (err as { status?: number } | null)?.status;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+/**
+ * Poll /api/faucet-status for one claim until it settles (SENT | REJECTED).
+ * `onUpdate` fires on every status change; resolves with the settled claim.
+ * Transient errors back off (doubling, up to `maxBackoffMs`) and keep polling;
+ * a 4xx or an abort rejects.
+ */
+export async function pollFaucetClaim(
+  claimId: string,
+  onUpdate?: (claim: FaucetClaimView) => void,
+  opts: { intervalMs?: number; maxBackoffMs?: number; signal?: AbortSignal } = {}
+): Promise<FaucetClaimView> {
+  const intervalMs = opts.intervalMs ?? 4_000;
+  const maxBackoffMs = opts.maxBackoffMs ?? 60_000;
+  let last: FaucetClaimStatus | undefined;
+  let failures = 0;
+
+  for (;;) {
+    if (opts.signal?.aborted) throw new Error("aborted");
+    let delay = intervalMs;
+    try {
+      const { claims } = await get("/api/faucet-status", { query: { id: claimId }, signal: opts.signal });
+      failures = 0;
+      const claim = claims[0];
+      if (claim && claim.status !== last) {
+        last = claim.status;
+        onUpdate?.(claim);
+      }
+      if (claim && (claim.status === "SENT" || claim.status === "REJECTED")) return claim;
+    } catch (err) {
+      if (opts.signal?.aborted || !isTransient(err)) throw err;
+      failures++;
+      delay = Math.min(maxBackoffMs, intervalMs * 2 ** failures);
+    }
+    await new Promise((r) => setTimeout(r, delay));
+  }
+}
+
 // ----- Convenience: DOM hydrators (optional) --------------------------------
 
 /** Fill small config bits in the DOM (rpc url, network name, releaseAt). */
@@ -211,10 +272,11 @@ declare global {
       post: typeof post;
       hydrateConfig: typeof hydrateConfig;
       hydrateMetrics: typeof hydrateMetrics;
+      pollFaucetClaim: typeof pollFaucetClaim;
     };
   }
 }
 
 if (typeof window !== "undefined") {
-  window.Api = { get, post, hydrateConfig, hydrateMetrics };
+  window.Api = { get, post, hydrateConfig, hydrateMetrics, pollFaucetClaim };
 }
@@ -142,7 +142,7 @@
         if (res.status === 404) continue;
         if (!res.ok) return false;
         const json = await res.json().catch(() => ({}));
-        return !!json?.success;
+        return json?.ok === true;
       } catch {
         // try next
       }
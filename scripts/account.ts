@@ -0,0 +1,49 @@
+// scripts/account.ts
+// Data requests sent to privacy@ (api/_lib/account.ts), for people who can't
+// use the self-service endpoints.
+//
+//   npx tsx scripts/account.ts export --email someone@example.com > data.json
+//   npx tsx scripts/account.ts erase --email someone@example.com --yes
+//
+// --user <id> works instead of --email. erase is irreversible; without --yes
+// it only says who would be erased.
+import "dotenv/config";
+import { parseArgs } from "node:util";
+import { sql } from "drizzle-orm";
+import { getDb } from "../db/client.node.js";
+import { eraseAccount, exportAccount } from "../api/_lib/account.js";
+import { getRows } from "../api/_lib/http.js";
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    email: { type: "string" },
+    user: { type: "string" },
+    yes: { type: "boolean", default: false },
+  },
+});
+
+function die(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+const command = positionals[0];
+if (command !== "export" && command !== "erase") die(`unknown command ${command ?? ""} (export | erase)`);
+if (!values.email === !values.user) die("pass exactly one of --email or --user");
+
+const db = await getDb();
+const userQ = values.user
+  ? sql`SELECT id::text AS id, email FROM user_account WHERE id = ${values.user}`
+  : sql`SELECT id::text AS id, email FROM user_account WHERE lower(email) = ${values.email!.trim().toLowerCase()}`;
+const user = getRows<{ id: string; email: string }>(await db.execute(userQ))[0];
+if (!user) die("no such account");
+
+if (command === "export") {
+  console.log(JSON.stringify(await exportAccount(db, user.id), null, 2));
+} else if (!values.yes) {
+  console.log(JSON.stringify({ wouldErase: user }));
+} else {
+  console.log(JSON.stringify({ erased: await eraseAccount(db, user.id), ...user }));
+}
+process.exit(0);
@@ -0,0 +1,77 @@
+// scripts/admin.ts
+// Manage who can use the admin API (api/_lib/admin.ts). Runs as the owner
+// role (actor "script" in the audit log), so this is how the first key or
+// team member is set up.
+//
+//   npx tsx scripts/admin.ts keys list
+//   npx tsx scripts/admin.ts keys create --name "support bot" --role viewer
+//   npx tsx scripts/admin.ts keys revoke --id 3
+//   npx tsx scripts/admin.ts grant --email alice@quantara.xyz --role operator   (--role none removes)
+//   npx tsx scripts/admin.ts audit [--user <id>] [--limit 50]
+//
+// A created key is printed once; only its hash is stored.
+import "dotenv/config";
+import { parseArgs } from "node:util";
+import { getDb } from "../db/client.node.js";
+import {
+  ADMIN_ROLES,
+  createApiKey,
+  listApiKeys,
+  listAudit,
+  revokeApiKey,
+  SCRIPT_ADMIN,
+  setAdminRole,
+} from "../api/_lib/admin.js";
+import type { AdminRole } from "../types/api.js";
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    name: { type: "string" },
+    role: { type: "string" },
+    id: { type: "string" },
+    email: { type: "string" },
+    user: { type: "string" },
+    limit: { type: "string", default: "50" },
+  },
+});
+
+function die(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+function role(allowNone: boolean): AdminRole | null {
+  const r = values.role;
+  if (allowNone && r === "none") return null;
+  if (!r || !ADMIN_ROLES.includes(r as AdminRole)) {
+    die(`--role must be one of ${ADMIN_ROLES.join(", ")}${allowNone ? ", none" : ""}`);
+  }
+  return r as AdminRole;
+}
+
+const [command, sub] = positionals;
+const db = await getDb();
+
+if (command === "keys" && sub === "list") {
+  console.log(JSON.stringify(await listApiKeys(db), null, 2));
+} else if (command === "keys" && sub === "create") {
+  if (!values.name?.trim()) die("--name required");
+  const created = await createApiKey(db, SCRIPT_ADMIN, { name: values.name.trim(), role: role(false)! });
+  console.log(JSON.stringify(created, null, 2));
+} else if (command === "keys" && sub === "revoke") {
+  if (!values.id || !/^\d+$/.test(values.id)) die("--id required");
+  console.log(JSON.stringify({ revoked: await revokeApiKey(db, SCRIPT_ADMIN, values.id) }));
+} else if (command === "grant") {
+  if (!values.email) die("--email required");
+  const member = await setAdminRole(db, SCRIPT_ADMIN, values.email, role(true));
+  if (member === undefined) die("no account with that email");
+  console.log(JSON.stringify({ email: values.email, role: member?.role ?? null }));
+} else if (command === "audit") {
+  if (values.user && !/^\d+$/.test(values.user)) die("--user must be an id");
+  const limit = Math.max(1, Math.min(500, Number(values.limit) || 50));
+  console.log(JSON.stringify((await listAudit(db, { targetUserId: values.user, limit })).items, null, 2));
+} else {
+  die("usage: admin.ts keys list|create|revoke | grant | audit");
+}
+process.exit(0);
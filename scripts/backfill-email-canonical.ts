@@ -0,0 +1,48 @@
+// scripts/backfill-email-canonical.ts
+// Fill user_account.email_canonical for rows created before it existed.
+// Oldest account wins: if two existing accounts share a canonical inbox, the
+// newer one is left NULL and listed so it can be merged or removed by hand.
+//
+//   npx tsx scripts/backfill-email-canonical.ts [--batch 500]
+import "dotenv/config";
+import { parseArgs } from "node:util";
+import { sql } from "drizzle-orm";
+import { getDb } from "../db/client.node.js";
+import { getRows } from "../api/_lib/http.js";
+import { canonicalEmail } from "../api/_lib/email-address.js";
+
+const { values } = parseArgs({ options: { batch: { type: "string", default: "500" } } });
+const batch = Math.max(1, Number(values.batch) || 500);
+
+const db = await getDb();
+let afterId = "0";
+let filled = 0;
+const conflicts: { id: string; email: string; canonical: string }[] = [];
+
+for (;;) {
+  const q = sql<{ id: string; email: string }>`
+    SELECT id::text AS id, email FROM user_account
+     WHERE email_canonical IS NULL AND id > ${afterId}::bigint
+     ORDER BY id
+     LIMIT ${batch}
+  `;
+  const rows = getRows<{ id: string; email: string }>(await db.execute(q));
+  if (!rows.length) break;
+
+  for (const row of rows) {
+    const canonical = canonicalEmail(row.email);
+    const upd = sql<{ id: string }>`
+      UPDATE user_account SET email_canonical = ${canonical}
+       WHERE id = ${row.id}
+         AND NOT EXISTS (SELECT 1 FROM user_account WHERE email_canonical = ${canonical})
+   RETURNING id::text AS id
+    `;
+    if (getRows(await db.execute(upd)).length) filled++;
+    else conflicts.push({ id: row.id, email: row.email, canonical });
+  }
+  afterId = rows[rows.length - 1].id;
+}
+
+for (const c of conflicts) console.warn(`[backfill] ${c.id} ${c.email}: ${c.canonical} already taken`);
+console.log(JSON.stringify({ filled, conflicts: conflicts.length }));
+process.exit(0);
@@ -0,0 +1,103 @@
+// scripts/cohort.ts
+// Devnet-0 admissions (api/_lib/admissions.ts).
+//
+//   npx tsx scripts/cohort.ts list
+//   npx tsx scripts/cohort.ts create --slug builders-1 --name "Builders wave 1" --size 200 \
+//       [--roles Builder,Validator] [--cutoff 1000] [--include-unverified]
+//   npx tsx scripts/cohort.ts preview --slug builders-1   # who admit would pick
+//   npx tsx scripts/cohort.ts admit --slug builders-1     # admit, issue codes, queue invites
+//   npx tsx scripts/cohort.ts revoke --slug builders-1 --user 42    # kill an unredeemed code
+//   npx tsx scripts/cohort.ts reissue --slug builders-1 --user 42   # new code + invite
+//
+// --cutoff only admits queue positions 1..N. Invites go out with the next
+// outbox run (npm run email:dispatch or the cron).
+import "dotenv/config";
+import { parseArgs } from "node:util";
+import { getDb } from "../db/client.node.js";
+import {
+  admitCohort,
+  cohortInfo,
+  createCohort,
+  getCohort,
+  listCohorts,
+  previewCohort,
+  reissueAccessCode,
+  revokeAccessCode,
+  ROLES,
+} from "../api/_lib/admissions.js";
+import type { Role } from "../types/api.js";
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    slug: { type: "string" },
+    name: { type: "string" },
+    size: { type: "string" },
+    roles: { type: "string" },
+    cutoff: { type: "string" },
+    user: { type: "string" },
+    "include-unverified": { type: "boolean", default: false },
+  },
+});
+
+function die(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+const db = await getDb();
+const command = positionals[0] ?? "list";
+
+if (command === "list") {
+  for (const c of await listCohorts(db)) console.log(JSON.stringify(cohortInfo(c)));
+} else if (command === "create") {
+  if (!values.slug || !/^[a-z0-9-]{1,64}$/.test(values.slug)) die("--slug must be lowercase letters, digits and dashes");
+  const size = Number(values.size);
+  if (!Number.isInteger(size) || size < 1) die("--size must be a positive integer");
+  const cutoff = values.cutoff === undefined ? null : Number(values.cutoff);
+  if (cutoff !== null && (!Number.isInteger(cutoff) || cutoff < 1)) die("--cutoff must be a positive integer");
+
+  // match roles case-insensitively ("builder" → "Builder")
+  const roles = (values.roles ?? "").split(",").map((r) => r.trim()).filter(Boolean).map((r) => {
+    const role = ROLES.find((known) => known.toLowerCase() === r.toLowerCase());
+    return role ?? die(`unknown role ${r} (have: ${ROLES.join(", ")})`);
+  }) as Role[];
+
+  const cohort = await createCohort(db, {
+    slug: values.slug,
+    name: values.name ?? values.slug,
+    size,
+    roles,
+    queueCutoff: cutoff,
+    verifiedOnly: !values["include-unverified"],
+  });
+  if (!cohort) die(`cohort ${values.slug} already exists`);
+  console.log(JSON.stringify(cohortInfo(cohort)));
+} else if (command === "preview" || command === "admit") {
+  if (!values.slug) die("pass --slug");
+  const cohort = await getCohort(db, values.slug);
+  if (!cohort) die(`no cohort ${values.slug}`);
+
+  if (command === "preview") {
+    for (const c of await previewCohort(db, cohort)) console.log(JSON.stringify(c));
+  } else {
+    console.log(JSON.stringify({ cohort: cohort.slug, ...(await admitCohort(db, cohort)) }));
+  }
+} else if (command === "revoke" || command === "reissue") {
+  if (!values.slug) die("pass --slug");
+  if (!values.user || !/^\d{1,19}$/.test(values.user)) die("--user must be a user id");
+  const cohort = await getCohort(db, values.slug);
+  if (!cohort) die(`no cohort ${values.slug}`);
+
+  if (command === "revoke") {
+    const revoked = await revokeAccessCode(db, cohort, values.user);
+    console.log(JSON.stringify({ cohort: cohort.slug, userId: values.user, revoked }));
+  } else {
+    const result = await reissueAccessCode(db, cohort, values.user);
+    if (!result.ok) die(result.code === "NOT_MEMBER" ? `user ${values.user} is not in ${cohort.slug}` : "code already redeemed");
+    console.log(JSON.stringify({ cohort: cohort.slug, userId: values.user, ...result }));
+  }
+} else {
+  die(`unknown command ${command} (list | create | preview | admit | revoke | reissue)`);
+}
+process.exit(0);
@@ -0,0 +1,31 @@
+// scripts/email-dispatch.ts
+// Send due rows from the email outbox.
+//
+//   npx tsx scripts/email-dispatch.ts             # one pass
+//   npx tsx scripts/email-dispatch.ts --loop 10   # pass every 10s until Ctrl-C
+import "dotenv/config";
+import { parseArgs } from "node:util";
+import { getDb } from "../db/client.node.js";
+import { dispatchOutbox } from "../api/_lib/outbox.js";
+
+const { values } = parseArgs({
+  options: {
+    batch: { type: "string" },
+    loop: { type: "string" },
+  },
+});
+
+const db = await getDb();
+const loopSeconds = values.loop ? Math.max(1, Number(values.loop) || 10) : 0;
+let stopping = false;
+process.on("SIGINT", () => (stopping = true));
+
+do {
+  const summary = await dispatchOutbox(db, {
+    batchSize: values.batch ? Number(values.batch) : undefined,
+  });
+  console.log(JSON.stringify({ at: new Date().toISOString(), ...summary }));
+  if (loopSeconds && !stopping) await new Promise((r) => setTimeout(r, loopSeconds * 1000));
+} while (loopSeconds && !stopping);
+
+process.exit(0);
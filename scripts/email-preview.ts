@@ -0,0 +1,91 @@
+// scripts/email-preview.ts
+// Render every email template in every locale to disk for review.
+//
+//   npx tsx scripts/email-preview.ts                 # → email-previews/<locale>/<template>.{html,txt}
+//   npx tsx scripts/email-preview.ts --out /tmp/mail --locale es --template faucet-receipt
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import {
+  SUPPORTED_LOCALES,
+  TEMPLATE_NAMES,
+  isLocale,
+  isTemplateName,
+  renderEmail,
+  type TemplateName,
+  type TemplateVars,
+} from "../api/_lib/templates/index.js";
+
+// Sample values for every placeholder used by the templates
+const SAMPLE_VARS: Record<TemplateName, TemplateVars> = {
+  "verify-email": { link: "https://www.quantara-waitlist.com/api/verify-email?token=PREVIEW" },
+  "verify-reminder": { link: "https://www.quantara-waitlist.com/api/verify-email?token=PREVIEW" },
+  "login-link": { link: "https://www.quantara-waitlist.com/api/auth/callback?token=PREVIEW", minutes: 15 },
+  "email-change": {
+    link: "https://www.quantara-waitlist.com/api/profile/confirm-email?token=PREVIEW",
+    email: "new.address@example.com",
+  },
+  "referral-milestone": {
+    count: 10,
+    code: "qtr-7f3a9c",
+    leaderboardUrl: "https://www.quantara-waitlist.com/leaderboard/",
+    shareUrl: "https://www.quantara-waitlist.com/?ref=qtr-7f3a9c",
+  },
+  "faucet-receipt": {
+    amount: "100",
+    address: "dGz1v4pJ3VxJkS8o4b1Qm8bWc7Ue8pZQwLw5s9eP2kR7tQf",
+    txHash: "0x5c1b0e7d4f2a9b3c6e8d1f0a7b4c2e9d5f3a1b8c6e4d2f0a9b7c5e3d1f8a6b4c",
+    explorerUrl: "https://explorer.devnet-0.quantara.xyz/tx/0x5c1b…",
+  },
+  "launch-announcement": {
+    releaseAt: "2025-11-30",
+    faucetUrl: "https://www.quantara-waitlist.com/faucet/",
+    walletUrl: "https://wallet.quantara.xyz",
+  },
+  "cohort-invite": {
+    cohort: "Builders wave 1",
+    code: "QTR-7K2M-X9PD",
+    redeemUrl: "https://www.quantara-waitlist.com/devnet/?code=QTR-7K2M-X9PD",
+  },
+  "marketing-confirm": { link: "https://www.quantara-waitlist.com/api/consent/confirm?token=PREVIEW" },
+};
+
+// Marketing templates get this footer link (ignored for the rest)
+const SAMPLE_UNSUBSCRIBE_URL = "https://www.quantara-waitlist.com/api/consent/unsubscribe?token=PREVIEW";
+
+const { values } = parseArgs({
+  options: {
+    out: { type: "string", default: "email-previews" },
+    locale: { type: "string" },
+    template: { type: "string" },
+  },
+});
+
+if (values.locale && !isLocale(values.locale)) {
+  console.error(`unknown locale "${values.locale}" (have: ${SUPPORTED_LOCALES.join(", ")})`);
+  process.exit(1);
+}
+if (values.template && !isTemplateName(values.template)) {
+  console.error(`unknown template "${values.template}" (have: ${TEMPLATE_NAMES.join(", ")})`);
+  process.exit(1);
+}
+
+const locales = values.locale && isLocale(values.locale) ? [values.locale] : SUPPORTED_LOCALES;
+const names = values.template && isTemplateName(values.template) ? [values.template] : TEMPLATE_NAMES;
+
+for (const locale of locales) {
+  const dir = join(values.out!, locale);
+  await fs.mkdir(dir, { recursive: true });
+  for (const name of names) {
+    const { subject, text, html } = renderEmail(name, locale, SAMPLE_VARS[name], {
+      unsubscribeUrl: SAMPLE_UNSUBSCRIBE_URL,
+    });
+    const doc = `<!doctype html>
+<html lang="${locale}"><head><meta charset="utf-8"><title>${subject.replace(/</g, "&lt;")}</title></head>
+<body>${html}</body></html>
+`;
+    await fs.writeFile(join(dir, `${name}.html`), doc, "utf8");
+    await fs.writeFile(join(dir, `${name}.txt`), `Subject: ${subject}\n\n${text}`, "utf8");
+    console.log(`${locale}/${name}: ${subject}`);
+  }
+}
@@ -0,0 +1,38 @@
+// scripts/faucet-payout.ts
+// Drain PENDING faucet claims from the command line.
+//
+//   npx tsx scripts/faucet-payout.ts               # one pass
+//   npx tsx scripts/faucet-payout.ts --loop 15     # pass every 15s until Ctrl-C
+//   npx tsx scripts/faucet-payout.ts --batch 50 --rpc http://127.0.0.1:9933
+//
+// Point --rpc (or FAUCET_RPC_URL) at scripts/mock-rpc.ts to test locally.
+import "dotenv/config";
+import { parseArgs } from "node:util";
+import { getDb } from "../db/client.node.js";
+import { runFaucetPayout } from "../api/_lib/faucet-payout.js";
+
+const { values } = parseArgs({
+  options: {
+    batch: { type: "string" },
+    rpc: { type: "string" },
+    loop: { type: "string" },
+    worker: { type: "string" },
+  },
+});
+
+const db = await getDb();
+const loopSeconds = values.loop ? Math.max(1, Number(values.loop) || 15) : 0;
+let stopping = false;
+process.on("SIGINT", () => (stopping = true));
+
+do {
+  const summary = await runFaucetPayout(db, {
+    workerId: values.worker,
+    batchSize: values.batch ? Number(values.batch) : undefined,
+    rpcUrl: values.rpc,
+  });
+  console.log(JSON.stringify({ at: new Date().toISOString(), ...summary }));
+  if (loopSeconds && !stopping) await new Promise((r) => setTimeout(r, loopSeconds * 1000));
+} while (loopSeconds && !stopping);
+
+process.exit(0);
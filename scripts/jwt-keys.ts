@@ -0,0 +1,103 @@
+// scripts/jwt-keys.ts
+// Manage the JWT keyring (api/_lib/keyring.ts). Env vars can't be written from
+// here, so every command prints the new JWT_KEYS / JWT_ACTIVE_KID to set.
+//
+//   npx tsx scripts/jwt-keys.ts list
+//   npx tsx scripts/jwt-keys.ts generate [--alg HS256|ES256|EdDSA] [--kid k2]
+//   npx tsx scripts/jwt-keys.ts rotate   [--alg ES256]      # add a key and make it active
+//   npx tsx scripts/jwt-keys.ts retire --kid k1             # stop accepting k1
+//
+// Rotation: `rotate`, deploy, wait out the longest token TTL (2 days for
+// verify links), then `retire` the old kid and deploy again.
+import "dotenv/config";
+import { parseArgs } from "node:util";
+import { randomBytes } from "node:crypto";
+import { exportJWK, generateKeyPair, type JWK } from "jose";
+import { describeKeyring, JWT_ALGS, LEGACY_KID, parseKeys, type JwtAlg } from "../api/_lib/keyring.js";
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    alg: { type: "string", default: "HS256" },
+    kid: { type: "string" },
+  },
+});
+
+const command = positionals[0] ?? "list";
+const alg = values.alg as JwtAlg;
+if (!JWT_ALGS.includes(alg)) {
+  console.error(`unsupported --alg ${values.alg} (have: ${JWT_ALGS.join(", ")})`);
+  process.exit(1);
+}
+
+function currentKeys(): JWK[] {
+  return process.env.JWT_KEYS ? parseKeys(process.env.JWT_KEYS).map((k) => k.jwk) : [];
+}
+
+function defaultKid() {
+  return `${alg.toLowerCase()}-${new Date().toISOString().slice(0, 10)}-${randomBytes(3).toString("hex")}`;
+}
+
+async function generate(kid: string): Promise<JWK> {
+  if (alg === "HS256") {
+    return { kty: "oct", kid, alg, k: randomBytes(32).toString("base64url") };
+  }
+  const { privateKey } = await generateKeyPair(alg, { crv: alg === "EdDSA" ? "Ed25519" : undefined, extractable: true });
+  return { ...(await exportJWK(privateKey)), kid, alg };
+}
+
+function printEnv(keys: JWK[], activeKid?: string) {
+  console.log(`JWT_KEYS='${JSON.stringify({ keys })}'`);
+  if (activeKid) console.log(`JWT_ACTIVE_KID=${activeKid}`);
+}
+
+switch (command) {
+  case "list": {
+    for (const k of describeKeyring()) {
+      console.log(`${k.active ? "*" : " "} ${k.kid.padEnd(28)} ${k.alg.padEnd(6)} ${k.canSign ? "sign+verify" : "verify-only"}`);
+    }
+    break;
+  }
+  case "generate": {
+    console.log(JSON.stringify(await generate(values.kid ?? defaultKid())));
+    break;
+  }
+  case "rotate": {
+    const keys = currentKeys();
+    const kid = values.kid ?? defaultKid();
+    if (keys.some((k) => k.kid === kid)) {
+      console.error(`kid ${kid} already exists`);
+      process.exit(1);
+    }
+    keys.push(await generate(kid));
+    printEnv(keys, kid);
+    if (process.env.JWT_SECRET) console.error(`note: JWT_SECRET stays accepted as kid "${LEGACY_KID}" until you unset it`);
+    break;
+  }
+  case "retire": {
+    if (!values.kid) {
+      console.error("retire needs --kid");
+      process.exit(1);
+    }
+    const active = describeKeyring().find((k) => k.active);
+    if (active?.kid === values.kid) {
+      console.error(`${values.kid} is the active signing key; rotate first`);
+      process.exit(1);
+    }
+    if (values.kid === LEGACY_KID) {
+      console.log("unset JWT_SECRET to retire the legacy key");
+      break;
+    }
+    const keys = currentKeys();
+    const left = keys.filter((k) => k.kid !== values.kid);
+    if (left.length === keys.length) {
+      console.error(`no key ${values.kid} in JWT_KEYS`);
+      process.exit(1);
+    }
+    printEnv(left, process.env.JWT_ACTIVE_KID);
+    break;
+  }
+  default:
+    console.error(`unknown command ${command} (list | generate | rotate | retire)`);
+    process.exit(1);
+}
@@ -0,0 +1,12 @@
+// scripts/leaderboard-tally.ts
+// Rebuild referral_tally (the leaderboard's daily counts) from referral_event.
+// Normally unnecessary: the referral_event_tally trigger keeps it current.
+//
+//   npx tsx scripts/leaderboard-tally.ts
+import "dotenv/config";
+import { getDb } from "../db/client.node.js";
+import { rebuildTally } from "../api/_lib/leaderboard.js";
+
+const db = await getDb();
+console.log(JSON.stringify(await rebuildTally(db)));
+process.exit(0);
@@ -0,0 +1,64 @@
+// scripts/mock-rpc.ts
+// Local stand-in for a Devnet-0 node's JSON-RPC (HTTP), for exercising the
+// faucet payout worker without a chain.
+//
+//   npx tsx scripts/mock-rpc.ts                    # listens on :9933
+//   MOCK_RPC_FAIL_EVERY=3 npx tsx scripts/mock-rpc.ts   # every 3rd transfer errors
+//
+// Supports single and batch requests; logs every faucet_transfer it "sends".
+import { createServer } from "node:http";
+import { randomBytes } from "node:crypto";
+
+const port = Number(process.env.MOCK_RPC_PORT || 9933);
+const failEvery = Number(process.env.MOCK_RPC_FAIL_EVERY || 0);
+const seenRefs = new Map<string, string>(); // ref → tx hash (idempotent replays)
+let transfers = 0;
+
+type Req = { jsonrpc: "2.0"; id: number | string; method: string; params?: any };
+
+function handle(r: Req) {
+  const reply = (result: unknown) => ({ jsonrpc: "2.0", id: r.id, result });
+  const error = (code: number, message: string) => ({ jsonrpc: "2.0", id: r.id, error: { code, message } });
+
+  switch (r.method) {
+    case "system_chain":
+      return reply("Quantara Devnet-0 (mock)");
+    case "system_health":
+      return reply({ peers: 0, isSyncing: false, shouldHavePeers: false });
+    case "faucet_transfer": {
+      const { dest, amount, ref } = r.params ?? {};
+      if (!dest || !amount) return error(-32602, "dest and amount are required");
+      if (ref && seenRefs.has(ref)) return reply(seenRefs.get(ref));
+      transfers++;
+      if (failEvery && transfers % failEvery === 0) return error(1010, "Invalid Transaction: Inability to pay some fees");
+      const hash = `0x${randomBytes(32).toString("hex")}`;
+      if (ref) seenRefs.set(ref, hash);
+      console.log(`[mock-rpc] transfer ${amount} planck → ${dest} (${ref ?? "no ref"}) ${hash}`);
+      return reply(hash);
+    }
+    default:
+      return error(-32601, `Method not found: ${r.method}`);
+  }
+}
+
+createServer((req, res) => {
+  if (req.method !== "POST") {
+    res.writeHead(405).end();
+    return;
+  }
+  let body = "";
+  req.on("data", (c) => (body += c));
+  req.on("end", () => {
+    let parsed: Req | Req[];
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } }));
+      return;
+    }
+    const out = Array.isArray(parsed) ? parsed.map(handle) : handle(parsed);
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(out));
+  });
+}).listen(port, () => console.log(`[mock-rpc] listening on http://127.0.0.1:${port}`));
@@ -0,0 +1,11 @@
+// scripts/queue-recompute.ts
+// Recompute waitlist positions now (the cron does this every few minutes).
+//
+//   npx tsx scripts/queue-recompute.ts
+import "dotenv/config";
+import { getDb } from "../db/client.node.js";
+import { QUEUE_RULES, recomputeQueue } from "../api/_lib/queue.js";
+
+const db = await getDb();
+console.log(JSON.stringify({ rules: QUEUE_RULES, ...(await recomputeQueue(db)) }));
+process.exit(0);
@@ -0,0 +1,49 @@
+// scripts/revoke-tokens.ts
+// Revoke issued tokens (auth_token rows) so their links stop working.
+//
+//   npx tsx scripts/revoke-tokens.ts --jti <uuid>
+//   npx tsx scripts/revoke-tokens.ts --email someone@example.com [--purpose email-verify]
+//   npx tsx scripts/revoke-tokens.ts --user 42
+import "dotenv/config";
+import { parseArgs } from "node:util";
+import { sql } from "drizzle-orm";
+import { getDb } from "../db/client.node.js";
+import { getRows } from "../api/_lib/http.js";
+import { revokeTokens, type TokenPurpose } from "../api/_lib/tokens.js";
+
+const { values } = parseArgs({
+  options: {
+    jti: { type: "string" },
+    user: { type: "string" },
+    email: { type: "string" },
+    purpose: { type: "string" },
+  },
+});
+
+const db = await getDb();
+const purpose = values.purpose as TokenPurpose | undefined;
+
+let revoked: number;
+if (values.jti) {
+  revoked = await revokeTokens(db, { jti: values.jti });
+} else {
+  let userId = values.user;
+  if (!userId && values.email) {
+    const q = sql<{ id: string }>`
+      SELECT id::text AS id FROM user_account WHERE lower(email) = ${values.email.trim().toLowerCase()}
+    `;
+    userId = getRows<{ id: string }>(await db.execute(q))[0]?.id;
+    if (!userId) {
+      console.error(`no user with email ${values.email}`);
+      process.exit(1);
+    }
+  }
+  if (!userId) {
+    console.error("pass --jti, --user or --email");
+    process.exit(1);
+  }
+  revoked = await revokeTokens(db, { userId, purpose });
+}
+
+console.log(JSON.stringify({ revoked }));
+process.exit(0);
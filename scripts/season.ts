@@ -0,0 +1,73 @@
+// scripts/season.ts
+// Manage leaderboard seasons (api/_lib/seasons.ts).
+//
+//   npx tsx scripts/season.ts list
+//   npx tsx scripts/season.ts create --slug s1 --name "Season 1" \
+//       --start 2025-11-01T00:00:00Z --end 2025-12-01T00:00:00Z \
+//       [--weights 1,2,0] [--kinds SIGNUP,VERIFIED]
+//   npx tsx scripts/season.ts close --slug s1 [--force]   # snapshot final standings
+//
+// --weights is signup,verified,click. Closing before --end needs --force.
+import "dotenv/config";
+import { parseArgs } from "node:util";
+import { getDb } from "../db/client.node.js";
+import { parseWeights } from "../api/_lib/leaderboard.js";
+import { closeSeason, createSeason, listSeasons, seasonInfo } from "../api/_lib/seasons.js";
+import type { ReferralKind } from "../types/api.js";
+
+const KINDS: readonly ReferralKind[] = ["SIGNUP", "VERIFIED", "CLICK"];
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    slug: { type: "string" },
+    name: { type: "string" },
+    start: { type: "string" },
+    end: { type: "string" },
+    weights: { type: "string", default: "1,2,0" },
+    kinds: { type: "string", default: "SIGNUP,VERIFIED" },
+    force: { type: "boolean", default: false },
+  },
+});
+
+function die(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+const db = await getDb();
+const command = positionals[0] ?? "list";
+
+if (command === "list") {
+  for (const s of await listSeasons(db)) {
+    console.log(JSON.stringify({ ...seasonInfo(s), weights: s.scoring.weights }));
+  }
+} else if (command === "create") {
+  if (!values.slug || !/^[a-z0-9-]{1,64}$/.test(values.slug)) die("--slug must be lowercase letters, digits and dashes");
+  const startsAt = new Date(values.start ?? "");
+  const endsAt = new Date(values.end ?? "");
+  if (!Number.isFinite(startsAt.getTime()) || !Number.isFinite(endsAt.getTime())) die("--start and --end must be ISO dates");
+  if (endsAt <= startsAt) die("--end must be after --start");
+
+  const kinds = values.kinds.split(",").map((k) => k.trim().toUpperCase()).filter(Boolean) as ReferralKind[];
+  const unknown = kinds.find((k) => !KINDS.includes(k));
+  if (unknown) die(`unknown kind ${unknown} (have: ${KINDS.join(", ")})`);
+
+  const season = await createSeason(db, {
+    slug: values.slug,
+    name: values.name ?? values.slug,
+    startsAt,
+    endsAt,
+    weights: parseWeights(values.weights),
+    kinds,
+  });
+  console.log(JSON.stringify({ ...seasonInfo(season), weights: season.scoring.weights }));
+} else if (command === "close") {
+  if (!values.slug) die("pass --slug");
+  const result = await closeSeason(db, values.slug, { force: values.force });
+  if (!result.ok) die(`cannot close ${values.slug}: ${result.code}${result.code === "NOT_ENDED" ? " (use --force to close early)" : ""}`);
+  console.log(JSON.stringify({ closed: values.slug, standings: result.standings }));
+} else {
+  die(`unknown command ${command} (list | create | close)`);
+}
+process.exit(0);
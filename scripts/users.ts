@@ -0,0 +1,81 @@
+// scripts/users.ts
+// Waitlist export / bulk import from a shell (api/_lib/user-export.ts,
+// api/_lib/user-import.ts). Runs as the owner role, so emails are exported
+// in full unless --mask is given.
+//
+//   npx tsx scripts/users.ts export --format csv [--role Builder] [--country Spain] [--verified true]
+//        [--from 2025-06-01] [--to 2025-07-01] [--campaign devcon] [--mask] > waitlist.csv
+//   npx tsx scripts/users.ts import --file devcon.csv                 dry run: per-row report
+//   npx tsx scripts/users.ts import --file devcon.csv --commit [--send-verification]
+//
+// Import files are CSV (by extension) or NDJSON; headers use the waitlist
+// form's field names (email, role, country, utm_campaign, ...).
+import "dotenv/config";
+import { readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { getDb } from "../db/client.node.js";
+import { recordAudit, SCRIPT_ADMIN } from "../api/_lib/admin.js";
+import { EXPORT_FORMATS, exportHeader, exportLine, exportUsers, parseExportFilter } from "../api/_lib/user-export.js";
+import { importUsers, parseImportText } from "../api/_lib/user-import.js";
+import type { AdminExportFormat } from "../types/api.js";
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    format: { type: "string", default: "csv" },
+    role: { type: "string" },
+    country: { type: "string" },
+    verified: { type: "string" },
+    from: { type: "string" },
+    to: { type: "string" },
+    campaign: { type: "string" },
+    mask: { type: "boolean", default: false },
+    file: { type: "string" },
+    commit: { type: "boolean", default: false },
+    "send-verification": { type: "boolean", default: false },
+  },
+});
+
+function die(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+const command = positionals[0];
+if (command !== "export" && command !== "import") die(`unknown command ${command ?? ""} (export | import)`);
+
+const db = await getDb();
+
+if (command === "export") {
+  const format = values.format as AdminExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) die(`--format must be one of ${EXPORT_FORMATS.join(", ")}`);
+  const { role, country, verified, from, to, campaign } = values;
+  const parsed = parseExportFilter({ role, country, verified, from, to, campaign });
+  if (!parsed.ok) die(parsed.message);
+
+  process.stdout.write(exportHeader(format));
+  let count = 0;
+  for await (const batch of exportUsers(db, parsed.filter, { maskEmails: values.mask })) {
+    process.stdout.write(batch.map((row) => exportLine(format, row)).join(""));
+    count += batch.length;
+  }
+  await recordAudit(db, SCRIPT_ADMIN, "user.export", {
+    detail: { format, filter: parsed.filter, maskEmails: values.mask, rows: count },
+  });
+  console.error(`${count} row(s)`);
+} else {
+  if (!values.file) die("--file required");
+  const format = /\.csv$/i.test(values.file) ? "csv" : "ndjson";
+  let rows;
+  try {
+    rows = parseImportText(format, await readFile(values.file, "utf8"));
+  } catch (e: any) {
+    die(`${values.file}: ${e?.message || e}`);
+  }
+  const summary = await importUsers(db, SCRIPT_ADMIN, rows, {
+    commit: values.commit,
+    sendVerification: values["send-verification"],
+  });
+  console.log(JSON.stringify(summary, null, 2));
+}
+process.exit(0);
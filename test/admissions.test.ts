@@ -0,0 +1,22 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { generateAccessCode, normalizeAccessCode } from "../api/_lib/admissions.js";
+
+test("generateAccessCode yields QTR-XXXX-XXXX without ambiguous letters", () => {
+  for (let i = 0; i < 50; i++) {
+    const code = generateAccessCode();
+    assert.match(code, /^QTR-[2-9A-HJ-NP-Z]{4}-[2-9A-HJ-NP-Z]{4}$/);
+    assert.equal(normalizeAccessCode(code), code);
+  }
+});
+
+test("normalizeAccessCode accepts however people type a code", () => {
+  const cases = ["QTR-7K2M-X9PD", "qtr 7k2m x9pd", " qtr-7K2M-x9pd ", "7K2MX9PD", "7k2m-x9pd"];
+  for (const input of cases) assert.equal(normalizeAccessCode(input), "QTR-7K2M-X9PD", input);
+});
+
+test("normalizeAccessCode rejects codes that can't exist", () => {
+  for (const input of ["", "QTR-7K2M", "QTR-7K2M-X9PD-ABCD", "QTR-0K2M-X9PD", "QTR-IK2M-X9PD", "XYZ-7K2M-X9PD"]) {
+    assert.equal(normalizeAccessCode(input), null, input);
+  }
+});
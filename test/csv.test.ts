@@ -0,0 +1,36 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { csvCell, csvLine, parseCsv } from "../api/_lib/csv.js";
+
+test("csvCell quotes separators and guards formulas", () => {
+  assert.equal(csvCell(null), "");
+  assert.equal(csvCell("plain"), "plain");
+  assert.equal(csvCell('say "hi", bye'), '"say ""hi"", bye"');
+  assert.equal(csvCell("=HYPERLINK(1)"), "'=HYPERLINK(1)");
+  assert.equal(csvCell("-1,5"), `"'-1,5"`);
+  assert.equal(csvCell(new Date("2025-01-02T03:04:05Z")), "2025-01-02T03:04:05.000Z");
+});
+
+test("parseCsv reads what csvLine writes", () => {
+  const values = ["=1+2", "a,b", 'quote "x"', "multi\nline", "+44 20", "@handle", "plain", ""];
+  const keys = values.map((_, i) => `c${i}`);
+  const [row] = parseCsv(csvLine(keys) + csvLine(values));
+  assert.deepEqual(Object.values(row), values);
+});
+
+test("parseCsv handles BOM, CRLF, blank lines and short rows", () => {
+  const rows = parseCsv("\ufeff email , role\r\na@x.io,Builder\r\n\r\nb@x.io\r\n");
+  assert.deepEqual(rows, [
+    { email: "a@x.io", role: "Builder" },
+    { email: "b@x.io", role: "" },
+  ]);
+});
+
+test("parseCsv only strips the guard in front of a formula character", () => {
+  const [row] = parseCsv("a,b\n'quoted,'=x\n");
+  assert.deepEqual(row, { a: "'quoted", b: "=x" });
+});
+
+test("parseCsv rejects an unterminated quote", () => {
+  assert.throws(() => parseCsv('a\n"open'), /Unterminated/);
+});
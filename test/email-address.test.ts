@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { canonicalEmail, emailPolicy, normalizeEmail } from "../api/_lib/email-address.js";
+
+test("canonicalEmail folds provider aliases onto one inbox", () => {
+  const cases: [string, string][] = [
+    ["J.Doe+promo@GoogleMail.com", "jdoe@gmail.com"],
+    ["j.d.o.e@gmail.com", "jdoe@gmail.com"],
+    ["jane+news@outlook.com", "jane@outlook.com"],
+    ["jane-news@yahoo.com", "jane@yahoo.com"],
+    ["jane+news@pm.me", "jane@pm.me"],
+  ];
+  for (const [input, canonical] of cases) assert.equal(canonicalEmail(input), canonical, input);
+});
+
+test("canonicalEmail leaves unknown domains' local parts alone", () => {
+  assert.equal(canonicalEmail("First.Last+tag@Example.com"), "first.last+tag@example.com");
+  // dashes only separate tags where the provider says so
+  assert.equal(canonicalEmail("jane-news@gmail.com"), "jane-news@gmail.com");
+});
+
+test("canonicalEmail keeps the local part when stripping the tag would empty it", () => {
+  assert.equal(canonicalEmail("+tag@gmail.com"), "+tag@gmail.com");
+});
+
+test("canonicalEmail falls back to lowercase for unparseable input", () => {
+  assert.equal(canonicalEmail("  Not An Email "), "not an email");
+});
+
+test("normalizeEmail lowercases, punycodes IDN domains and rejects bad addresses", () => {
+  assert.deepEqual(normalizeEmail(" Jo@Bücher.de "), { address: "jo@xn--bcher-kva.de", local: "jo", domain: "xn--bcher-kva.de" });
+  for (const bad of ["josé@bücher.de", "no-at-sign", "@example.com", "a..b@example.com", "a@localhost"]) {
+    assert.equal(normalizeEmail(bad), null, bad);
+  }
+});
+
+test("emailPolicy rejects disposable providers and role addresses", () => {
+  const policy = (s: string) => emailPolicy(normalizeEmail(s)!);
+  assert.equal(policy("x@sub.yopmail.com"), "EMAIL_DISPOSABLE");
+  assert.equal(policy("support+ticket@example.com"), "EMAIL_ROLE_ADDRESS");
+  assert.equal(policy("jane@example.com"), null);
+});
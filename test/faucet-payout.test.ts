@@ -0,0 +1,59 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { runFaucetPayout } from "../api/_lib/faucet-payout.js";
+import { encodeSs58, QUANTARA_SS58_PREFIX } from "../api/_lib/ss58.js";
+
+const dialect = new PgDialect();
+const ADDRESS = encodeSs58(new Uint8Array(32).fill(7), QUANTARA_SS58_PREFIX);
+const HASH = "0x" + "ab".repeat(32);
+
+/** Leases `ids` and records the status each claim was moved to */
+function fakeDb(ids: string[]) {
+  const marked = new Map<string, string>();
+  const db = {
+    async execute(query: SQL) {
+      const { sql: text, params } = dialect.sqlToQuery(query);
+      if (text.includes("SET status = 'PROCESSING'")) {
+        return { rows: ids.map((id) => ({ id, ss58_address: ADDRESS, amount_qtr: "1" })) };
+      }
+      // markUnconfirmed only writes a reason and leaves the claim PROCESSING
+      const status = /SET status = '(\w+)'/.exec(text)?.[1] ?? (/SET reason =/.test(text) ? "UNCONFIRMED" : "?");
+      for (const id of ids) if (params.includes(id)) marked.set(id, status);
+      return { rows: [] };
+    },
+  };
+  return { db, marked };
+}
+
+function replyWith(body: string) {
+  return async () => new Response(body, { status: 200, headers: { "Content-Type": "application/json" } });
+}
+
+test("only a JSON-RPC error for the claim's id rejects it; a missing reply leaves it unconfirmed", async (t) => {
+  t.mock.method(console, "error", () => {});
+  const replies = [
+    { jsonrpc: "2.0", id: 1, result: HASH },
+    { jsonrpc: "2.0", id: 2, error: { code: 1010, message: "Invalid Transaction" } },
+    // id 3 never answered
+  ];
+  t.mock.method(globalThis, "fetch", replyWith(JSON.stringify(replies)));
+  const { db, marked } = fakeDb(["11", "12", "13"]);
+  const summary = await runFaucetPayout(db, { rpcUrl: "http://node.test", workerId: "w" });
+
+  assert.deepEqual(Object.fromEntries(marked), { "11": "SENT", "12": "REJECTED", "13": "UNCONFIRMED" });
+  assert.equal(summary.sent, 1);
+  assert.equal(summary.rejected, 1);
+  assert.equal(summary.unconfirmed, 1);
+});
+
+test("an unparseable reply leaves every claim unconfirmed, none rejected", async (t) => {
+  t.mock.method(globalThis, "fetch", replyWith("<html>502 Bad Gateway</html>"));
+  const { db, marked } = fakeDb(["21", "22"]);
+  const summary = await runFaucetPayout(db, { rpcUrl: "http://node.test", workerId: "w" });
+
+  assert.deepEqual(Object.fromEntries(marked), { "21": "UNCONFIRMED", "22": "UNCONFIRMED" });
+  assert.equal(summary.rejected, 0);
+  assert.equal(summary.unconfirmed, 2);
+});
@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { evaluateSignups } from "../api/_lib/fraud.js";
+
+const NOW = Date.parse("2026-10-01T12:00:00Z");
+const HOUR = 3_600_000;
+
+let seq = 0;
+function signup(over: Partial<Parameters<typeof evaluateSignups>[1][number]> = {}) {
+  seq++;
+  return {
+    id: String(seq),
+    ip_hash: `ip-${seq}`,
+    created_at: new Date(NOW - 7 * 24 * HOUR + seq * HOUR),
+    review: null,
+    email: `person${seq}@example.com`,
+    email_verified: true,
+    ...over,
+  };
+}
+
+const reasons = (hits: ReturnType<typeof evaluateSignups>) =>
+  hits.map((h) => `${h.eventId}:${h.reason}`).sort();
+
+test("a clean referrer has no hits", () => {
+  const rows = [signup(), signup(), signup()];
+  assert.deepEqual(evaluateSignups("ref@example.com", rows, NOW), []);
+});
+
+test("SHARED_IP flags every signup once an IP exceeds the limit", () => {
+  const rows = [1, 2, 3, 4].map(() => signup({ ip_hash: "same" }));
+  const hits = evaluateSignups("ref@example.com", rows, NOW).filter((h) => h.reason === "SHARED_IP");
+  assert.equal(hits.length, 4);
+  assert.deepEqual(hits[0].detail, { signupsFromIp: 4 });
+  // three from one IP is still fine
+  assert.deepEqual(evaluateSignups("ref@example.com", rows.slice(0, 3), NOW), []);
+});
+
+test("DISPOSABLE_DOMAIN matches subdomains of throwaway providers", () => {
+  const rows = [signup({ email: "x@eu.mailinator.com" })];
+  assert.deepEqual(reasons(evaluateSignups("ref@example.com", rows, NOW)), [`${rows[0].id}:DISPOSABLE_DOMAIN`]);
+});
+
+test("ALIAS_INBOX catches aliases of the referrer and of earlier referees", () => {
+  const a = signup({ email: "j.doe+1@gmail.com" });
+  const b = signup({ email: "jdoe@googlemail.com" });
+  const c = signup({ email: "Boss+alt@Fastmail.com" });
+  const hits = evaluateSignups("boss@fastmail.com", [a, b, c], NOW);
+  assert.deepEqual(reasons(hits), [`${b.id}:ALIAS_INBOX`, `${c.id}:ALIAS_INBOX`]);
+  assert.deepEqual(hits.find((h) => h.eventId === b.id)?.detail, { sameInboxAs: a.id });
+  assert.deepEqual(hits.find((h) => h.eventId === c.id)?.detail, { sameInboxAs: "referrer" });
+});
+
+test("BURST flags signups packed into the window, not ones around it", () => {
+  const start = NOW - 3 * HOUR;
+  const early = signup({ created_at: new Date(start - HOUR) });
+  const burst = [0, 1, 2, 3, 4].map((m) => signup({ created_at: new Date(start + m * 60_000) }));
+  const hits = evaluateSignups("ref@example.com", [early, ...burst], NOW);
+  assert.deepEqual(reasons(hits), burst.map((s) => `${s.id}:BURST`).sort());
+});
+
+test("LOW_VERIFY_RATIO only counts signups past the grace period", () => {
+  // oldest first, as assessReferrer loads them
+  const old = Array.from({ length: 10 }, (_, i) =>
+    signup({ created_at: new Date(NOW - 96 * HOUR + i * 2 * HOUR), email_verified: i === 0 })
+  );
+  const hits = evaluateSignups("ref@example.com", old, NOW);
+  assert.equal(hits.length, 9);
+  assert.ok(hits.every((h) => h.reason === "LOW_VERIFY_RATIO"));
+  assert.deepEqual(hits[0].detail, { verified: 1, signups: 10 });
+
+  // the same signups inside the 48h grace window aren't judged yet
+  const fresh = old.map((s, i) => ({ ...s, created_at: new Date(NOW - 40 * HOUR + i * 2 * HOUR) }));
+  assert.ok(evaluateSignups("ref@example.com", fresh, NOW).every((h) => h.reason !== "LOW_VERIFY_RATIO"));
+});
@@ -0,0 +1,139 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { z } from "zod";
+import { defineHandler, HttpError, redirect, reply } from "../api/_lib/handler.js";
+
+type Sent = { status: number; headers: Record<string, string>; body: unknown };
+
+/** Just enough of VercelRequest / VercelResponse for defineHandler */
+async function call(
+  handler: ReturnType<typeof defineHandler>,
+  req: { method?: string; query?: Record<string, string | string[]>; body?: unknown; headers?: Record<string, string> }
+): Promise<Sent> {
+  const sent: Sent = { status: 200, headers: {}, body: undefined };
+  const res = {
+    setHeader(name: string, value: string | string[]) {
+      sent.headers[name.toLowerCase()] = String(value);
+      return res;
+    },
+    status(code: number) {
+      sent.status = code;
+      return res;
+    },
+    json(body: unknown) {
+      sent.body = body;
+      return res;
+    },
+    send(body: unknown) {
+      sent.body = body;
+      return res;
+    },
+    end() {
+      return res;
+    },
+  };
+  await handler(
+    { method: "GET", query: {}, headers: {}, ...req } as unknown as VercelRequest,
+    res as unknown as VercelResponse
+  );
+  return sent;
+}
+
+const echo = defineHandler({
+  name: "echo",
+  methods: ["GET", "POST"],
+  query: z.object({ n: z.coerce.number().int().optional() }),
+  body: z.object({ name: z.string().min(1) }).partial(),
+  handle: ({ query, body, ip, method }) => ({ n: query.n ?? null, name: body.name ?? null, ip: ip ?? null, method }),
+});
+
+test("wraps the returned value in the success envelope", async () => {
+  const sent = await call(echo, {
+    method: "POST",
+    query: { n: [" 7 ", "8"] },
+    body: JSON.stringify({ name: "ada" }),
+    headers: { "x-forwarded-for": "203.0.113.9, 10.0.0.1" },
+  });
+  assert.equal(sent.status, 200);
+  assert.deepEqual(sent.body, { ok: true, data: { n: 7, name: "ada", ip: "203.0.113.9", method: "POST" } });
+  assert.equal(sent.headers["cache-control"], "no-store");
+  assert.match(sent.headers["x-request-id"], /^[0-9a-f-]{36}$/);
+});
+
+test("keeps a sane caller request id and replaces a bad one", async () => {
+  assert.equal((await call(echo, { headers: { "x-request-id": "req-12345678" } })).headers["x-request-id"], "req-12345678");
+  assert.notEqual((await call(echo, { headers: { "x-request-id": "bad id!" } })).headers["x-request-id"], "bad id!");
+});
+
+test("answers preflight and HEAD without running handle", async () => {
+  let ran = false;
+  const h = defineHandler({ name: "t", methods: ["GET"], cacheControl: "public, max-age=60", handle: () => (ran = true) });
+  assert.equal((await call(h, { method: "OPTIONS" })).status, 204);
+  const head = await call(h, { method: "HEAD" });
+  assert.equal(head.status, 204);
+  assert.equal(head.headers["cache-control"], "public, max-age=60");
+  assert.equal(ran, false);
+});
+
+test("rejects other methods with 405 and an Allow header", async () => {
+  const sent = await call(echo, { method: "DELETE" });
+  assert.equal(sent.status, 405);
+  assert.equal(sent.headers.allow, "GET, POST, HEAD");
+  assert.equal((sent.body as { code: string }).code, "METHOD_NOT_ALLOWED");
+});
+
+test("turns schema failures into 400 BAD_REQUEST with details", async () => {
+  const sent = await call(echo, { query: { n: "x" } });
+  assert.equal(sent.status, 400);
+  const body = sent.body as { ok: boolean; code: string; message: string; requestId: string; details: unknown };
+  assert.equal(body.ok, false);
+  assert.equal(body.code, "BAD_REQUEST");
+  assert.equal(body.message, "Invalid query");
+  assert.equal(body.requestId, sent.headers["x-request-id"]);
+  assert.ok(body.details);
+});
+
+test("maps HttpError to its status and unknown errors to 500", async (t) => {
+  const thrower = (err: unknown) =>
+    defineHandler({
+      name: "t",
+      methods: ["GET"],
+      cacheControl: "public, max-age=60",
+      handle: () => {
+        throw err;
+      },
+    });
+  const known = await call(thrower(new HttpError(409, "EMAIL_TAKEN", "Taken", { field: "email" })), {});
+  assert.equal(known.status, 409);
+  assert.equal(known.headers["cache-control"], "no-store");
+  assert.deepEqual(known.body, {
+    ok: false,
+    code: "EMAIL_TAKEN",
+    message: "Taken",
+    requestId: known.headers["x-request-id"],
+    details: { field: "email" },
+  });
+
+  t.mock.method(console, "error", () => {});
+  const unknown = await call(thrower(new Error("db down")), {});
+  assert.equal(unknown.status, 500);
+  assert.equal((unknown.body as { code: string; message: string }).message, "Internal error");
+});
+
+test("reply() sets status and headers; redirect() sends a bare 302", async () => {
+  const created = defineHandler({
+    name: "t",
+    methods: ["POST"],
+    handle: () => reply({ id: "1" }, { status: 201, headers: { "Cache-Control": "private, max-age=5" } }),
+  });
+  const sent = await call(created, { method: "POST" });
+  assert.equal(sent.status, 201);
+  assert.equal(sent.headers["cache-control"], "private, max-age=5");
+  assert.deepEqual(sent.body, { ok: true, data: { id: "1" } });
+
+  const moved = await call(defineHandler({ name: "t", methods: ["GET"], handle: () => redirect("https://example.com/x") }), {});
+  assert.equal(moved.status, 302);
+  assert.equal(moved.headers.location, "https://example.com/x");
+  assert.equal(moved.body, "");
+});
@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { decodeCursor, encodeCursor } from "../api/_lib/leaderboard.js";
+
+const row = { points: 42, verified: 3, signups: 7, created_us: "1760000000123456", id: "981" };
+
+test("encodeCursor/decodeCursor round-trip the keyset position", () => {
+  assert.deepEqual(decodeCursor(encodeCursor(row)), [42, 3, 7, "1760000000123456", "981"]);
+});
+
+test("decodeCursor accepts negative created_us (pre-epoch rows)", () => {
+  assert.deepEqual(decodeCursor(encodeCursor({ ...row, created_us: "-5" })), [42, 3, 7, "-5", "981"]);
+});
+
+test("decodeCursor rejects malformed cursors", () => {
+  const enc = (v: unknown) => Buffer.from(JSON.stringify(v)).toString("base64url");
+  for (const bad of [
+    "",
+    "not-base64!",
+    enc({ points: 1 }),
+    enc([1, 2, 3, "4"]),
+    enc([1.5, 2, 3, "4", "5"]),
+    enc([1, 2, 3, "4x", "5"]),
+    enc([1, 2, 3, "4", "-5"]),
+    enc([1, 2, 3, "4", "12345678901234567890"]),
+  ]) {
+    assert.equal(decodeCursor(bad), null, `accepted ${JSON.stringify(bad)}`);
+  }
+});
@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { safeNextPath } from "../api/_lib/session.js";
+
+const BASE = "https://waitlist.example";
+
+test("safeNextPath keeps same-origin paths", () => {
+  for (const next of ["/success.html", "/dashboard?tab=referrals", "/a/b#c"]) {
+    assert.equal(safeNextPath(next), next);
+    assert.equal(new URL(next, BASE).origin, BASE);
+  }
+});
+
+test("safeNextPath rejects absolute, protocol-relative and look-alike URLs", () => {
+  for (const next of [
+    "https://evil.example/x",
+    "javascript:alert(1)",
+    "//evil.example",
+    "/\\evil.example",
+    "\\\\evil.example",
+    "/\t/evil.example",
+    "/\n/evil.example",
+    "success.html",
+    "",
+    "/" + "a".repeat(512),
+    undefined,
+    ["/success.html"],
+  ]) {
+    assert.equal(safeNextPath(next), null, JSON.stringify(next));
+  }
+});
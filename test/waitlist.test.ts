@@ -0,0 +1,89 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import type { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+
+const dialect = new PgDialect();
+const ROW = { id: "7", email: "ada@example.com", referral_code: "ADAQ1X2", email_verified: true, blocked: false };
+
+/**
+ * The INSERT loses to a concurrent signup (fails with `insertError`); the
+ * account lookup finds nothing before the insert and the winner's row after.
+ */
+function racingDb(insertError: Error) {
+  const queries: string[] = [];
+  let inserted = false;
+  const db = {
+    async execute(query: SQL) {
+      const { sql: text } = dialect.sqlToQuery(query);
+      queries.push(text);
+      if (text.includes("INSERT INTO user_account")) {
+        inserted = true;
+        throw insertError;
+      }
+      if (text.includes("FROM user_account") && text.includes("ORDER BY (email_canonical")) {
+        return { rows: inserted ? [ROW] : [] };
+      }
+      if (text.includes("UPDATE user_account")) return { rows: [{ ...ROW, locale: "en" }] };
+      if (text.includes("queue_position")) return { rows: [{ position: 3, total: 10 }] };
+      return { rows: [] };
+    },
+  };
+  return { db, queries };
+}
+
+// getDb() keeps the first client it sees, so every test goes through this one
+let current: { execute(query: SQL): Promise<unknown> };
+globalThis.__Q_DB__ = { execute: (query: SQL) => current.execute(query) } as unknown as typeof globalThis.__Q_DB__;
+process.env.DATABASE_URL ??= "postgres://test@localhost/test";
+
+/** POST to the waitlist handler with `db` behind getDb() */
+async function post(db: typeof current, body: Record<string, unknown>) {
+  current = db;
+  const { default: waitlist } = await import("../api/waitlist.js");
+
+  const sent = { status: 200, body: undefined as unknown };
+  const res = {
+    setHeader: () => res,
+    status(code: number) {
+      sent.status = code;
+      return res;
+    },
+    json(b: unknown) {
+      sent.body = b;
+      return res;
+    },
+    end: () => res,
+  };
+  const req = { method: "POST", query: {}, headers: {}, body: { "cf-turnstile-response": "TEST_BYPASS", ...body } };
+  await waitlist(req as unknown as VercelRequest, res as unknown as VercelResponse);
+  return sent;
+}
+
+test("a signup that loses the insert race to the same inbox is answered as a re-submit", async (t) => {
+  t.mock.method(console, "warn", () => {});
+  for (const index of ["user_account_email_canonical_uq", "user_account_email_lower_uq"]) {
+    const { db, queries } = racingDb(new Error(`duplicate key value violates unique constraint "${index}"`));
+    const sent = await post(db, { email: "Ada@Example.com", role: "Builder", referral: "OTHER1" });
+
+    assert.equal(sent.status, 200, index);
+    assert.deepEqual(sent.body, {
+      ok: true,
+      data: { id: "7", code: "ADAQ1X2", emailQueued: false, queue: { position: 3, total: 10 } },
+    });
+    // the winner's row was re-read and reused: one insert, no referral credited
+    assert.equal(queries.filter((q) => q.includes("INSERT INTO user_account")).length, 1);
+    assert.ok(!queries.some((q) => q.includes("INSERT INTO referral_event")));
+  }
+});
+
+test("other insert failures are not mistaken for a concurrent signup", async (t) => {
+  t.mock.method(console, "warn", () => {});
+  t.mock.method(console, "error", () => {});
+  const { db } = racingDb(new Error('duplicate key value violates unique constraint "user_account_pkey"'));
+  const sent = await post(db, { email: "ada@example.com", role: "Builder" });
+
+  assert.equal(sent.status, 500);
+  assert.equal((sent.body as { code: string }).code, "INTERNAL");
+});
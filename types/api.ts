@@ -16,26 +16,25 @@ export type WsUrl = Brand<string, "ws-url">;            // e.g. wss://rpc.devnet
 export type HttpUrl = Brand<string, "http-url">;
 
 /* ------------------------------------------------------------------ *
- * API envelopes (match current handlers)
+ * API envelopes (api/_lib/handler.ts)
  * ------------------------------------------------------------------ */
 
 export interface ApiSuccess<T> {
   ok: true;
   data: T;
-  /** some handlers (e.g., /api/waitlist) also return meta */
   meta?: JSONObject;
 }
 
 export interface ApiError {
   ok: false;
-  /** some handlers send `code`, others `error`, sometimes both */
-  code?: string;
-  error?: string;
-  /** optional safe message for users */
-  message?: string;
-  /** optional HTTP status mirrored by client (not always present server-side) */
-  status?: number;
+  /** stable and machine-readable, e.g. BAD_REQUEST, TOKEN_EXPIRED */
+  code: string;
+  /** safe to show to users */
+  message: string;
+  /** e.g. zod's flattened errors for BAD_REQUEST */
   details?: JSONObject;
+  /** same as the X-Request-Id header; quote it when reporting a problem */
+  requestId?: string;
 }
 
 export type ApiResponse<T> = ApiSuccess<T> | ApiError;
@@ -94,29 +93,86 @@ export type GetMetricsResponse = ApiResponse<Metrics>;
  * ------------------------------------------------------------------ */
 
 export interface LeaderboardRow {
+  rank: number;              // 1-based position in the window (points, verified, signups, created_at)
   referral_code: string;     // user's referral code
   name: string;              // masked email (e.g., "abc***")
   signups: number;           // SIGNUP events in window
   verified: number;          // VERIFIED events in window
-  points: number;            // weighted points
+  clicks: number;            // deduped link CLICK events in window
+  conversion: number | null; // signups / clicks (null when no clicks)
+  points: number;            // weighted points of the eligible kinds
 }
 
+export type ReferralKind = "CLICK" | "SIGNUP" | "VERIFIED";
+
+/** Set server-side (LEADERBOARD_WEIGHTS, or per season); not caller-controlled */
 export interface LeaderboardWeights {
   signup: number;
   verified: number;
+  click: number;
 }
 
 /** current handler returns a simple string 'week' | 'month' | 'all' */
 export type LeaderboardWindow = "week" | "month" | "all";
 
+/** upcoming → live → ended (awaiting close) → closed (standings frozen) */
+export type LeaderboardSeasonStatus = "upcoming" | "live" | "ended" | "closed";
+
+export interface LeaderboardSeasonInfo {
+  slug: string;
+  name: string;
+  startsAt: ISODateString;
+  endsAt: ISODateString;
+  status: LeaderboardSeasonStatus;
+  closedAt: ISODateString | null;
+  eligibleKinds: ReferralKind[];
+}
+
 export interface LeaderboardResponseBody {
-  window: LeaderboardWindow;
+  window: LeaderboardWindow | "season";
   weights: LeaderboardWeights;
+  eligibleKinds: ReferralKind[]; // kinds that score points
+  season?: LeaderboardSeasonInfo; // only with ?season=
+  total: number;             // ranked users in the window
   data: LeaderboardRow[];
+  nextCursor: string | null; // pass as ?cursor= for the next page
+  me?: LeaderboardRow;       // only with ?code=
 }
 
 export type GetLeaderboardResponse = ApiResponse<LeaderboardResponseBody>;
 
+/* ------------------------------------------------------------------ *
+ * /api/referral-dashboard → the signed-in user's own referral stats
+ * Authorization: Bearer <dashboard token> (from the verify-email redirect)
+ * ------------------------------------------------------------------ */
+
+export interface DashboardWindowStats {
+  signups: number;
+  verified: number;
+  clicks: number;
+  conversion: number | null;
+  points: number;
+  rank: number | null;       // same ordering as /api/leaderboard; null without a code
+  total: number;             // ranked users in the window
+}
+
+export interface DashboardReferee {
+  name: string;              // masked email
+  joinedAt: ISODateString;
+  verified: boolean;
+}
+
+export interface ReferralDashboard {
+  code: string | null;
+  shareUrl: string | null;
+  weights: LeaderboardWeights;
+  windows: Record<LeaderboardWindow, DashboardWindowStats>;
+  queue: QueueStanding;
+  recentReferees: DashboardReferee[];
+}
+
+export type GetReferralDashboardResponse = ApiResponse<ReferralDashboard>;
+
 /* ------------------------------------------------------------------ *
  * /api/waitlist  → New signup (matches current handler)
  * ------------------------------------------------------------------ */
@@ -139,6 +195,7 @@ export interface WaitlistRequest {
   discord?: string;
   github?: string;
   country?: string;
+  locale?: string;           // email language, e.g. "es" (defaults from Accept-Language)
   referral?: string;         // user-typed code
   referral_auto?: string;    // captured from URL (?ref=)
   utm_source?: string;
@@ -152,22 +209,30 @@ export interface WaitlistRequest {
   cf_turnstile_response?: string;
   turnstileToken?: string;
 
-  /** optional, if your UI includes consent */
+  /** marketing email consent; recorded, then confirmed by a double opt-in email */
   consent_marketing?: "yes";
 }
 
+/**
+ * Email rejections from /api/waitlist (400, with a user-facing message):
+ * malformed (incl. non-ASCII local part), throwaway provider, or role mailbox
+ */
+export type EmailRejectionCode = "EMAIL_INVALID" | "EMAIL_DISPOSABLE" | "EMAIL_ROLE_ADDRESS";
+
+/** Place in the waitlist: signup order boosted by verification and referral points */
+export interface QueueStanding {
+  position: number | null;   // 1-based; provisional (end of the line) until the next recompute; null for unknown ids
+  total: number;             // people in line
+}
+
 export interface WaitlistResult {
   id: string;                // server-generated id
   code: string;              // assigned referral code for sharable links
-  emailQueued: boolean;      // whether verification email queued
+  emailQueued: boolean;      // true when a verify email was written to the outbox
+  queue: QueueStanding;      // new signups start at the end until the next recompute
 }
 
-/** /api/waitlist also returns { meta: { verifyToken } } */
-export interface WaitlistMeta {
-  verifyToken?: string;
-}
-
-export type PostWaitlistResponse = ApiSuccess<WaitlistResult> | ApiError & { meta?: WaitlistMeta };
+export type PostWaitlistResponse = ApiResponse<WaitlistResult>;
 
 /* ------------------------------------------------------------------ *
  * /api/verify-email → clicked from email (JSON mode)
@@ -177,27 +242,223 @@ export interface VerifyEmailJsonResult {
   verified: boolean;
   awarded: boolean;          // whether a VERIFIED referral was awarded
   redirect: string;          // URL we would 302 to in non-JSON mode
+  dashboardToken: string;    // bearer for /api/referral-dashboard (also in the redirect #fragment)
 }
 
+/** ApiError.code values; browser clicks get them as /success.html?error=<code> */
+export type VerifyEmailErrorCode = "TOKEN_INVALID" | "TOKEN_EXPIRED" | "TOKEN_USED" | "TOKEN_REVOKED";
+
 export type PostVerifyEmailResponse = ApiResponse<VerifyEmailJsonResult>;
 
 /* ------------------------------------------------------------------ *
- * /api/verify-turnstile → server-side token check (matches current handler)
- * NOTE: This endpoint currently returns a *raw* shape, not wrapped in ApiResponse.
+ * /api/referral-click → CLICK beacon (GET /r/<code> redirects instead)
+ * ------------------------------------------------------------------ */
+
+export interface ReferralClickResult {
+  recorded: boolean;         // false if this visitor already clicked today
+}
+
+export type PostReferralClickResponse = ApiResponse<ReferralClickResult>;
+
+/* ------------------------------------------------------------------ *
+ * /api/resend-verification → new verify link for an unverified signup
+ * Same response whether or not the address exists.
+ * ------------------------------------------------------------------ */
+
+export interface ResendVerificationRequest {
+  email: string;
+  turnstileToken: string;
+}
+
+export interface ResendVerificationResult {
+  accepted: true;
+}
+
+export type PostResendVerificationResponse = ApiResponse<ResendVerificationResult>;
+
+/* ------------------------------------------------------------------ *
+ * /api/auth/* → passwordless login (HttpOnly session cookie)
+ *   POST /api/auth/login     email a sign-in link (same answer for any address)
+ *   GET  /api/auth/callback  link target: sets the cookie, redirects
+ *   POST /api/auth/callback?mode=json  { token } → sets the cookie, JSON
+ *   GET  /api/auth/me        cookie or dashboard bearer token
+ *   POST /api/auth/logout    revokes the session, clears the cookie
+ * ------------------------------------------------------------------ */
+
+export interface LoginRequest {
+  email: string;
+  turnstileToken: string;
+  next?: string;             // same-origin path to land on after sign-in
+}
+
+export type PostLoginResponse = ApiResponse<{ accepted: true }>;
+
+export interface AuthCallbackResult {
+  userId: string;
+  expiresAt: ISODateString;  // session expiry
+  redirect: string;
+}
+
+export type PostAuthCallbackResponse = ApiResponse<AuthCallbackResult>;
+
+export interface MeProfile {
+  id: string;
+  email: string;
+  role: string | null;
+  locale: string;
+  referralCode: string | null;
+  emailVerified: boolean;
+  queue: QueueStanding;
+  admission: { cohort: string; admittedAt: ISODateString } | null;
+  auth: "dashboard-token" | "session";
+}
+
+export type GetMeResponse = ApiResponse<MeProfile>;
+export type PostLogoutResponse = ApiResponse<{ loggedOut: true }>;
+
+/* ------------------------------------------------------------------ *
+ * /api/profile → self-service profile (session cookie or dashboard token)
+ *   GET   profile + recent changes
+ *   PATCH any subset of ProfileField (null clears an optional field)
+ *   POST  /api/profile/email          { email } → link sent to the new address
+ *   GET   /api/profile/confirm-email  ?token= (link target; switches the address)
+ * ------------------------------------------------------------------ */
+
+export type ProfileField = "role" | "experience" | "discord" | "github" | "country" | "locale";
+
+export interface MemberProfile {
+  email: string;
+  emailVerified: boolean;
+  role: string | null;
+  experience: Experience | null;
+  discord: string | null;
+  github: string | null;
+  country: string | null;
+  locale: string;
+}
+
+export interface ProfileChangeEntry {
+  field: ProfileField | "email";
+  oldValue: string | null;
+  newValue: string | null;
+  source: "profile" | "waitlist" | "email-change";
+  changedAt: ISODateString;
+}
+
+export type ProfilePatchRequest = Partial<{
+  role: Role;
+  experience: Experience | null;
+  discord: string | null;
+  github: string | null;
+  country: string | null;
+  locale: string;
+}>;
+
+export type GetProfileResponse = ApiResponse<{
+  profile: MemberProfile;
+  history: ProfileChangeEntry[];
+  marketing: MarketingConsent;
+}>;
+export type PatchProfileResponse = ApiResponse<{ profile: MemberProfile; changes: ProfileChangeEntry[] }>;
+
+export interface EmailChangeRequest {
+  email: string;
+}
+
+export type PostEmailChangeResponse = ApiResponse<{ accepted: true }>;
+export type PostConfirmEmailChangeResponse = ApiResponse<{ email: string }>;
+
+/* ------------------------------------------------------------------ *
+ * /api/consent/* → marketing email consent (no sign-in; the links are the proof)
+ *   GET|POST /api/consent/confirm      ?token= double opt-in link
+ *   POST     /api/consent/unsubscribe  ?token= RFC 8058 one-click
+ *                                      (GET shows a confirm button first)
+ * ------------------------------------------------------------------ */
+
+export interface MarketingConsent {
+  subscribed: boolean;              // confirmed and not unsubscribed
+  consentedAt: ISODateString | null;
+  source: "waitlist" | "import" | null;
+  confirmedAt: ISODateString | null;
+  unsubscribedAt: ISODateString | null;
+}
+
+export type PostConsentConfirmResponse = ApiResponse<{ subscribed: true }>;
+export type PostUnsubscribeResponse = ApiResponse<{ unsubscribed: true }>;
+
+/* ------------------------------------------------------------------ *
+ * /api/account/* → data rights (session cookie or dashboard token)
+ *   GET  /api/account/export   everything held about you, as a JSON download
+ *   POST /api/account/delete   { confirmEmail } erases the account
+ * ------------------------------------------------------------------ */
+
+export interface AccountExport {
+  exportedAt: ISODateString;
+  account: {
+    id: string;
+    email: string;
+    emailVerified: boolean;
+    role: string | null;
+    experience: string | null;
+    discord: string | null;
+    github: string | null;
+    country: string | null;
+    locale: string;
+    referralCode: string | null;
+    referredBy: string | null;   // referrer's code
+    queuePosition: number | null;
+    admittedAt: ISODateString | null;
+    cohort: string | null;
+    utm: Record<string, string>;
+    createdAt: ISODateString;
+  };
+  /** events where you were the referrer (referees are other people: no identities) */
+  referralsMade: { kind: ReferralKind; createdAt: ISODateString; review: ReferralReview | null; refereeDeleted: boolean }[];
+  /** events where you were the referee */
+  referredBy: { kind: ReferralKind; createdAt: ISODateString; referrerCode: string | null }[];
+  /** claims made while signed in (anonymous claims aren't tied to an account) */
+  faucetClaims: {
+    address: string;
+    amount: string;
+    status: FaucetClaimStatus;
+    reason: string | null;
+    txHash: string | null;
+    createdAt: ISODateString;
+    processedAt: ISODateString | null;
+  }[];
+  profileChanges: ProfileChangeEntry[];
+  marketing: MarketingConsent;
+  emails: { kind: string; to: string; status: string; createdAt: ISODateString; sentAt: ISODateString | null }[];
+}
+
+export type GetAccountExportResponse = ApiResponse<AccountExport>;
+
+export interface DeleteAccountRequest {
+  confirmEmail: string;          // must match the account's address
+}
+
+export type PostDeleteAccountResponse = ApiResponse<{ deleted: true }>;
+
+/* ------------------------------------------------------------------ *
+ * /api/verify-turnstile → server-side token check
+ * A failed check is ApiError TURNSTILE_FAILED (403).
  * ------------------------------------------------------------------ */
 
-export interface VerifyTurnstileRawResult {
-  success: boolean;
+export interface VerifyTurnstileResult {
+  success: true;
   score?: number;
 }
 
-export type PostVerifyTurnstileResponse = VerifyTurnstileRawResult; // raw passthrough
+export type PostVerifyTurnstileResponse = ApiResponse<VerifyTurnstileResult>;
 
 /* ------------------------------------------------------------------ *
- * /api/faucet-claim → if/when exposed
- * (kept generic; adjust when you implement the handler)
+ * /api/faucet-claim → queue a testnet payout (matches current handler)
+ * Rejections (invalid address, rate limit, pending claim) come back as
+ * ApiError with a stable `code`.
  * ------------------------------------------------------------------ */
 
+export type FaucetClaimStatus = "PENDING" | "PROCESSING" | "SENT" | "REJECTED";
+
 export interface FaucetClaimRequest {
   address: string;           // SS58=73 address
   proof: string;             // Turnstile token or signed proof
@@ -205,6 +466,9 @@ export interface FaucetClaimRequest {
 
 export interface FaucetClaimResult {
   accepted: boolean;
+  claimId?: string;          // faucet_claim.id (bigint as string)
+  status?: FaucetClaimStatus;
+  amount?: string;           // QTR with 12 decimals, e.g. "100.000000000000"
   txHash?: string;
   reason?: string;           // if rejected (rate limit, invalid address, etc.)
 }
@@ -212,17 +476,338 @@ export interface FaucetClaimResult {
 export type PostFaucetClaimResponse = ApiResponse<FaucetClaimResult>;
 
 /* ------------------------------------------------------------------ *
- * /api/health → simple DB ping (matches current handler)
+ * /api/faucet-status → claim status by ?id= or ?address=&limit=
+ * ------------------------------------------------------------------ */
+
+export interface FaucetClaimView {
+  id: string;
+  address: string;
+  amount: string;            // QTR with 12 decimals
+  status: FaucetClaimStatus;
+  txHash: string | null;
+  reason: string | null;     // only set for REJECTED
+  explorerUrl: string | null; // built from NetworkConfig.explorer.tx
+  createdAt: ISODateString;
+  processedAt: ISODateString | null;
+}
+
+export interface FaucetStatusResult {
+  claims: FaucetClaimView[]; // newest first
+}
+
+export type GetFaucetStatusResponse = ApiResponse<FaucetStatusResult>;
+
+/* ------------------------------------------------------------------ *
+ * /api/health → simple DB ping (503 DB_DOWN when it fails)
  * ------------------------------------------------------------------ */
 
 export interface HealthPayload {
-  ok: boolean;               // true if DB ping worked
-  db: "up" | "down";
+  db: "up";
   time?: string | null;      // server timestamp from DB
   env: string;               // NODE_ENV echo
 }
 
-export type GetHealthResponse = HealthPayload; // this handler is not envelope-wrapped
+export type GetHealthResponse = ApiResponse<HealthPayload>;
+
+/* ------------------------------------------------------------------ *
+ * /api/admin/referral-flags → fraud review queue (viewer reads, operator reviews)
+ *   GET  ?status=FLAGGED|CONFIRMED|CLEARED&limit=&before=<id>
+ *   POST { eventIds, decision: "clear" | "confirm", note? }
+ * ------------------------------------------------------------------ */
+
+export type ReferralFlagReason =
+  | "SHARED_IP"
+  | "DISPOSABLE_DOMAIN"
+  | "ALIAS_INBOX"
+  | "BURST"
+  | "LOW_VERIFY_RATIO";
+
+/** FLAGGED/CONFIRMED events don't score; CLEARED ones do and aren't re-flagged */
+export type ReferralReview = "FLAGGED" | "CLEARED" | "CONFIRMED";
+
+export interface ReferralFlagHit {
+  reason: ReferralFlagReason;
+  detail: Record<string, unknown>;
+  flaggedAt: ISODateString;
+}
+
+export interface AdminFlaggedReferral {
+  eventId: string;           // the SIGNUP referral_event
+  review: ReferralReview;
+  referrerCode: string | null;
+  referrerEmail: string;
+  refereeEmail: string;
+  refereeVerified: boolean;
+  createdAt: ISODateString;
+  reviewedAt: ISODateString | null;
+  reviewNote: string | null;
+  flags: ReferralFlagHit[];
+}
+
+export interface AdminReferralFlagsPage {
+  items: AdminFlaggedReferral[];
+  nextBefore: string | null; // pass as ?before= for older items
+}
+
+export type GetAdminReferralFlagsResponse = ApiResponse<AdminReferralFlagsPage>;
+
+export interface AdminReviewRequest {
+  eventIds: string[];
+  decision: "clear" | "confirm";
+  note?: string;
+}
+
+export type PostAdminReferralFlagsResponse = ApiResponse<{ updated: string[] }>;
+
+/* ------------------------------------------------------------------ *
+ * /api/admin/cohorts → Devnet-0 admissions (viewer lists, operator the rest)
+ *   GET  list cohorts
+ *   POST { action: "create", slug, name, size, roles?, queueCutoff?, verifiedOnly? }
+ *   POST { action: "preview" | "admit", slug }
+ *   POST { action: "revoke-code" | "reissue-code", slug, userId }
+ * ------------------------------------------------------------------ */
+
+export interface CohortInfo {
+  slug: string;
+  name: string;
+  size: number;
+  roles: Role[] | null;      // null = any role
+  queueCutoff: number | null; // only queue positions 1..cutoff; null = anyone
+  verifiedOnly: boolean;
+  createdAt: ISODateString;
+  admittedAt: ISODateString | null; // last admission run
+  admitted: number;
+  redeemed: number;          // access codes used
+}
+
+export interface CohortCandidate {
+  userId: string;
+  email: string;
+  role: string | null;
+  queuePosition: number | null;
+}
+
+export interface AdmitSummary {
+  admitted: number;          // newly admitted by this run
+  codes: number;             // access codes issued
+  invites: number;           // invitation emails queued
+}
+
+export type AdminCohortRequest =
+  | {
+      action: "create";
+      slug: string;
+      name: string;
+      size: number;
+      roles?: Role[];
+      queueCutoff?: number;
+      verifiedOnly?: boolean;
+    }
+  | { action: "preview" | "admit"; slug: string }
+  | { action: "revoke-code" | "reissue-code"; slug: string; userId: string };
+
+export interface AccessCodeChange {
+  userId: string;
+  revoked: number;           // live codes revoked (0 or 1)
+  reissued: boolean;         // a fresh code was issued
+  invited: boolean;          // its invite email was queued
+}
+
+export type GetAdminCohortsResponse = ApiResponse<{ cohorts: CohortInfo[] }>;
+export type PostAdminCohortsResponse = ApiResponse<
+  | { cohort: CohortInfo }
+  | { cohort: CohortInfo; candidates: CohortCandidate[] }
+  | { cohort: CohortInfo; admit: AdmitSummary }
+  | { cohort: CohortInfo; accessCode: AccessCodeChange }
+>;
+
+/* ------------------------------------------------------------------ *
+ * /api/admin/users → member support (viewer reads, operator acts)
+ *   GET  ?q=&by=email|code|github|discord&limit=   search
+ *   GET  ?id=                                       detail
+ *   POST { action: "verify" | "block" | "unblock" | "reassign-code", userId, ... }
+ * /api/admin/audit → what the team did (viewer)
+ * /api/admin/team  → admin API keys and account roles (owner)
+ * ------------------------------------------------------------------ */
+
+/** Ordered: each role can do everything the previous one can */
+export type AdminRole = "viewer" | "operator" | "owner";
+
+export type AdminUserSearchField = "email" | "code" | "github" | "discord";
+
+export interface AdminUserSummary {
+  id: string;
+  email: string;
+  referralCode: string | null;
+  role: string | null;
+  github: string | null;
+  discord: string | null;
+  emailVerified: boolean;
+  queuePosition: number | null;
+  admittedAt: ISODateString | null;
+  blockedAt: ISODateString | null;
+  adminRole: AdminRole | null;
+  createdAt: ISODateString;
+}
+
+export interface AdminUserDetail extends AdminUserSummary {
+  experience: string | null;
+  country: string | null;
+  locale: string;
+  blockedReason: string | null;
+  cohort: string | null;     // cohort slug
+  referredBy: { id: string; referralCode: string | null } | null;
+  referrals: { clicks: number; signups: number; verified: number };
+  referralsMade: {
+    eventId: string;
+    kind: ReferralKind;
+    refereeId: string | null;  // null once the referee erased their account
+    refereeEmail: string | null;
+    review: ReferralReview | null;
+    createdAt: ISODateString;
+  }[];
+  faucetClaims: {
+    id: string;
+    address: string;
+    amount: string;
+    status: FaucetClaimStatus;
+    reason: string | null;
+    txHash: string | null;
+    createdAt: ISODateString;
+  }[];
+  audit: AdminAuditEntry[];  // latest actions on this user
+}
+
+export type AdminUserAction =
+  | { action: "verify"; userId: string }
+  | { action: "block"; userId: string; reason: string }
+  | { action: "unblock"; userId: string }
+  | { action: "reassign-code"; userId: string; code?: string }; // omitted → generated
+
+export interface AdminAuditEntry {
+  id: string;
+  actor: string;             // "key:3 ops-bot" | "user:12 a@b.co" | "token" | "script"
+  actorRole: AdminRole;
+  action: string;            // "user.block", "cohort.admit", ...
+  targetUserId: string | null;
+  detail: Record<string, unknown>;
+  createdAt: ISODateString;
+}
+
+export interface AdminApiKeyInfo {
+  id: string;
+  name: string;
+  role: AdminRole;
+  createdBy: string | null;
+  createdAt: ISODateString;
+  lastUsedAt: ISODateString | null;
+  revokedAt: ISODateString | null;
+}
+
+export interface AdminTeamMember {
+  userId: string;
+  email: string;
+  role: AdminRole;
+}
+
+export type AdminTeamRequest =
+  | { action: "create-key"; name: string; role: AdminRole }
+  | { action: "revoke-key"; id: string }
+  | { action: "set-role"; email: string; role: AdminRole | null };
+
+export type GetAdminUsersResponse = ApiResponse<{ users: AdminUserSummary[] } | { user: AdminUserDetail }>;
+export type PostAdminUsersResponse = ApiResponse<{ user: AdminUserDetail; changed: boolean }>;
+export type GetAdminAuditResponse = ApiResponse<{ items: AdminAuditEntry[]; nextBefore: string | null }>;
+export type GetAdminTeamResponse = ApiResponse<{ members: AdminTeamMember[]; keys: AdminApiKeyInfo[] }>;
+export type PostAdminTeamResponse = ApiResponse<
+  | { apiKey: AdminApiKeyInfo; key: string } // the secret is shown only here
+  | { revoked: boolean }
+  | { member: AdminTeamMember | null }
+>;
+
+/* ------------------------------------------------------------------ *
+ * /api/admin/export → the waitlist as a CSV / NDJSON download (viewer;
+ *                     emails masked unless owner)
+ *   GET ?format=csv|ndjson&role=&country=&verified=true|false
+ *       &from=&to=<ISO date, to exclusive>&campaign=<utm_campaign>
+ * /api/admin/import → bulk signups, e.g. collected at an event (operator)
+ *   POST { rows | csv | ndjson, commit?, sendVerification? }
+ *   Dry run unless commit: true. Rows use the waitlist form's field names.
+ * ------------------------------------------------------------------ */
+
+export type AdminExportFormat = "csv" | "ndjson";
+
+export interface AdminUserExportFilter {
+  role?: string;
+  country?: string;                 // case-insensitive
+  verified?: boolean;
+  from?: ISODateString;             // created_at >= from
+  to?: ISODateString;               // created_at < to
+  campaign?: string;                // utm.campaign
+}
+
+/** One exported user; column order of the CSV. Import reads the same names. */
+export interface AdminUserExportRow {
+  id: string;
+  email: string;                    // "ab***@example.com" unless owner
+  email_verified: boolean;
+  role: string | null;
+  experience: string | null;
+  discord: string | null;
+  github: string | null;
+  country: string | null;
+  locale: string;
+  referral_code: string | null;
+  referred_by: string | null;       // the referrer's code
+  queue_position: number | null;
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  utm_content: string | null;
+  utm_term: string | null;
+  admitted_at: ISODateString | null;
+  created_at: ISODateString;
+}
+
+export type AdminImportStatus =
+  | "ready"        // dry run: would be created
+  | "created"
+  | "exists"       // an account already has this inbox; left untouched
+  | "duplicate"    // same email as an earlier row of this import
+  | "invalid";
+
+export interface AdminImportRowResult {
+  row: number;                      // 1-based, data rows only
+  email: string | null;
+  status: AdminImportStatus;
+  userId?: string;                  // created, or the existing account
+  duplicateOf?: number;             // row number
+  errors?: string[];                // invalid: "field: message"
+}
+
+export interface AdminImportSummary {
+  dryRun: boolean;
+  counts: Record<AdminImportStatus, number>;
+  rows: AdminImportRowResult[];
+}
+
+export type PostAdminImportResponse = ApiResponse<AdminImportSummary>;
+
+/* ------------------------------------------------------------------ *
+ * /api/redeem-access-code → Devnet-0 access (single use)
+ * ------------------------------------------------------------------ */
+
+export interface RedeemAccessCodeRequest {
+  code: string;
+}
+
+export interface RedeemAccessCodeResult {
+  userId: string;
+  cohort: string;            // cohort slug
+  redeemedAt: ISODateString;
+}
+
+export type PostRedeemAccessCodeResponse = ApiResponse<RedeemAccessCodeResult>;
 
 /* ------------------------------------------------------------------ *
  * Small helper types for fetchers on the client
@@ -242,15 +827,30 @@ export type EndpointMap = {
   "/api/config": GetConfigResponse;
   "/api/metrics": GetMetricsResponse;
   "/api/leaderboard": GetLeaderboardResponse;
+  "/api/referral-dashboard": GetReferralDashboardResponse;
   "/api/health": GetHealthResponse;
+  "/api/faucet-status": GetFaucetStatusResponse;
+  "/api/auth/me": GetMeResponse;
+  "/api/profile": GetProfileResponse;
+  "/api/account/export": GetAccountExportResponse;
 };
 
 /** POST endpoints map */
 export type PostEndpointMap = {
   "/api/waitlist": PostWaitlistResponse;
   "/api/verify-email": PostVerifyEmailResponse;
+  "/api/resend-verification": PostResendVerificationResponse;
+  "/api/referral-click": PostReferralClickResponse;
   "/api/verify-turnstile": PostVerifyTurnstileResponse;
   "/api/faucet-claim": PostFaucetClaimResponse;
+  "/api/auth/login": PostLoginResponse;
+  "/api/auth/callback": PostAuthCallbackResponse;
+  "/api/auth/logout": PostLogoutResponse;
+  "/api/profile/email": PostEmailChangeResponse;
+  "/api/profile/confirm-email": PostConfirmEmailChangeResponse;
+  "/api/account/delete": PostDeleteAccountResponse;
+  "/api/consent/confirm": PostConsentConfirmResponse;
+  "/api/consent/unsubscribe": PostUnsubscribeResponse;
 };
 
 /** Utility to narrow response type from a known path */